@@ -1,38 +1,198 @@
-import React, { useState } from 'react';
-import { Project, Sketch } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Undo2 } from 'lucide-react';
+import { Project, Sketch, Snapshot } from './types';
 import Gallery from './components/Gallery';
 import CanvasView from './components/CanvasView';
+import ConflictDialog from './components/ConflictDialog';
+import UpdateBanner from './components/UpdateBanner';
+import TrashPanel from './components/TrashPanel';
+import TemplatePicker from './components/TemplatePicker';
+import SnapshotBrowser from './components/SnapshotBrowser';
+import RecoveryBanner from './components/RecoveryBanner';
+import {
+  ConflictRecord, ConflictResolution, TrashEntry, deleteDraft, deleteSnapshot, loadDocument, loadDraftSummaries, loadLibrary,
+  loadOpenConflict, loadSnapshots, loadTrash, moveToTrash, purgeTrash, restoreFromTrash, saveDocument, saveLibrary,
+  saveProject, saveProjects, saveSketch, saveSnapshot, saveTemplate,
+} from './services/storage';
+import { getDeviceId } from './services/preferences';
+import { SyncEngine, createHttpTransport, createSyncEngine } from './services/sync';
+import { exportLookbook, shareOrDownload } from './services/export';
+import { ArchiveError, exportArchive, importArchive } from './services/archive';
+import { ApplyUpdate, listenForInstallPrompt, registerServiceWorker } from './services/pwa';
+import { emptyHistory } from './utils/history';
+import { createId } from './utils/id';
+import { findSketchProject, moveProject, moveSketches, removeSketches } from './utils/library';
+import { createDocument } from './utils/layers';
+import { TemplateChoice, createUnderlay } from './utils/templates';
 
-// Mock Initial Data
+// Set ATELIER_SYNC_URL in .env.local; defaults to the mock server (npm run sync-server)
+const SYNC_ENDPOINT = process.env.SYNC_URL || 'http://localhost:8787';
+
+// Deleted sketches and projects are purged this long after going to the trash
+const TRASH_RETENTION_DAYS = 30;
+
+// Seed data for the first launch, before anything has been persisted
 const INITIAL_PROJECTS: Project[] = [
   {
     id: 'p1',
     name: 'Autumn Collection 24',
     sketches: [
-      { id: 's1', title: 'Silhouette Study #1', createdAt: '2023-10-24', status: 'Ready for Atelier Sync' },
-      { id: 's2', title: 'Fabric Drape Concept', createdAt: '2023-10-25', status: 'Local Sketch' },
-    ]
+      { id: 's1', title: 'Silhouette Study #1', createdAt: '2023-10-24', status: 'Local Sketch', revision: 0, updatedAt: '2023-10-24T00:00:00.000Z', deviceId: '', tags: [], notes: '', details: {} },
+      { id: 's2', title: 'Fabric Drape Concept', createdAt: '2023-10-25', status: 'Local Sketch', revision: 0, updatedAt: '2023-10-25T00:00:00.000Z', deviceId: '', tags: [], notes: '', details: {} },
+    ],
+    palettes: [
+      { id: 'pal1', name: 'Autumn Wools', colors: ['#800020', '#A0522D', '#C19A6B', '#556B2F', '#2F2F2F'] },
+    ],
+    swatches: [],
+    archived: false
   },
   {
     id: 'p2',
     name: 'Couture Ideas',
-    sketches: []
+    sketches: [],
+    palettes: [],
+    swatches: [],
+    archived: false
   }
 ];
 
 const App: React.FC = () => {
   const [view, setView] = useState<'GALLERY' | 'CANVAS'>('GALLERY');
-  const [projects, setProjects] = useState<Project[]>(INITIAL_PROJECTS);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [libraryLoaded, setLibraryLoaded] = useState(false);
   const [currentProject, setCurrentProject] = useState<Project | null>(null);
   const [currentSketch, setCurrentSketch] = useState<Sketch | null>(null);
+  const [syncProgress, setSyncProgress] = useState<Record<string, number>>({});
+  const syncRef = useRef<SyncEngine | null>(null);
+  const [conflict, setConflict] = useState<ConflictRecord | null>(null);
+  // Bumped when the open sketch's document is replaced underneath the canvas
+  const [canvasKey, setCanvasKey] = useState(0);
+  const [applyUpdate, setApplyUpdate] = useState<ApplyUpdate | null>(null);
+  const [install, setInstall] = useState<(() => Promise<void>) | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [showTrash, setShowTrash] = useState(false);
+  // Sketch whose versions are being browsed, and its snapshots once loaded
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  // Sketches with work left unsaved when the app last closed, still to be offered back
+  const [recovered, setRecovered] = useState<string[]>([]);
+  // Project a new sketch is being started in, while its template is picked
+  const [creatingIn, setCreatingIn] = useState<string | null>(null);
+  // The last move to the trash, offered for undo until the next one or a timeout
+  const [undoable, setUndoable] = useState<{ message: string; entryIds: string[] } | null>(null);
+
+  // Short-lived messages, e.g. the outcome of an import
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  useEffect(() => {
+    if (!undoable) return;
+    const timeout = setTimeout(() => setUndoable(null), 6000);
+    return () => clearTimeout(timeout);
+  }, [undoable]);
+
+  // Offline support: the service worker, its update prompt, and the install prompt
+  useEffect(() => {
+    const stopUpdates = registerServiceWorker(apply => setApplyUpdate(() => apply));
+    const stopInstall = listenForInstallPrompt(action => setInstall(() => action));
+    return () => {
+      stopUpdates();
+      stopInstall();
+    };
+  }, []);
+
+  // Load the persisted library, seeding it on first launch
+  useEffect(() => {
+    let cancelled = false;
+
+    loadLibrary()
+      .then(async (stored) => {
+        if (stored.length > 0) return stored;
+        await saveLibrary(INITIAL_PROJECTS);
+        return INITIAL_PROJECTS;
+      })
+      .catch((e) => {
+        // Storage can be unavailable (e.g. private browsing); keep working in memory
+        console.error("Failed to load library", e);
+        return INITIAL_PROJECTS;
+      })
+      .then((library) => {
+        if (cancelled) return;
+        setProjects(library);
+        setLibraryLoaded(true);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Load the trash, purging whatever has been there longer than the retention period
+  useEffect(() => {
+    if (!libraryLoaded) return;
+
+    const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    loadTrash()
+      .then(async (entries) => {
+        const expired = entries.filter(e => new Date(e.deletedAt).getTime() < cutoff);
+        if (expired.length > 0) await purgeTrash(expired);
+        setTrash(entries.filter(e => !expired.includes(e)));
+      })
+      .catch(e => console.error("Failed to load trash", e));
+  }, [libraryLoaded]);
+
+  // Unsaved work found at launch means the app closed without saving or discarding it
+  useEffect(() => {
+    if (!libraryLoaded) return;
+
+    loadDraftSummaries()
+      .then(drafts => setRecovered(drafts.map(d => d.sketchId)))
+      .catch(e => console.error("Failed to load drafts", e));
+  }, [libraryLoaded]);
+
+  // Run the sync engine once the library is loaded, resuming anything left in the outbox
+  useEffect(() => {
+    if (!libraryLoaded) return;
+
+    const engine = createSyncEngine(createHttpTransport(SYNC_ENDPOINT), {
+      onUpdate: (sketchId: string, patch: Partial<Sketch>) => {
+        setProjects(prev => prev.map(p => ({
+          ...p,
+          sketches: p.sketches.map(s => (s.id === sketchId ? { ...s, ...patch } : s)),
+        })));
+      },
+      onProgress: (sketchId: string, progress: number | null) => {
+        setSyncProgress(prev => {
+          const { [sketchId]: _, ...rest } = prev;
+          return progress === null ? rest : { ...rest, [sketchId]: progress };
+        });
+      },
+    });
+    syncRef.current = engine;
+    engine.start();
+
+    return () => {
+      engine.stop();
+      syncRef.current = null;
+    };
+  }, [libraryLoaded]);
+
+  const persistSketch = (projectId: string, sketch: Sketch) => {
+    saveSketch(projectId, sketch).catch(e => console.error("Failed to save sketch", e));
+  };
 
   const handleOpenSketch = (project: Project, sketch: Sketch) => {
+    // Opening it carries on from any draft, so it's no longer offered
+    setRecovered(prev => prev.filter(id => id !== sketch.id));
     setCurrentProject(project);
     setCurrentSketch(sketch);
     setView('CANVAS');
   };
 
-  const handleCreateSketch = (projectId: string) => {
+  const handleCreateSketch = async (projectId: string, template: TemplateChoice | null) => {
+    setCreatingIn(null);
     const project = projects.find(p => p.id === projectId);
     if (!project) return;
 
@@ -41,6 +201,12 @@ const App: React.FC = () => {
       title: `Untitled Sketch ${project.sketches.length + 1}`,
       createdAt: new Date().toISOString().split('T')[0],
       status: 'Local Sketch',
+      revision: 0,
+      updatedAt: new Date().toISOString(),
+      deviceId: getDeviceId(),
+      tags: [],
+      notes: '',
+      details: {},
     };
 
     const updatedProjects = projects.map(p => {
@@ -51,6 +217,17 @@ const App: React.FC = () => {
     });
 
     setProjects(updatedProjects);
+    persistSketch(projectId, newSketch);
+    const projectIndex = updatedProjects.findIndex(p => p.id === projectId);
+    saveProject(updatedProjects[projectIndex], projectIndex)
+      .catch(e => console.error("Failed to save project", e));
+
+    // The canvas loads the document from storage, so the underlay must be there first
+    if (template) {
+      await saveDocument(createDocument(newSketch, createUnderlay(template)))
+        .catch(e => console.error("Failed to save document", e));
+    }
+
     setCurrentProject(project); 
     setCurrentSketch(newSketch);
     setView('CANVAS');
@@ -64,30 +241,413 @@ const App: React.FC = () => {
         return {
           ...p,
           sketches: p.sketches.map(s => 
-            s.id === sketchId ? { ...s, thumbnail } : s
+            // Edits after a sync leave the server copy behind
+            s.id === sketchId
+              ? {
+                  ...s,
+                  thumbnail,
+                  status: s.status === 'Synced' ? 'Local Sketch' as const : s.status,
+                  updatedAt: new Date().toISOString(),
+                  deviceId: getDeviceId(),
+                }
+              : s
           )
         };
       }
       return p;
     });
     setProjects(updatedProjects);
+
+    const saved = updatedProjects
+      .find(p => p.id === currentProject.id)
+      ?.sketches.find(s => s.id === sketchId);
+    if (saved) persistSketch(currentProject.id, saved);
   };
 
+  // Status changes arrive from the sync engine as the upload progresses
   const handleSyncSketch = (sketchId: string) => {
+    syncRef.current?.enqueue(sketchId).catch(e => console.error("Failed to queue sketch for sync", e));
+  };
+
+  const handleOpenConflict = (sketchId: string) => {
+    loadOpenConflict(sketchId)
+      .then(setConflict)
+      .catch(e => console.error("Failed to load conflict", e));
+  };
+
+  const handleResolveConflict = async (resolution: ConflictResolution) => {
+    if (!conflict || !syncRef.current) return;
+
+    try {
+      const { sketch, copy } = await syncRef.current.resolveConflict(conflict.sketchId, resolution);
+      const projectIndex = projects.findIndex(p => p.sketches.some(s => s.id === sketch.id));
+      const updatedProjects = projects.map((p, index) => {
+        if (index !== projectIndex) return p;
+        // A kept copy sits right after the sketch it came from
+        const sketches = p.sketches.flatMap(s => (
+          s.id === sketch.id ? (copy ? [sketch, copy] : [sketch]) : [s]
+        ));
+        return { ...p, sketches };
+      });
+      setProjects(updatedProjects);
+      if (copy && projectIndex !== -1) {
+        saveProject(updatedProjects[projectIndex], projectIndex)
+          .catch(e => console.error("Failed to save project", e));
+      }
+      if (resolution === 'keep-theirs') {
+        // Unsaved work would otherwise be laid back over their version
+        await deleteDraft(sketch.id);
+        if (currentSketch?.id === sketch.id) setCanvasKey(k => k + 1);
+      }
+      setConflict(null);
+    } catch (e) {
+      console.error("Failed to resolve conflict", e);
+    }
+  };
+
+  // Palettes and swatches belong to the open sketch's project
+  const updateCurrentProject = (patch: Partial<Pick<Project, 'palettes' | 'swatches'>>) => {
     if (!currentProject) return;
-    
-    const updatedProjects = projects.map(p => {
-      if (p.id === currentProject.id) {
-        return {
-          ...p,
-          sketches: p.sketches.map(s => 
-            s.id === sketchId ? { ...s, status: 'Ready for Atelier Sync' as const } : s
-          )
-        };
+
+    const updatedProjects = projects.map(p =>
+      p.id === currentProject.id ? { ...p, ...patch } : p
+    );
+    setProjects(updatedProjects);
+
+    const projectIndex = updatedProjects.findIndex(p => p.id === currentProject.id);
+    if (projectIndex !== -1) {
+      saveProject(updatedProjects[projectIndex], projectIndex)
+        .catch(e => console.error("Failed to save project", e));
+    }
+  };
+
+  // Applies a rearrangement of the gallery, rewriting every project record
+  const commitProjects = (updatedProjects: Project[]) => {
+    setProjects(updatedProjects);
+    saveProjects(updatedProjects).catch(e => console.error("Failed to save projects", e));
+  };
+
+  const handleCreateProject = (): Project => {
+    const project: Project = { id: createId('project'), name: 'New Collection', sketches: [], palettes: [], swatches: [], archived: false };
+    commitProjects([project, ...projects]);
+    return project;
+  };
+
+  const handleUpdateProject = (projectId: string, patch: Partial<Pick<Project, 'name' | 'archived'>>) => {
+    const updatedProjects = projects.map(p => (p.id === projectId ? { ...p, ...patch } : p));
+    setProjects(updatedProjects);
+
+    const projectIndex = updatedProjects.findIndex(p => p.id === projectId);
+    if (projectIndex !== -1) {
+      saveProject(updatedProjects[projectIndex], projectIndex)
+        .catch(e => console.error("Failed to save project", e));
+    }
+  };
+
+  const handleMoveProject = (projectId: string, beforeId: string | null) => {
+    commitProjects(moveProject(projects, projectId, beforeId));
+  };
+
+  // Title and metadata edits, from the gallery or the details panel
+  const handleEditSketch = (sketchId: string, patch: Partial<Pick<Sketch, 'title' | 'tags' | 'notes' | 'details'>>) => {
+    const project = findSketchProject(projects, sketchId);
+    const sketch = project?.sketches.find(s => s.id === sketchId);
+    if (!project || !sketch) return;
+    // Nothing changed, e.g. a rename left as it was
+    const fields = Object.keys(patch) as (keyof typeof patch)[];
+    if (fields.every(field => JSON.stringify(sketch[field]) === JSON.stringify(patch[field]))) return;
+
+    // These are edits like any other, so they sync too
+    const edited: Sketch = {
+      ...sketch,
+      ...patch,
+      status: sketch.status === 'Synced' ? 'Local Sketch' : sketch.status,
+      updatedAt: new Date().toISOString(),
+      deviceId: getDeviceId(),
+    };
+    setProjects(projects.map(p => (
+      p.id === project.id ? { ...p, sketches: p.sketches.map(s => (s.id === sketchId ? edited : s)) } : p
+    )));
+    persistSketch(project.id, edited);
+  };
+
+  const handleDuplicateSketches = (sketchIds: string[]) => {
+    const copies = new Map<string, Sketch>();
+    projects.flatMap(p => p.sketches).filter(s => sketchIds.includes(s.id)).forEach(sketch => {
+      copies.set(sketch.id, {
+        ...sketch,
+        id: createId('sketch'),
+        title: `${sketch.title} copy`,
+        createdAt: new Date().toISOString().split('T')[0],
+        status: 'Local Sketch',
+        revision: 0,
+        updatedAt: new Date().toISOString(),
+        deviceId: getDeviceId(),
+      });
+    });
+
+    // Each copy sits right after its original
+    const updatedProjects = projects.map(p => (
+      p.sketches.some(s => copies.has(s.id))
+        ? { ...p, sketches: p.sketches.flatMap(s => (copies.has(s.id) ? [s, copies.get(s.id)!] : [s])) }
+        : p
+    ));
+    setProjects(updatedProjects);
+
+    (async () => {
+      for (const [originalId, copy] of copies) {
+        await saveSketch(findSketchProject(updatedProjects, copy.id)!.id, copy);
+        const doc = await loadDocument(originalId);
+        if (doc) await saveDocument({ ...doc, sketchId: copy.id });
       }
-      return p;
+      await saveProjects(updatedProjects);
+    })().catch(e => console.error("Failed to duplicate sketches", e));
+  };
+
+  const handleOpenHistory = (sketchId: string) => {
+    setHistoryFor(sketchId);
+    setSnapshots(null);
+    loadSnapshots(sketchId)
+      .then(setSnapshots)
+      .catch(e => console.error("Failed to load snapshots", e));
+  };
+
+  // The sketch as it is now is kept as a version first, so a restore can be undone
+  // by restoring that
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    const project = findSketchProject(projects, snapshot.sketchId);
+    const sketch = project?.sketches.find(s => s.id === snapshot.sketchId);
+    if (!project || !sketch) return;
+
+    const restored: Sketch = {
+      ...sketch,
+      thumbnail: snapshot.thumbnail,
+      status: sketch.status === 'Synced' ? 'Local Sketch' : sketch.status,
+      updatedAt: new Date().toISOString(),
+      deviceId: getDeviceId(),
+    };
+
+    try {
+      const current = await loadDocument(sketch.id);
+      if (current && sketch.thumbnail) {
+        await saveSnapshot({
+          id: createId('snapshot'),
+          sketchId: sketch.id,
+          name: 'Before restore',
+          createdAt: new Date().toISOString(),
+          auto: true,
+          thumbnail: sketch.thumbnail,
+          document: current,
+        });
+      }
+      // Undo steps recorded against the replaced document no longer apply
+      await saveDocument({ ...snapshot.document, sketchId: sketch.id }, emptyHistory());
+      // A draft would otherwise be laid back over the restored version when it is opened
+      await deleteDraft(sketch.id);
+      setProjects(prev => prev.map(p => (
+        p.id === project.id ? { ...p, sketches: p.sketches.map(s => (s.id === sketch.id ? restored : s)) } : p
+      )));
+      persistSketch(project.id, restored);
+      setSnapshots(await loadSnapshots(sketch.id));
+      setNotice(`Restored "${snapshot.name}"`);
+    } catch (e) {
+      console.error("Failed to restore snapshot", e);
+    }
+  };
+
+  // A new sketch starting from the snapshot, right after the one it came from
+  const handleBranchSnapshot = (snapshot: Snapshot) => {
+    const sketch = projects.flatMap(p => p.sketches).find(s => s.id === snapshot.sketchId);
+    if (!sketch) return;
+
+    const branch: Sketch = {
+      ...sketch,
+      id: createId('sketch'),
+      title: `${sketch.title} (${snapshot.name})`,
+      thumbnail: snapshot.thumbnail,
+      createdAt: new Date().toISOString().split('T')[0],
+      status: 'Local Sketch',
+      revision: 0,
+      updatedAt: new Date().toISOString(),
+      deviceId: getDeviceId(),
+    };
+    const updatedProjects = projects.map(p => (
+      p.sketches.some(s => s.id === sketch.id)
+        ? { ...p, sketches: p.sketches.flatMap(s => (s.id === sketch.id ? [s, branch] : [s])) }
+        : p
+    ));
+    setProjects(updatedProjects);
+    setHistoryFor(null);
+    setNotice(`Branched "${branch.title}"`);
+
+    (async () => {
+      await saveSketch(findSketchProject(updatedProjects, branch.id)!.id, branch);
+      await saveDocument({ ...snapshot.document, sketchId: branch.id });
+      await saveProjects(updatedProjects);
+    })().catch(e => console.error("Failed to branch snapshot", e));
+  };
+
+  const handleDeleteSnapshot = (snapshotId: string) => {
+    setSnapshots(prev => prev?.filter(s => s.id !== snapshotId) ?? null);
+    deleteSnapshot(snapshotId).catch(e => console.error("Failed to delete snapshot", e));
+  };
+
+  const handleMoveSketches = (sketchIds: string[], projectId: string, beforeId: string | null) => {
+    const updatedProjects = moveSketches(projects, sketchIds, projectId, beforeId);
+    commitProjects(updatedProjects);
+
+    // Sketch records note their project, which goes up with every sync
+    const target = updatedProjects.find(p => p.id === projectId);
+    target?.sketches
+      .filter(s => sketchIds.includes(s.id) && findSketchProject(projects, s.id)?.id !== projectId)
+      .forEach(s => persistSketch(projectId, s));
+  };
+
+  const sendToTrash = (entries: TrashEntry[], remaining: Project[], message: string) => {
+    setProjects(remaining);
+    setTrash(prev => [...entries, ...prev]);
+    setUndoable({ message, entryIds: entries.map(e => e.id) });
+    moveToTrash(entries, remaining).catch(e => console.error("Failed to move to trash", e));
+  };
+
+  const handleDeleteSketches = (sketchIds: string[]) => {
+    const { projects: remaining, removed } = removeSketches(projects, sketchIds);
+    if (removed.length === 0) return;
+
+    const deletedAt = new Date().toISOString();
+    const entries: TrashEntry[] = removed.map(({ projectId, position, sketch }) => ({
+      id: createId('trash'),
+      deletedAt,
+      projectId,
+      position,
+      sketches: [sketch],
+    }));
+    sendToTrash(entries, remaining, removed.length === 1 ? `"${removed[0].sketch.title}" moved to trash` : `${removed.length} sketches moved to trash`);
+  };
+
+  const handleDeleteProject = (projectId: string) => {
+    const position = projects.findIndex(p => p.id === projectId);
+    if (position === -1) return;
+
+    const { sketches, ...project } = projects[position];
+    const entry: TrashEntry = { id: createId('trash'), deletedAt: new Date().toISOString(), projectId, position, project, sketches };
+    sendToTrash([entry], projects.filter(p => p.id !== projectId), `"${project.name}" moved to trash`);
+  };
+
+  const handleRestore = (entryIds: string[]) => {
+    const restoring = trash.filter(e => entryIds.includes(e.id));
+    if (restoring.length === 0) return;
+
+    const updatedProjects = projects.map(p => ({ ...p, sketches: [...p.sketches] }));
+    const rehomed: { projectId: string; sketch: Sketch }[] = [];
+    let recovered: Project | undefined;
+
+    // Projects first, so sketches deleted from them beforehand can go back into them.
+    // Restoring in position order puts a batch back exactly as it was.
+    const byPosition = (a: TrashEntry, b: TrashEntry) => a.position - b.position;
+    restoring.filter(e => e.project).sort(byPosition).forEach(entry => {
+      updatedProjects.splice(Math.min(entry.position, updatedProjects.length), 0, { ...entry.project!, sketches: [...entry.sketches] });
     });
+    restoring.filter(e => !e.project).sort(byPosition).forEach(entry => {
+      let project = updatedProjects.find(p => p.id === entry.projectId);
+      if (!project) {
+        // Their project is gone for good; gather them in a new one
+        if (!recovered) {
+          recovered = { id: createId('project'), name: 'Recovered Sketches', sketches: [], palettes: [], swatches: [], archived: false };
+          updatedProjects.push(recovered);
+        }
+        project = recovered;
+        entry.sketches.forEach(sketch => rehomed.push({ projectId: recovered!.id, sketch }));
+      }
+      project.sketches.splice(Math.min(entry.position, project.sketches.length), 0, ...entry.sketches);
+    });
+
     setProjects(updatedProjects);
+    setTrash(prev => prev.filter(e => !entryIds.includes(e.id)));
+    setUndoable(null);
+    restoreFromTrash(entryIds, updatedProjects).catch(e => console.error("Failed to restore from trash", e));
+    rehomed.forEach(({ projectId, sketch }) => persistSketch(projectId, sketch));
+  };
+
+  const handlePurge = (entryIds: string[]) => {
+    const purging = trash.filter(e => entryIds.includes(e.id));
+    setTrash(prev => prev.filter(e => !entryIds.includes(e.id)));
+    if (undoable?.entryIds.some(id => entryIds.includes(id))) setUndoable(null);
+    purgeTrash(purging).catch(e => console.error("Failed to empty trash", e));
+  };
+
+  const handleSaveTemplate = (name: string, image: string) => {
+    saveTemplate({ id: createId('template'), name, createdAt: new Date().toISOString(), image })
+      .then(() => setNotice(`Saved "${name}" as a template`))
+      .catch(e => console.error("Failed to save template", e));
+  };
+
+  const handleExportLookbook = async (project: Project) => {
+    try {
+      await shareOrDownload(await exportLookbook(project));
+    } catch (e) {
+      console.error("Failed to export lookbook", e);
+    }
+  };
+
+  const handleExportArchive = async (project?: Project) => {
+    try {
+      const file = project
+        ? await exportArchive([project], 'project', project.name)
+        : await exportArchive(projects, 'library', 'atelier-library');
+      await shareOrDownload(file);
+    } catch (e) {
+      console.error("Failed to export archive", e);
+    }
+  };
+
+  const handleExportSketchArchive = async (sketchId: string) => {
+    const project = projects.find(p => p.sketches.some(s => s.id === sketchId));
+    const sketch = project?.sketches.find(s => s.id === sketchId);
+    if (!project || !sketch) return;
+
+    try {
+      await shareOrDownload(await exportArchive([{ ...project, sketches: [sketch] }], 'sketch', sketch.title));
+    } catch (e) {
+      console.error("Failed to export archive", e);
+    }
+  };
+
+  const handleImportArchive = async (file: File) => {
+    try {
+      const { library, imported, skipped, renamed } = await importArchive(file, projects);
+      setProjects(library);
+      const details = [
+        renamed > 0 && `${renamed} added as copies`,
+        skipped > 0 && `${skipped} already here`,
+      ].filter(Boolean).join(', ');
+      setNotice(`Imported ${imported} sketch${imported === 1 ? '' : 'es'}${details ? ` (${details})` : ''}`);
+    } catch (e) {
+      if (e instanceof ArchiveError) {
+        setNotice(e.message);
+      } else {
+        console.error("Failed to import archive", e);
+        setNotice('Import failed');
+      }
+    }
+  };
+
+  // Drafts of sketches since deleted are left for the trash to purge
+  const recoveredSketch = recovered
+    .map(id => projects.flatMap(p => p.sketches).find(s => s.id === id))
+    .find(s => s !== undefined);
+  const historySketch = historyFor && projects.flatMap(p => p.sketches).find(s => s.id === historyFor);
+  const conflictSketch = conflict && projects.flatMap(p => p.sketches).find(s => s.id === conflict.sketchId);
+
+  const handleOpenRecovered = (sketchId: string) => {
+    const project = findSketchProject(projects, sketchId);
+    const sketch = project?.sketches.find(s => s.id === sketchId);
+    if (project && sketch) handleOpenSketch(project, sketch);
+  };
+
+  const handleDiscardRecovered = (sketchId: string) => {
+    setRecovered(prev => prev.filter(id => id !== sketchId));
+    deleteDraft(sketchId).catch(e => console.error("Failed to discard draft", e));
   };
 
   const handleBackToGallery = () => {
@@ -105,25 +665,120 @@ const App: React.FC = () => {
         height: 'auto' // Allowed it to grow so we can scroll
       }}
     >
-      {view === 'GALLERY' ? (
+      {!libraryLoaded ? (
+        <div className="flex items-center justify-center h-screen text-gold">Loading Atelier...</div>
+      ) : view === 'GALLERY' ? (
         <Gallery 
           projects={projects} 
+          trashCount={trash.length}
           onOpenSketch={handleOpenSketch} 
-          onCreateSketch={handleCreateSketch} 
+          onCreateSketch={setCreatingIn} 
+          onCreateProject={handleCreateProject}
+          onUpdateProject={handleUpdateProject}
+          onMoveProject={handleMoveProject}
+          onDeleteProject={handleDeleteProject}
+          onRenameSketch={(sketchId, title) => handleEditSketch(sketchId, { title })}
+          onDuplicateSketches={handleDuplicateSketches}
+          onOpenHistory={handleOpenHistory}
+          onMoveSketches={handleMoveSketches}
+          onDeleteSketches={handleDeleteSketches}
+          onOpenTrash={() => setShowTrash(true)}
+          onExportLookbook={handleExportLookbook}
+          onExportArchive={handleExportArchive}
+          onImportArchive={handleImportArchive}
+          onInstall={install ? () => { install().catch(e => console.error("Failed to show install prompt", e)); } : undefined}
         />
       ) : (
         // FIXED: Added safety check to prevent "undefined" errors on mobile refresh
         currentSketch ? (
           <CanvasView 
-            sketch={currentSketch} 
+            key={`${currentSketch.id}:${canvasKey}`}
+            sketch={projects.flatMap(p => p.sketches).find(s => s.id === currentSketch.id) ?? currentSketch} 
+            syncProgress={syncProgress[currentSketch.id]}
+            palettes={projects.find(p => p.id === currentProject?.id)?.palettes ?? []}
+            onPalettesChange={(palettes) => updateCurrentProject({ palettes })}
+            swatches={projects.find(p => p.id === currentProject?.id)?.swatches ?? []}
+            onSwatchesChange={(swatches) => updateCurrentProject({ swatches })}
             onBack={handleBackToGallery}
             onSave={handleSaveSketch}
             onSync={handleSyncSketch}
+            onResolveConflict={handleOpenConflict}
+            onExportArchive={() => handleExportSketchArchive(currentSketch.id)}
+            onUpdateDetails={(patch) => handleEditSketch(currentSketch.id, patch)}
+            onSaveTemplate={handleSaveTemplate}
           />
         ) : (
           <div className="flex items-center justify-center h-screen text-gold">Loading Atelier...</div>
         )
       )}
+
+      {notice && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[80] px-4 py-2 bg-charcoal/95 backdrop-blur-md border border-gold/40 rounded-full shadow-luxury text-white text-xs animate-in fade-in slide-in-from-top-4">
+          {notice}
+        </div>
+      )}
+
+      {undoable && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[80] flex items-center space-x-3 pl-4 pr-2 py-2 bg-charcoal/95 backdrop-blur-md border border-gold/40 rounded-full shadow-luxury animate-in fade-in slide-in-from-bottom-4">
+          <span className="text-white text-xs whitespace-nowrap">{undoable.message}</span>
+          <button
+            onClick={() => handleRestore(undoable.entryIds)}
+            className="flex items-center space-x-1 px-3 py-1 rounded-full text-gold text-xs uppercase tracking-wide hover:bg-white/10"
+          >
+            <Undo2 size={14} />
+            <span>Undo</span>
+          </button>
+        </div>
+      )}
+
+      {creatingIn && (
+        <TemplatePicker
+          onSelect={(template) => handleCreateSketch(creatingIn, template)}
+          onClose={() => setCreatingIn(null)}
+        />
+      )}
+
+      {showTrash && (
+        <TrashPanel
+          entries={trash}
+          retentionDays={TRASH_RETENTION_DAYS}
+          onRestore={handleRestore}
+          onPurge={handlePurge}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {historyFor && historySketch && (
+        <SnapshotBrowser
+          sketch={historySketch}
+          snapshots={snapshots}
+          onRestore={handleRestoreSnapshot}
+          onBranch={handleBranchSnapshot}
+          onDelete={handleDeleteSnapshot}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
+
+      {view === 'GALLERY' && recoveredSketch && !undoable && (
+        <RecoveryBanner
+          title={recoveredSketch.title}
+          onOpen={() => handleOpenRecovered(recoveredSketch.id)}
+          onDiscard={() => handleDiscardRecovered(recoveredSketch.id)}
+        />
+      )}
+
+      {applyUpdate && (
+        <UpdateBanner onReload={applyUpdate} onDismiss={() => setApplyUpdate(null)} />
+      )}
+
+      {conflict && conflictSketch && (
+        <ConflictDialog
+          sketch={conflictSketch}
+          conflict={conflict}
+          onResolve={handleResolveConflict}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
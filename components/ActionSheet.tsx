@@ -0,0 +1,48 @@
+import React from 'react';
+
+export interface SheetAction {
+  label: string;
+  icon: React.ReactNode;
+  onSelect: () => void;
+  destructive?: boolean;
+  disabled?: boolean;
+}
+
+interface ActionSheetProps {
+  title: string;
+  subtitle?: string;
+  actions: SheetAction[];
+  onClose: () => void;
+}
+
+// Bottom sheet of actions, e.g. the long-press menu in the gallery. Choosing an
+// action closes the sheet before running it, so an action may open another sheet.
+const ActionSheet: React.FC<ActionSheetProps> = ({ title, subtitle, actions, onClose }) => (
+  <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60] flex items-end justify-center" onClick={onClose}>
+    <div
+      onClick={(e) => e.stopPropagation()}
+      className="w-full max-w-md bg-charcoal border-t border-x border-gold/30 rounded-t-2xl shadow-luxury p-4 pb-8 space-y-2 animate-in fade-in slide-in-from-bottom-4"
+    >
+      <div className="px-2 pb-2">
+        <p className="text-white font-serif text-lg truncate">{title}</p>
+        {subtitle && <p className="text-gray-400 text-xs truncate">{subtitle}</p>}
+      </div>
+      {actions.map(action => (
+        <button
+          key={action.label}
+          onClick={() => {
+            onClose();
+            action.onSelect();
+          }}
+          disabled={action.disabled}
+          className={`w-full p-3 rounded-lg flex items-center space-x-3 text-left bg-white/5 border border-transparent hover:border-white/10 disabled:opacity-30 ${action.destructive ? 'text-red-400' : 'text-white'}`}
+        >
+          <span className={action.destructive ? '' : 'text-gold'}>{action.icon}</span>
+          <span className="text-sm font-medium">{action.label}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default ActionSheet;
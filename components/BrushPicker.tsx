@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { BrushId, Stroke } from '../types';
+import { BRUSH_PRESETS } from '../utils/brushes';
+import { renderStroke } from '../utils/strokes';
+
+interface BrushPickerProps {
+  brush: BrushId;
+  color: string;
+  onSelect: (brush: BrushId) => void;
+}
+
+const PREVIEW_WIDTH = 160;
+const PREVIEW_HEIGHT = 36;
+
+// A gentle S-curve with a pressure swell and steady timing, drawn with each preset
+const previewStroke = (brush: BrushId, color: string): Stroke => ({
+  id: `preview-${brush}`,
+  tool: 'brush',
+  color,
+  size: 8,
+  opacity: 100,
+  brush,
+  seed: 1,
+  points: Array.from({ length: 40 }, (_, i) => {
+    const f = i / 39;
+    return {
+      x: 12 + f * (PREVIEW_WIDTH - 24),
+      y: PREVIEW_HEIGHT / 2 + Math.sin(f * Math.PI * 2) * 8,
+      pressure: Math.sin(f * Math.PI),
+      t: i * 16,
+    };
+  }),
+});
+
+const BrushPreview: React.FC<{ brush: BrushId; color: string }> = ({ brush, color }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = PREVIEW_WIDTH * dpr;
+    canvas.height = PREVIEW_HEIGHT * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+    renderStroke(ctx, previewStroke(brush, color));
+  }, [brush, color]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="bg-white rounded"
+      style={{ width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT }}
+    />
+  );
+};
+
+const BrushPicker: React.FC<BrushPickerProps> = ({ brush, color, onSelect }) => {
+  return (
+    <div className="absolute bottom-28 left-6 w-60 bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-3 space-y-2 animate-in fade-in slide-in-from-bottom-4">
+      <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">Brushes</div>
+      {BRUSH_PRESETS.map(preset => (
+        <button
+          key={preset.id}
+          onClick={() => onSelect(preset.id)}
+          className={`w-full p-2 rounded-lg border text-left space-y-1 ${preset.id === brush ? 'bg-white/10 border-gold/30' : 'bg-white/5 border-transparent hover:border-white/10'}`}
+        >
+          <p className={`text-xs font-medium ${preset.id === brush ? 'text-gold' : 'text-white'}`}>{preset.name}</p>
+          <BrushPreview brush={preset.id} color={color} />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default BrushPicker;
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, SwitchCamera, X } from 'lucide-react';
+
+interface CameraCaptureProps {
+  onCapture: (dataUrl: string) => void; // JPEG of the frame
+  onClose: () => void;
+}
+
+type Facing = 'environment' | 'user';
+
+const cameraError = (e: unknown): string => {
+  if (e instanceof DOMException) {
+    if (e.name === 'NotAllowedError') return 'Camera access was denied. Allow it in your browser settings to take reference photos.';
+    if (e.name === 'NotFoundError' || e.name === 'OverconstrainedError') return 'No camera was found on this device.';
+    if (e.name === 'NotReadableError') return 'The camera is in use by another app.';
+  }
+  return 'The camera could not be started.';
+};
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Fabric swatches and mood boards are usually shot with the back camera
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs the camera while open, restarting it when switching sides
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('This browser cannot use the camera. Import a photo instead.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setReady(false);
+    setError(null);
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: facing, width: { ideal: 1920 }, height: { ideal: 1920 } }, audio: false })
+      .then(async (media) => {
+        if (cancelled) {
+          media.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        await video.play();
+        setReady(true);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.error("Failed to start camera", e);
+        setError(cameraError(e));
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [facing]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0);
+    onCapture(canvas.toDataURL('image/jpeg', 0.9));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black z-[60] flex flex-col">
+      <div className="flex items-center justify-between p-4">
+        <button onClick={onClose} className="p-2 text-white/80 hover:text-gold">
+          <X size={24} />
+        </button>
+        <span className="font-serif text-white/70 text-sm tracking-wider">Reference Photo</span>
+        <button
+          onClick={() => setFacing(f => (f === 'environment' ? 'user' : 'environment'))}
+          disabled={!!error}
+          className="p-2 text-white/80 hover:text-gold disabled:opacity-30"
+        >
+          <SwitchCamera size={24} />
+        </button>
+      </div>
+
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={`max-w-full max-h-full ${facing === 'user' ? '-scale-x-100' : ''}`}
+        />
+        {error && (
+          <p className="absolute inset-x-8 text-center text-gray-300 text-sm">{error}</p>
+        )}
+        {!error && !ready && (
+          <p className="absolute text-gold text-xs uppercase tracking-widest animate-pulse">Starting camera...</p>
+        )}
+      </div>
+
+      <div className="p-8 flex justify-center">
+        <button
+          onClick={handleCapture}
+          disabled={!ready}
+          className="w-16 h-16 rounded-full border-4 border-gold bg-white/10 flex items-center justify-center text-gold active:scale-95 transition-transform disabled:opacity-30"
+        >
+          <Camera size={24} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -1,325 +1,1344 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { ArrowLeft, Layers, Undo2, Redo2, Brush, Eraser, ImagePlus, Save, UploadCloud, ChevronDown } from 'lucide-react';
-
-// --- INLINE TYPES ---
-export interface Sketch {
-  id: string;
-  title: string;
-  createdAt: string;
-  thumbnail?: string; // Data URL
-  status: 'Local Sketch' | 'Ready for Atelier Sync' | 'Synced';
-}
+import React, { useRef, useState, useEffect } from 'react';
+import { ArrowLeft, Layers, Undo2, Redo2, Brush, Eraser, ImagePlus, Camera, Move, SquareDashed, LassoSelect, FlipHorizontal2, FlipVertical2, Copy, ClipboardPaste, Trash2, X, Columns2, Rows2, Grid2x2, Asterisk, Crosshair, Minus, Plus, PaintBucket, Shapes, Check, Save, UploadCloud, Maximize, Cloud, CheckCircle2, AlertTriangle, GitBranch, Share2, Tags, Clapperboard, BookmarkPlus } from 'lucide-react';
+import { BrushId, DrawPoint, Layer, Palette, ReferencePlacement, RegionFill, Sketch, SketchDocument, StabilizerMode, Stroke, Swatch, ToolType } from '../types';
+import Slider from './Slider';
+import LayersPanel from './LayersPanel';
+import ColorPicker from './ColorPicker';
+import BrushPicker from './BrushPicker';
+import ExportMenu from './ExportMenu';
+import DetailsPanel, { SketchMetadata } from './DetailsPanel';
+import CameraCapture from './CameraCapture';
+import { compositeOperation, createDocument, createLayer, getActiveLayer, indexAboveActive, updateLayer } from '../utils/layers';
+import { rgbToHex } from '../utils/color';
+import { DEFAULT_HISTORY_BUDGET, EditorState, HistoryCommand, emptyHistory, execute, redo, undo } from '../utils/history';
+import { layerImageSources, loadBitmap, renderDocument, renderLayer } from '../utils/render';
+import { LiveStroke, beginLiveStroke, cancelLiveStroke, updateLiveStroke } from '../utils/strokes';
+import { IDENTITY_VIEW, Point, ViewTransform, isIdentityView, pinchView, screenToPaper, viewToCss, zoomAt } from '../utils/viewport';
+import { createId } from '../utils/id';
+import { deleteDraft, loadDocument, loadDraft, loadHistory, saveDocument, saveDraft, saveSnapshot } from '../services/storage';
+import { ExportFormat, exportSketch, shareOrDownload } from '../services/export';
+import {
+  FillSettings, OverlaySettings, StabilizerSettings, SymmetrySettings, getFillSettings, getOverlaySettings, getRecentColors,
+  getStabilizerSettings, getSymmetrySettings, pushRecentColor, saveFillSettings, saveOverlaySettings, saveStabilizerSettings,
+  saveSymmetrySettings,
+} from '../services/preferences';
+import { Stabilizer, createStabilizer } from '../utils/smoothing';
+import { dragReference, loadReferencePhoto, pinchReference, placeReference } from '../utils/reference';
+import {
+  IDENTITY_MATRIX, Matrix, applyMatrix, cloneFills, cloneStrokes, pointInPolygon, polygonCenter, rectPolygon, rotationAbout,
+  scalingAbout, selectFills, selectStrokes, strokesFrame, transformStrokes, translation,
+} from '../utils/selection';
+import {
+  MAX_RADIAL_SEGMENTS, MIN_RADIAL_SEGMENTS, SYMMETRY_LABELS, SYMMETRY_MODES, mirrorPoints, mirrorStrokes, symmetryGuides,
+  symmetryMatrices,
+} from '../utils/symmetry';
+import { FILL_RESOLUTION, findRegion } from '../utils/fill';
+import { BUILTIN_SWATCHES } from '../utils/swatches';
+import FillPanel from './FillPanel';
+import {
+  GRID_SPACING, Guide, GuideKind, ShapeKind, createGuide, guideEdge, guideHandles, guideOutline, nearestOnPath, rulerTicks,
+  shapePoints, turnGuide,
+} from '../utils/guides';
+import GuidesPanel from './GuidesPanel';
+import TimelapsePlayer from './TimelapsePlayer';
+import SnapshotForm from './SnapshotForm';
+import UnsavedChangesDialog from './UnsavedChangesDialog';
+
+// --- MAIN CANVAS VIEW COMPONENT ---
 
-export type ToolType = 'brush' | 'eraser';
+const DEFAULT_COLOR = '#000000';
 
-export interface DrawPoint {
-  x: number;
-  y: number;
-  pressure: number;
+// Selection handles, in screen pixels: drawn radius, touch target radius, and how far
+// the rotate handle sits above the frame
+const HANDLE_RADIUS = 6;
+const HANDLE_HIT = 22;
+const ROTATE_HANDLE_OFFSET = 28;
+// Pasted strokes land this far (document units) from what was copied
+const PASTE_OFFSET = 16;
+
+type SelectMode = 'rect' | 'lasso';
+
+// Selected strokes on one layer and the frame around them, which turns with them
+interface Selection {
+  layerId: string;
+  strokeIds: string[];
+  fillIds: string[];
+  frame: Point[]; // Corners clockwise from the top left, document units
 }
 
-// --- INLINE SLIDER COMPONENT ---
-interface SliderProps {
-  value: number;
-  min: number;
-  max: number;
-  onChange: (val: number) => void;
-  label: string;
+// A shape being drawn: its vertices so far, the last following the pointer
+interface ShapeDraft {
+  kind: ShapeKind;
+  layerId: string;
+  vertices: DrawPoint[];
+  startTime: number;
+  startedAt: number; // Epoch ms, for the timelapse
 }
 
-const Slider: React.FC<SliderProps> = ({ value, min, max, onChange, label }) => {
-  const trackRef = useRef<HTMLDivElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
+// Strokes begun within this many screen pixels of a guide's edge follow it
+const GUIDE_SNAP = 30;
 
-  const updateValue = (clientY: number) => {
-    if (!trackRef.current) return;
-    
-    const rect = trackRef.current.getBoundingClientRect();
-    const height = rect.height;
-    const relativeY = clientY - rect.top;
-    
-    // Invert Y because slider fills from bottom up
-    const percentage = Math.max(0, Math.min(1, 1 - (relativeY / height)));
-    
-    const newValue = Math.round(min + percentage * (max - min));
-    onChange(newValue);
-  };
+// Slides points onto a guide's edge, keeping their pressure and timing
+const onEdge = (points: DrawPoint[], edge: Point[] | null): DrawPoint[] =>
+  edge ? points.map(p => ({ ...p, ...nearestOnPath(edge, p).point })) : points;
 
-  const handlePointerDown = (e: React.PointerEvent) => {
-    setIsDragging(true);
-    e.currentTarget.setPointerCapture(e.pointerId);
-    updateValue(e.clientY);
-  };
+// Copied strokes and fills, kept for the session so they can be pasted into another sketch
+let clipboard: { strokes: Stroke[]; fills: RegionFill[] } = { strokes: [], fills: [] };
 
-  const handlePointerMove = (e: React.PointerEvent) => {
-    if (isDragging) {
-      updateValue(e.clientY);
-    }
-  };
+const isClipboardEmpty = () => clipboard.strokes.length === 0 && clipboard.fills.length === 0;
 
-  const handlePointerUp = (e: React.PointerEvent) => {
-    setIsDragging(false);
-    e.currentTarget.releasePointerCapture(e.pointerId);
-  };
+// Reference photos start half see-through so tracing over them is easy
+const REFERENCE_OPACITY = 60;
 
-  const percentage = ((value - min) / (max - min)) * 100;
+// Pixels per document unit for sketches saved as templates
+const TEMPLATE_SCALE = 2;
 
-  return (
-    <div className="flex flex-col items-center space-y-2">
-      <div 
-        ref={trackRef}
-        className="relative w-8 h-40 bg-black/40 rounded-full border border-white/10 overflow-hidden cursor-ns-resize touch-none"
-        onPointerDown={handlePointerDown}
-        onPointerMove={handlePointerMove}
-        onPointerUp={handlePointerUp}
-      >
-        {/* Fill */}
-        <div 
-          className="absolute bottom-0 left-0 right-0 bg-gold/80 transition-all duration-75 ease-out"
-          style={{ height: `${percentage}%` }}
-        />
-        
-        {/* Label inside */}
-        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-             <span className="text-[10px] font-bold tracking-tighter text-white drop-shadow-md rotate-[-90deg]">
-                {value}
-             </span>
-        </div>
-      </div>
-      <span className="text-[10px] uppercase tracking-widest text-gold font-medium">
-        {label}
-      </span>
-    </div>
-  );
+// Unsaved work is kept as a draft this long after the last change, in ms
+const AUTOSAVE_DELAY = 2000;
+
+// Upper bound on pixels per layer canvas when rendering zoomed in
+const MAX_LAYER_PIXELS = 4_000_000;
+
+// Two-finger tap detection
+const TAP_SLOP = 10; // px
+const TAP_DURATION = 250; // ms
+const DOUBLE_TAP_INTERVAL = 400; // ms
+
+const centerOf = (element: HTMLElement): Point => {
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
 };
 
-// --- MAIN CANVAS VIEW COMPONENT ---
+const STABILIZER_MODES: StabilizerMode[] = ['off', 'pulled-string', 'moving-average'];
+const STABILIZER_LABELS: Record<StabilizerMode, string> = {
+  'off': 'Off',
+  'pulled-string': 'String',
+  'moving-average': 'Avg',
+};
 
 interface CanvasViewProps {
   sketch: Sketch;
+  palettes: Palette[]; // Palettes of the sketch's project
+  onPalettesChange: (palettes: Palette[]) => void;
+  swatches: Swatch[]; // Textile swatches of the sketch's project
+  onSwatchesChange: (swatches: Swatch[]) => void;
   onBack: () => void;
   onSave: (id: string, thumbnail: string) => void;
   onSync: (id: string) => void;
+  syncProgress?: number; // 0-1 while this sketch is uploading
+  onResolveConflict: (id: string) => void;
+  onExportArchive: () => Promise<void>;
+  onUpdateDetails: (patch: Partial<SketchMetadata>) => void;
+  onSaveTemplate: (name: string, image: string) => void; // Flattened page, transparent PNG data URL
+  historyBudget?: number; // Bytes of undo/redo history kept in memory
 }
 
-const CanvasView: React.FC<CanvasViewProps> = ({ sketch, onBack, onSave, onSync }) => {
+const CanvasView: React.FC<CanvasViewProps> = ({ sketch, palettes, onPalettesChange, swatches, onSwatchesChange, onBack, onSave, onSync, syncProgress, onResolveConflict, onExportArchive, onUpdateDetails, onSaveTemplate, historyBudget = DEFAULT_HISTORY_BUDGET }) => {
   // Canvas Refs
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const isInitializedRef = useRef(false);
-  // Track last point for smooth segments
-  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const paperRef = useRef<HTMLDivElement>(null);
+  // Touch points on the canvas area, and the two-finger gesture they form
+  const touchPointsRef = useRef(new Map<number, Point>());
+  const gestureRef = useRef<{ ids: [number, number]; from: [Point, Point]; startView: ViewTransform; moved: boolean; startTime: number } | null>(null);
+  const lastTwoFingerTapRef = useRef(0);
+  const layerCanvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+  // What each layer canvas currently shows, so unchanged layers are not repainted
+  const renderedRef = useRef(new Map<string, {
+    strokes: Stroke[];
+    fills?: RegionFill[];
+    bitmap?: string;
+    reference?: ReferencePlacement;
+    images: number; // How many of its images had been decoded
+  }>());
+  const bitmapsRef = useRef(new Map<string, HTMLImageElement>());
+  // Stroke being drawn, with its mirror images in symmetry mode, committed to the
+  // document on pointer up; `edge` is the guide it follows, if any
+  const currentStrokeRef = useRef<{ layerId: string; live: LiveStroke; mirrors: Matrix[]; stabilizer: Stabilizer; startTime: number; edge: Point[] | null } | null>(null);
+  // Last committed strokes, already on their canvas from live drawing
+  const paintedLiveRef = useRef<Stroke[]>([]);
+  // Pointer dragging the symmetry centre
+  const axisDragRef = useRef<number | null>(null);
+  // Pointer placing a shape's vertex
+  const shapePointerRef = useRef<number | null>(null);
+  // Pointer moving or turning the guide, from where it started
+  const guideDragRef = useRef<{ pointerId: number; handle: 'move' | 'turn'; from: Point; start: Guide } | null>(null);
+  // Pointers moving the active reference photo (document units): where each started
+  // since the last pointer came or went, and the placement at that moment
+  const adjustRef = useRef<{
+    layerId: string;
+    original: ReferencePlacement;
+    start: ReferencePlacement;
+    current: ReferencePlacement;
+    from: Map<number, Point>;
+    points: Map<number, Point>;
+  } | null>(null);
+  // Pointer drawing a selection outline, or transforming the selection through a handle
+  const selectGestureRef = useRef<
+    | { kind: 'outline'; pointerId: number; points: Point[] }
+    | { kind: 'move' | 'scale' | 'rotate'; pointerId: number; from: Point; baseDoc: SketchDocument; frame: Point[]; matrix: Matrix }
+    | null
+  >(null);
+
+  // Document State: the document and its undo history always change together
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const doc = editor?.doc ?? null;
+  // The document as last saved, or as loaded; anything else on screen is unsaved
+  const [savedDoc, setSavedDoc] = useState<SketchDocument | null>(null);
+  const [leaving, setLeaving] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [paperSize, setPaperSize] = useState<{ width: number; height: number } | null>(null);
+  const [, setBitmapsLoaded] = useState(0);
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+  // Zoom the layer canvases are rendered for; follows the view once a gesture settles
+  const [renderZoom, setRenderZoom] = useState(1);
 
   // Drawing State
   const [isDrawing, setIsDrawing] = useState(false);
-  const [context, setContext] = useState<CanvasRenderingContext2D | null>(null);
-  const [history, setHistory] = useState<ImageData[]>([]);
-  const [historyStep, setHistoryStep] = useState(-1);
   
   // Tool State
   const [tool, setTool] = useState<ToolType>('brush');
+  const [brush, setBrush] = useState<BrushId>('round');
+  const [stabilizerSettings, setStabilizerSettings] = useState<StabilizerSettings>(getStabilizerSettings);
   const [brushSize, setBrushSize] = useState(5);
   const [opacity, setOpacity] = useState(100);
+  const [recentColors, setRecentColors] = useState<string[]>(getRecentColors);
+  const [color, setColor] = useState(() => recentColors[0] ?? DEFAULT_COLOR);
+  const [eyedropperActive, setEyedropperActive] = useState(false);
   const [layersOpen, setLayersOpen] = useState(false);
+  const [colorOpen, setColorOpen] = useState(false);
+  const [brushesOpen, setBrushesOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [detailsOpen, setDetailsOpen] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [timelapseOpen, setTimelapseOpen] = useState(false);
+  const [snapshotOpen, setSnapshotOpen] = useState(false);
+  const [selectMode, setSelectMode] = useState<SelectMode | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  // Outline traced while selecting
+  const [marquee, setMarquee] = useState<Point[] | null>(null);
+  const [canPaste, setCanPaste] = useState(!isClipboardEmpty());
+  const [symmetry, setSymmetry] = useState<SymmetrySettings>(getSymmetrySettings);
+  // Where the mirror axes cross, in document units; null keeps them on the page centre
+  const [symmetryAxis, setSymmetryAxis] = useState<Point | null>(null);
+  const [fillActive, setFillActive] = useState(false);
+  const [fillOpen, setFillOpen] = useState(false);
+  const [fillSettings, setFillSettings] = useState<FillSettings>(getFillSettings);
+  // A fill is being worked out; taps wait for it
+  const [filling, setFilling] = useState(false);
+  const [shape, setShape] = useState<ShapeKind | null>(null);
+  const [shapeDraft, setShapeDraft] = useState<ShapeDraft | null>(null);
+  const [guide, setGuide] = useState<Guide | null>(null);
+  const [guidesOpen, setGuidesOpen] = useState(false);
+  const [overlays, setOverlays] = useState<OverlaySettings>(getOverlaySettings);
+  const [exporting, setExporting] = useState<ExportFormat | 'archive' | 'template' | null>(null);
   
   // UI State
-  const [syncing, setSyncing] = useState(false);
 
-  // History Management
-  const saveHistory = useCallback((ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
-    if (canvas.width === 0 || canvas.height === 0) return;
-    
-    try {
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        setHistory(prev => {
-            const newHistory = prev.slice(0, historyStep + 1);
-            newHistory.push(imageData);
-            return newHistory;
-        });
-        setHistoryStep(prev => prev + 1);
-    } catch (e) {
-        console.error("Failed to save history", e);
-    }
-  }, [historyStep]);
+  const activeLayer = doc ? getActiveLayer(doc) : undefined;
+  const canDraw = !!activeLayer && activeLayer.visible && !activeLayer.locked;
+  // Painted pixels can't be lifted out of a layer's image, so selecting would leave them behind
+  const canSelect = canDraw && !activeLayer?.bitmap;
+  // With a reference photo selected, the pointer moves the photo instead of drawing
+  const adjustingReference = !!activeLayer?.reference && !eyedropperActive;
+  // Screen pixels per document unit at the current paper size, before zoom
+  const viewScale = doc && paperSize ? paperSize.width / doc.width : 1;
+  // ...and including zoom, i.e. what one document unit measures on screen
+  const screenScale = viewScale * view.scale;
+  const symmetryCenter = symmetryAxis ?? (doc ? { x: doc.width / 2, y: doc.height / 2 } : { x: 0, y: 0 });
+  const symmetryOn = symmetry.mode !== 'off';
+
+  // Load the layered document and its history, falling back to the sketch's flat image.
+  // A draft left from a session that never saved or discarded its work is carried on.
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadDocument(sketch.id), loadHistory(sketch.id), loadDraft(sketch.id)])
+      .catch((e) => {
+        console.error("Failed to load document", e);
+        return [null, null, null] as const;
+      })
+      .then(([storedDoc, storedHistory, draft]) => {
+        if (cancelled) return;
+        const saved = storedDoc ?? createDocument(sketch);
+        setSavedDoc(saved);
+        setEditor(draft
+          ? { doc: draft.document, history: draft.history }
+          : { doc: saved, history: storedHistory ?? emptyHistory() });
+      });
+    return () => { cancelled = true; };
+  }, [sketch.id]);
+
+  const unsaved = !!doc && doc !== savedDoc;
+
+  useEffect(() => {
+    if (!saveFailed) return;
+    const timeout = setTimeout(() => setSaveFailed(false), 4000);
+    return () => clearTimeout(timeout);
+  }, [saveFailed]);
 
-  // Initialize Canvas
+  // Keep unsaved work as a draft once changes pause, and whenever the page is hidden:
+  // a hidden tab may be killed without another chance
+  useEffect(() => {
+    if (!editor || editor.doc === savedDoc) return;
+    const autosave = () => {
+      saveDraft({ sketchId: sketch.id, savedAt: new Date().toISOString(), document: editor.doc, history: editor.history })
+        .catch(e => console.error("Failed to autosave draft", e));
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') autosave();
+    };
+    const timeout = setTimeout(autosave, AUTOSAVE_DELAY);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      clearTimeout(timeout);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [editor, savedDoc, sketch.id]);
+
+  // The browser's own prompt when closing or reloading the tab with unsaved work
+  useEffect(() => {
+    if (!unsaved) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [unsaved]);
+
+  // Fit the page into the canvas area, re-measuring whenever the area resizes
+  const docWidth = doc?.width;
+  const docHeight = doc?.height;
   useEffect(() => {
-    const canvas = canvasRef.current;
     const container = containerRef.current;
-    if (!canvas || !container) return;
+    if (!container || !docWidth || !docHeight) return;
 
-    const initCanvas = () => {
-        if (container.clientWidth === 0 || container.clientHeight === 0) return;
-        
-        if (isInitializedRef.current) return;
+    const measure = () => {
+        // Leave the same 1rem margin around the paper as before
+        const availableW = container.clientWidth - 32;
+        const availableH = container.clientHeight - 32;
+        if (availableW <= 0 || availableH <= 0) return;
 
-        const dpr = window.devicePixelRatio || 1;
-        canvas.width = container.clientWidth * dpr;
-        canvas.height = container.clientHeight * dpr;
-        
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        if (ctx) {
-          ctx.scale(dpr, dpr);
-          ctx.lineCap = 'round';
-          ctx.lineJoin = 'round';
-          setContext(ctx);
-          isInitializedRef.current = true;
-          
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-          if (sketch.thumbnail) {
-            const img = new Image();
-            img.crossOrigin = "anonymous";
-            img.src = sketch.thumbnail;
-            img.onload = () => {
-              ctx.drawImage(img, 0, 0, container.clientWidth, container.clientHeight);
-              saveHistory(ctx, canvas);
-            };
-            img.onerror = () => {
-                saveHistory(ctx, canvas);
-            }
-          } else {
-            saveHistory(ctx, canvas);
-          }
-        }
+        const fit = Math.min(availableW / docWidth, availableH / docHeight);
+        setPaperSize({ width: docWidth * fit, height: docHeight * fit });
     };
 
-    initCanvas();
+    measure();
 
     const resizeObserver = new ResizeObserver(() => {
-        initCanvas();
+        measure();
     });
     
     resizeObserver.observe(container);
     return () => resizeObserver.disconnect();
-  }, [sketch.thumbnail]); 
+  }, [docWidth, docHeight]);
+
+  // Re-render sharper once zooming pauses, rather than on every pinch frame
+  useEffect(() => {
+    const timeout = setTimeout(() => setRenderZoom(view.scale), 200);
+    return () => clearTimeout(timeout);
+  }, [view.scale]);
+
+  // Wheel / trackpad zoom around the cursor; registered natively so it can preventDefault
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = Math.exp(-e.deltaY * 0.0015);
+      setView(v => zoomAt(v, { x: e.clientX, y: e.clientY }, factor, centerOf(container)));
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Repaint layer canvases from their strokes whenever content or resolution changes
+  useEffect(() => {
+    if (!doc || !paperSize) return;
+
+    // Render for the zoom (sharp detail when zoomed in) within a per-layer pixel budget
+    const dpr = window.devicePixelRatio || 1;
+    const fittedPixels = paperSize.width * paperSize.height * dpr * dpr;
+    const zoom = Math.max(1, Math.min(renderZoom, Math.sqrt(MAX_LAYER_PIXELS / fittedPixels)));
+    const pixelWidth = Math.round(paperSize.width * dpr * zoom);
+    const pixelHeight = Math.round(paperSize.height * dpr * zoom);
+    const pixelScale = pixelWidth / doc.width;
+
+    doc.layers.forEach(layer => {
+      const canvas = layerCanvasesRef.current.get(layer.id);
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      // The bitmap and fill images, decoding any not seen before
+      const images = new Map<string, HTMLImageElement>();
+      layerImageSources(layer).forEach(src => {
+        const image = bitmapsRef.current.get(src);
+        if (image) {
+          images.set(src, image);
+          return;
+        }
+        loadBitmap(src)
+          .then(img => {
+            bitmapsRef.current.set(src, img);
+            setBitmapsLoaded(n => n + 1);
+          })
+          .catch(e => console.error("Failed to load layer bitmap", e));
+      });
+      const content = { strokes: layer.strokes, fills: layer.fills, bitmap: layer.bitmap, reference: layer.reference, images: images.size };
+
+      const rendered = renderedRef.current.get(layer.id);
+      if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+        canvas.width = pixelWidth;
+        canvas.height = pixelHeight;
+      } else if (
+        rendered
+        && rendered.bitmap === content.bitmap
+        && rendered.fills === content.fills
+        && rendered.reference === content.reference
+        && rendered.images === content.images
+      ) {
+        if (rendered.strokes === layer.strokes) return;
+
+        // The only change is the stroke just drawn live: the canvas already shows it
+        const count = rendered.strokes.length;
+        const painted = paintedLiveRef.current;
+        const isLiveAppend = painted.length > 0
+          && layer.strokes.length === count + painted.length
+          && painted.every((s, i) => s === layer.strokes[count + i])
+          && rendered.strokes.every((s, i) => s === layer.strokes[i]);
+        if (isLiveAppend) {
+          renderedRef.current.set(layer.id, content);
+          return;
+        }
+      }
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, pixelWidth, pixelHeight);
+      ctx.setTransform(pixelScale, 0, 0, pixelScale, 0, 0);
+      renderLayer(ctx, layer, doc, images);
+      renderedRef.current.set(layer.id, content);
+    });
+    // Only the render right after the commit may skip; a later redo must repaint
+    paintedLiveRef.current = [];
+  });
+
+  const registerCanvas = (layerId: string) => (el: HTMLCanvasElement | null) => {
+    if (el) {
+      layerCanvasesRef.current.set(layerId, el);
+    } else {
+      layerCanvasesRef.current.delete(layerId);
+      renderedRef.current.delete(layerId);
+    }
+  };
+
+  const getLayerContext = (layerId: string) =>
+    layerCanvasesRef.current.get(layerId)?.getContext('2d') ?? null;
 
   // Drawing Logic
-  const getCoordinates = (event: React.PointerEvent): DrawPoint => {
-    if (!canvasRef.current) return { x: 0, y: 0, pressure: 0.5 };
-    const rect = canvasRef.current.getBoundingClientRect();
+  // Screen position -> document coordinates, through the view transform
+  const getCoordinates = (event: Pick<PointerEvent, 'clientX' | 'clientY' | 'pressure'>): DrawPoint => {
+    if (!containerRef.current || !paperSize) return { x: 0, y: 0, pressure: 0.5 };
+    const paper = screenToPaper(view, { x: event.clientX, y: event.clientY }, centerOf(containerRef.current));
     return {
-      x: event.clientX - rect.left,
-      y: event.clientY - rect.top,
+      x: (paper.x + paperSize.width / 2) / viewScale,
+      y: (paper.y + paperSize.height / 2) / viewScale,
       pressure: event.pressure || 0.5
     };
   };
 
+  // Colour of the flattened page (over white paper) under the pointer
+  const sampleColor = (point: DrawPoint): string | null => {
+    if (!doc) return null;
+    const probe = document.createElement('canvas');
+    probe.width = 1;
+    probe.height = 1;
+    const probeCtx = probe.getContext('2d', { willReadFrequently: true });
+    if (!probeCtx) return null;
+
+    probeCtx.fillStyle = '#FFFFFF';
+    probeCtx.fillRect(0, 0, 1, 1);
+    doc.layers.forEach(layer => {
+      const canvas = layerCanvasesRef.current.get(layer.id);
+      if (!layer.visible || !canvas) return;
+      const pixelScale = canvas.width / doc.width;
+      probeCtx.globalAlpha = layer.opacity / 100;
+      probeCtx.globalCompositeOperation = compositeOperation(layer.blendMode);
+      probeCtx.drawImage(canvas, Math.floor(point.x * pixelScale), Math.floor(point.y * pixelScale), 1, 1, 0, 0, 1, 1);
+    });
+
+    const [r, g, b] = probeCtx.getImageData(0, 0, 1, 1).data;
+    return rgbToHex(r, g, b);
+  };
+
   const startDrawing = (e: React.PointerEvent) => {
+    if (eyedropperActive) {
+      const sampled = sampleColor(getCoordinates(e));
+      if (sampled) setColor(sampled);
+      setEyedropperActive(false);
+      return;
+    }
+
+    if (!canDraw || !activeLayer) return;
+    if (fillActive) {
+      handleFill(getCoordinates(e));
+      return;
+    }
+    if (shape) {
+      startShape(e, shape);
+      return;
+    }
+    const context = getLayerContext(activeLayer.id);
+    if (!context) return;
+
     setIsDrawing(true);
     e.currentTarget.setPointerCapture(e.pointerId);
-    const { x, y } = getCoordinates(e);
-    lastPointRef.current = { x, y };
 
-    if (!context) return;
-    
-    // Draw initial dot
-    context.beginPath();
-    context.fillStyle = tool === 'eraser' ? 'rgba(0,0,0,1)' : `rgba(0, 0, 0, ${opacity / 100})`;
-    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
-    
-    // For dot, we just draw a small circle
-    const currentSize = tool === 'eraser' ? brushSize * 2 : brushSize;
-    context.arc(x, y, currentSize / 2, 0, Math.PI * 2);
-    context.fill();
+    const stroke = newStroke('catmull-rom');
+    const start = getCoordinates(e);
+    const edge = guide ? guideEdge(guide) : null;
+    const follows = edge && nearestOnPath(edge, start).distance <= GUIDE_SNAP / screenScale ? edge : null;
+    const stabilizer = createStabilizer(stabilizerSettings.mode, stabilizerSettings.strength, screenScale);
+    stroke.points.push(...onEdge(stabilizer.push({ ...start, t: 0 }), follows));
+    const mirrors = symmetryMatrices(symmetry.mode, symmetryCenter, symmetry.segments);
+    const copies = mirrorStrokes(stroke, mirrors);
+    mirrorPoints(stroke.points, copies, mirrors);
+
+    const live = beginLiveStroke(context, [stroke, ...copies]);
+    if (live) currentStrokeRef.current = { layerId: activeLayer.id, live, mirrors, stabilizer, startTime: e.timeStamp, edge: follows };
+  };
+
+  // Brush size is chosen in screen pixels, so zooming in draws finer detail;
+  // strokes store it in document units
+  const newStroke = (interpolation: Stroke['interpolation']): Stroke => ({
+    id: createId('stroke'),
+    tool,
+    color,
+    size: brushSize / screenScale,
+    opacity,
+    brush,
+    seed: Math.floor(Math.random() * 0x7fffffff),
+    interpolation,
+    points: [],
+    startedAt: Date.now(),
+  });
+
+  // A stroke and its mirror images undo together
+  const commitStrokes = (layerId: string, strokes: Stroke[]) => {
+    const [stroke, ...copies] = strokes;
+    runCommand(copies.length > 0
+      ? { type: 'add-strokes', layerId, strokes }
+      : { type: 'add-stroke', layerId, stroke });
+    if (stroke.tool === 'brush') setRecentColors(pushRecentColor(stroke.color));
   };
 
   const draw = (e: React.PointerEvent) => {
-    if (!isDrawing || !context || !lastPointRef.current) return;
+    const current = currentStrokeRef.current;
+    if (!isDrawing || !current) return;
     e.preventDefault(); 
     
-    const { x, y, pressure } = getCoordinates(e);
-    const lastX = lastPointRef.current.x;
-    const lastY = lastPointRef.current.y;
-
-    context.lineWidth = tool === 'eraser' ? brushSize * 2 : brushSize * (1 + pressure);
-    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
-    context.strokeStyle = tool === 'eraser' ? 'rgba(0,0,0,1)' : `rgba(0, 0, 0, ${opacity / 100})`;
-    context.lineCap = 'round';
-    context.lineJoin = 'round';
-    
-    context.beginPath();
-    context.moveTo(lastX, lastY);
-    context.lineTo(x, y);
-    context.stroke();
-
-    lastPointRef.current = { x, y };
+    // Coalesced events carry the samples the browser merged into this frame
+    const samples = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const events = samples.length > 0 ? samples : [e.nativeEvent];
+    const [stroke, ...copies] = current.live.strokes;
+    events.forEach(event => {
+      stroke.points.push(...onEdge(current.stabilizer.push({ ...getCoordinates(event), t: event.timeStamp - current.startTime }), current.edge));
+    });
+    mirrorPoints(stroke.points, copies, current.mirrors);
+    updateLiveStroke(current.live);
   };
 
   const stopDrawing = (e: React.PointerEvent) => {
-    if (isDrawing && context && canvasRef.current) {
-      setIsDrawing(false);
-      lastPointRef.current = null;
+    const current = currentStrokeRef.current;
+    if (!isDrawing || !current) return;
+
+    setIsDrawing(false);
+    currentStrokeRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+
+    const { strokes } = current.live;
+    const [stroke, ...copies] = strokes;
+    stroke.points.push(...onEdge(current.stabilizer.finish(), current.edge));
+    mirrorPoints(stroke.points, copies, current.mirrors);
+    updateLiveStroke(current.live, true);
+    paintedLiveRef.current = strokes;
+    commitStrokes(current.layerId, strokes);
+  };
+
+  // Shapes: lines, ellipses and rectangles are dragged out in one go. Polylines take a
+  // vertex per press, finishing with a tap on the last vertex or closing on the first.
+  // The draft is previewed over the page and committed as an ordinary stroke.
+  const startShape = (e: React.PointerEvent, kind: ShapeKind) => {
+    if (!activeLayer) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    shapePointerRef.current = e.pointerId;
+    const point = getCoordinates(e);
+
+    const draft = shapeDraft?.kind === 'polyline' && shapeDraft.layerId === activeLayer.id ? shapeDraft : null;
+    if (!draft) {
+      setShapeDraft({ kind, layerId: activeLayer.id, vertices: [{ ...point, t: 0 }, { ...point, t: 0 }], startTime: e.timeStamp, startedAt: Date.now() });
+      return;
+    }
+
+    const { vertices } = draft;
+    const vertex = { ...point, t: e.timeStamp - draft.startTime };
+    const near = (p: Point) => Math.hypot(p.x - point.x, p.y - point.y) <= HANDLE_HIT / screenScale;
+    if (vertices.length >= 3 && near(vertices[0])) {
+      finishShape({ ...draft, vertices: [...vertices, { ...vertices[0], t: vertex.t }] });
+    } else if (vertices.length >= 2 && near(vertices[vertices.length - 1])) {
+      finishShape(draft);
+    } else {
+      setShapeDraft({ ...draft, vertices: [...vertices, vertex] });
+    }
+  };
+
+  const moveShape = (e: React.PointerEvent) => {
+    if (shapePointerRef.current !== e.pointerId) return;
+    const point = getCoordinates(e);
+    setShapeDraft(draft => draft && {
+      ...draft,
+      vertices: [...draft.vertices.slice(0, -1), { ...point, t: e.timeStamp - draft.startTime }],
+    });
+  };
+
+  const stopShape = (e: React.PointerEvent) => {
+    if (shapePointerRef.current !== e.pointerId) return;
+    shapePointerRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (!shapeDraft) return;
+
+    if (shapeDraft.kind !== 'polyline') {
+      finishShape(shapeDraft);
+      return;
+    }
+    // A tap without a drag places one vertex, not two on top of each other
+    const [a, b] = shapeDraft.vertices.slice(-2);
+    if (b && Math.hypot(b.x - a.x, b.y - a.y) < 1 / screenScale) {
+      setShapeDraft({ ...shapeDraft, vertices: shapeDraft.vertices.slice(0, -1) });
+    }
+  };
+
+  const finishShape = (draft: ShapeDraft) => {
+    setShapeDraft(null);
+    const { kind, layerId, vertices } = draft;
+    const first = vertices[0];
+    const last = vertices[vertices.length - 1];
+    // Ellipses and rectangles need some width and height, polylines a second vertex
+    const flat = Math.abs(last.x - first.x) < 1 || Math.abs(last.y - first.y) < 1;
+    if (((kind === 'ellipse' || kind === 'rect') && flat) || vertices.length < 2) return;
+
+    const stroke = { ...newStroke('linear'), points: shapePoints(kind, vertices), startedAt: draft.startedAt };
+    const mirrors = symmetryMatrices(symmetry.mode, symmetryCenter, symmetry.segments);
+    const copies = mirrorStrokes(stroke, mirrors);
+    mirrorPoints(stroke.points, copies, mirrors);
+    commitStrokes(layerId, [stroke, ...copies]);
+  };
+
+  // A second finger drops the vertex being placed
+  const cancelShape = () => {
+    shapePointerRef.current = null;
+    setShapeDraft(draft => (draft?.kind === 'polyline' && draft.vertices.length > 2
+      ? { ...draft, vertices: draft.vertices.slice(0, -1) }
+      : null));
+  };
+
+  // Guides: drag the middle handle to move a guide, the end one to turn and size it
+  const guideHandleAt = (e: React.PointerEvent): 'move' | 'turn' | null => {
+    if (!guide) return null;
+    const point = getCoordinates(e);
+    const { center, turn } = guideHandles(guide);
+    const near = (p: Point) => Math.hypot(p.x - point.x, p.y - point.y) <= HANDLE_HIT / screenScale;
+    return near(turn) ? 'turn' : near(center) ? 'move' : null;
+  };
+
+  const startMovingGuide = (e: React.PointerEvent) => {
+    const handle = guideHandleAt(e);
+    if (!guide || !handle) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    guideDragRef.current = { pointerId: e.pointerId, handle, from: getCoordinates(e), start: guide };
+  };
+
+  const moveGuide = (e: React.PointerEvent) => {
+    const drag = guideDragRef.current;
+    if (!drag) return;
+    const point = getCoordinates(e);
+    setGuide(drag.handle === 'move'
+      ? { ...drag.start, x: drag.start.x + point.x - drag.from.x, y: drag.start.y + point.y - drag.from.y }
+      : turnGuide(drag.start, point));
+  };
+
+  // Fill: floods the region under the tap on the page as it looks, reference photos
+  // aside, and paints it on the active layer beneath its strokes
+  const handleFill = async (point: Point) => {
+    if (!doc || !activeLayer || filling) return;
+    const layerId = activeLayer.id;
+    setFilling(true);
+    try {
+      const page = await renderDocument({ ...doc, layers: doc.layers.filter(l => !l.reference) }, FILL_RESOLUTION, { background: '#FFFFFF' });
+      const region = findRegion(page, point, fillSettings);
+      if (!region) return;
+      const swatch = [...BUILTIN_SWATCHES, ...swatches].find(s => s.id === fillSettings.swatchId);
+      const fill: RegionFill = {
+        id: createId('fill'),
+        ...region,
+        color,
+        swatch,
+        scale: fillSettings.scale,
+        rotation: fillSettings.rotation,
+        opacity,
+        createdAt: Date.now(),
+      };
+      runCommand({ type: 'add-fill', layerId, fill });
+      if (!swatch) setRecentColors(pushRecentColor(color));
+    } catch (e) {
+      console.error("Failed to fill region", e);
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  // A second finger turns a stroke into a view gesture, so drop what it started
+  const cancelDrawing = () => {
+    const current = currentStrokeRef.current;
+    if (current) cancelLiveStroke(current.live);
+    currentStrokeRef.current = null;
+    setIsDrawing(false);
+  };
+
+  // Selection: outline strokes on the active layer, then drag inside the frame to move
+  // them, a corner to scale or the top handle to rotate. Transforms are shown live and
+  // recorded in history as one step when the pointer lifts.
+  const selectionHandles = (frame: Point[]) => {
+    const center = polygonCenter(frame);
+    const top = { x: (frame[0].x + frame[1].x) / 2, y: (frame[0].y + frame[1].y) / 2 };
+    const length = Math.hypot(top.x - center.x, top.y - center.y) || 1;
+    const offset = ROTATE_HANDLE_OFFSET / screenScale;
+    return {
+      center,
+      top,
+      rotate: { x: top.x + ((top.x - center.x) / length) * offset, y: top.y + ((top.y - center.y) / length) * offset },
+    };
+  };
+
+  const startSelecting = (e: React.PointerEvent) => {
+    if (!doc || !activeLayer || !canSelect) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getCoordinates(e);
+
+    if (selection) {
+      const { rotate } = selectionHandles(selection.frame);
+      const near = (p: Point) => Math.hypot(p.x - point.x, p.y - point.y) <= HANDLE_HIT / screenScale;
+      const kind = near(rotate) ? 'rotate'
+        : selection.frame.some(near) ? 'scale'
+        : pointInPolygon(point, selection.frame) ? 'move'
+        : null;
+      if (kind) {
+        selectGestureRef.current = { kind, pointerId: e.pointerId, from: point, baseDoc: doc, frame: selection.frame, matrix: IDENTITY_MATRIX };
+        return;
+      }
+    }
+
+    setSelection(null);
+    selectGestureRef.current = { kind: 'outline', pointerId: e.pointerId, points: [point] };
+    setMarquee([point]);
+  };
+
+  const moveSelecting = (e: React.PointerEvent) => {
+    const gesture = selectGestureRef.current;
+    if (!gesture || gesture.pointerId !== e.pointerId) return;
+    const point = getCoordinates(e);
+
+    if (gesture.kind === 'outline') {
+      if (selectMode === 'lasso') {
+        gesture.points.push(point);
+        setMarquee([...gesture.points]);
+      } else {
+        setMarquee(rectPolygon(gesture.points[0], point));
+      }
+      return;
+    }
+
+    const center = polygonCenter(gesture.frame);
+    const { from } = gesture;
+    let matrix: Matrix;
+    if (gesture.kind === 'move') {
+      matrix = translation(point.x - from.x, point.y - from.y);
+    } else if (gesture.kind === 'scale') {
+      const factor = Math.max(0.05, Math.hypot(point.x - center.x, point.y - center.y) / Math.max(1e-3, Math.hypot(from.x - center.x, from.y - center.y)));
+      matrix = scalingAbout(factor, factor, center);
+    } else {
+      const angle = Math.atan2(point.y - center.y, point.x - center.x) - Math.atan2(from.y - center.y, from.x - center.x);
+      matrix = rotationAbout(angle, center);
+    }
+    gesture.matrix = matrix;
+
+    const { baseDoc, frame } = gesture;
+    setEditor(ed => ed && selection && { ...ed, doc: transformStrokes(baseDoc, selection.layerId, selection.strokeIds, matrix, selection.fillIds) });
+    setSelection(sel => sel && { ...sel, frame: frame.map(p => applyMatrix(matrix, p)) });
+  };
+
+  const stopSelecting = (e: React.PointerEvent) => {
+    const gesture = selectGestureRef.current;
+    if (!gesture || gesture.pointerId !== e.pointerId) return;
+    selectGestureRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+
+    if (gesture.kind === 'outline') {
+      const outline = selectMode === 'lasso' ? gesture.points : marquee ?? [];
+      setMarquee(null);
+      if (!activeLayer) return;
+      const fills = activeLayer.fills ?? [];
+      const strokeIds = selectStrokes(activeLayer.strokes, outline);
+      const fillIds = selectFills(fills, outline);
+      if (strokeIds.length > 0 || fillIds.length > 0) {
+        setSelection({
+          layerId: activeLayer.id,
+          strokeIds,
+          fillIds,
+          frame: strokesFrame(activeLayer.strokes.filter(s => strokeIds.includes(s.id)), fills.filter(f => fillIds.includes(f.id))),
+        });
+      }
+      return;
+    }
+
+    if (gesture.matrix === IDENTITY_MATRIX || !selection) return;
+    const command: HistoryCommand = {
+      type: 'transform-strokes', layerId: selection.layerId, strokeIds: selection.strokeIds, fillIds: selection.fillIds, matrix: gesture.matrix,
+    };
+    setEditor(ed => ed && execute({ ...ed, doc: gesture.baseDoc }, command, historyBudget));
+  };
+
+  // A second finger starts a view gesture: put back whatever the selection gesture changed
+  const cancelSelecting = () => {
+    const gesture = selectGestureRef.current;
+    selectGestureRef.current = null;
+    setMarquee(null);
+    if (gesture && gesture.kind !== 'outline') {
+      setEditor(ed => ed && { ...ed, doc: gesture.baseDoc });
+      setSelection(sel => sel && { ...sel, frame: gesture.frame });
+    }
+  };
+
+  const transformSelection = (matrix: Matrix) => {
+    if (!selection) return;
+    runCommand({ type: 'transform-strokes', layerId: selection.layerId, strokeIds: selection.strokeIds, fillIds: selection.fillIds, matrix });
+    setSelection({ ...selection, frame: selection.frame.map(p => applyMatrix(matrix, p)) });
+  };
+
+  const handleFlip = (horizontal: boolean) => {
+    if (!selection) return;
+    transformSelection(scalingAbout(horizontal ? -1 : 1, horizontal ? 1 : -1, polygonCenter(selection.frame)));
+  };
+
+  const handleCopy = () => {
+    const layer = selection && doc?.layers.find(l => l.id === selection.layerId);
+    if (!selection || !layer) return;
+    clipboard = {
+      strokes: layer.strokes.filter(s => selection.strokeIds.includes(s.id)),
+      fills: (layer.fills ?? []).filter(f => selection.fillIds.includes(f.id)),
+    };
+    setCanPaste(!isClipboardEmpty());
+  };
+
+  // Pastes onto the active layer, selected, slightly offset so the copy is visible
+  const handlePaste = () => {
+    if (!activeLayer || !canDraw || isClipboardEmpty()) return;
+    // Pasted strokes and fills appear in the timelapse when pasted, not when first made
+    const pastedAt = Date.now();
+    const offset = translation(PASTE_OFFSET, PASTE_OFFSET);
+    const strokes = cloneStrokes(clipboard.strokes, offset).map(s => ({ ...s, startedAt: pastedAt }));
+    const fills = cloneFills(clipboard.fills, offset).map(f => ({ ...f, createdAt: pastedAt }));
+    runCommand({ type: 'add-strokes', layerId: activeLayer.id, strokes, fills });
+    setSelection({
+      layerId: activeLayer.id,
+      strokeIds: strokes.map(s => s.id),
+      fillIds: fills.map(f => f.id),
+      frame: strokesFrame(strokes, fills),
+    });
+    setSelectMode(mode => mode ?? 'rect');
+  };
+
+  const handleDeleteSelection = () => {
+    const layer = selection && doc?.layers.find(l => l.id === selection.layerId);
+    if (!selection || !layer) return;
+    const strokes = layer.strokes
+      .map((stroke, index) => ({ index, stroke }))
+      .filter(({ stroke }) => selection.strokeIds.includes(stroke.id));
+    const fills = (layer.fills ?? [])
+      .map((fill, index) => ({ index, fill }))
+      .filter(({ fill }) => selection.fillIds.includes(fill.id));
+    runCommand({ type: 'remove-strokes', layerId: layer.id, strokes, fills });
+    setSelection(null);
+  };
+
+  // Reference Photos: one pointer drags the photo, two pinch, turn and move it
+  const startAdjusting = (e: React.PointerEvent) => {
+    const reference = activeLayer?.reference;
+    if (!activeLayer || !reference) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const gesture = adjustRef.current ?? {
+      layerId: activeLayer.id,
+      original: reference,
+      start: reference,
+      current: reference,
+      from: new Map<number, Point>(),
+      points: new Map<number, Point>(),
+    };
+    gesture.points.set(e.pointerId, getCoordinates(e));
+    // A pointer joining restarts the gesture from where the photo is now
+    gesture.start = gesture.current;
+    gesture.from = new Map(gesture.points);
+    adjustRef.current = gesture;
+  };
+
+  const moveAdjusting = (e: React.PointerEvent) => {
+    const current = adjustRef.current;
+    if (!current?.points.has(e.pointerId)) return;
+    current.points.set(e.pointerId, getCoordinates(e));
+
+    const [a, b] = [...current.from.keys()];
+    const next = b !== undefined
+      ? pinchReference(current.start, [current.from.get(a)!, current.from.get(b)!], [current.points.get(a)!, current.points.get(b)!])
+      : dragReference(current.start, current.from.get(a)!, current.points.get(a)!);
+    current.current = next;
+    // Live placement stays out of history until the gesture ends
+    setEditor(ed => ed && { ...ed, doc: updateLayer(ed.doc, current.layerId, { reference: next }) });
+  };
+
+  const stopAdjusting = (e: React.PointerEvent) => {
+    const current = adjustRef.current;
+    if (!current?.points.has(e.pointerId)) return;
+    current.points.delete(e.pointerId);
+
+    if (current.points.size > 0) {
+      current.start = current.current;
+      current.from = new Map(current.points);
+      return;
+    }
+    adjustRef.current = null;
+    if (current.current !== current.original) {
+      runCommand({ type: 'update-layer', layerId: current.layerId, before: { reference: current.original }, after: { reference: current.current } });
+    }
+  };
+
+  // Pointer Routing: one pointer draws, two touch points pinch, pan and rotate the view
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (adjustingReference) {
+      startAdjusting(e);
+      return;
+    }
+    if (e.pointerType === 'touch') {
+      const touches = touchPointsRef.current;
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      e.currentTarget.setPointerCapture(e.pointerId);
+
+      if (touches.size === 2 && !gestureRef.current) {
+        cancelDrawing();
+        cancelSelecting();
+        cancelShape();
+        axisDragRef.current = null;
+        guideDragRef.current = null;
+        const ids = [...touches.keys()] as [number, number];
+        gestureRef.current = {
+          ids,
+          from: [touches.get(ids[0])!, touches.get(ids[1])!],
+          startView: view,
+          moved: false,
+          startTime: e.timeStamp,
+        };
+      }
+      if (gestureRef.current) return;
+    }
+    if (selectMode && !eyedropperActive) {
+      startSelecting(e);
+    } else if (guide && !eyedropperActive && guideHandleAt(e)) {
+      startMovingGuide(e);
+    } else if (symmetryOn && !eyedropperActive && isOnSymmetryHandle(e)) {
+      axisDragRef.current = e.pointerId;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    } else {
+      startDrawing(e);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (adjustRef.current) {
+      moveAdjusting(e);
+      return;
+    }
+    const touches = touchPointsRef.current;
+    if (touches.has(e.pointerId)) touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const gesture = gestureRef.current;
+    if (gesture) {
+      const to = gesture.ids.map(id => touches.get(id)) as [Point | undefined, Point | undefined];
+      if (to[0] && to[1] && containerRef.current) {
+        const current: [Point, Point] = [to[0], to[1]];
+        setView(pinchView(gesture.startView, gesture.from, current, centerOf(containerRef.current)));
+        if (current.some((p, i) => Math.hypot(p.x - gesture.from[i].x, p.y - gesture.from[i].y) > TAP_SLOP)) {
+          gesture.moved = true;
+        }
+      }
+      return;
+    }
+    if (selectGestureRef.current) {
+      moveSelecting(e);
+    } else if (guideDragRef.current?.pointerId === e.pointerId) {
+      moveGuide(e);
+    } else if (axisDragRef.current === e.pointerId) {
+      moveSymmetryAxis(e);
+    } else if (shapePointerRef.current === e.pointerId) {
+      moveShape(e);
+    } else {
+      draw(e);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (adjustRef.current) {
+      stopAdjusting(e);
+      return;
+    }
+    touchPointsRef.current.delete(e.pointerId);
+
+    const gesture = gestureRef.current;
+    if (gesture) {
+      // The gesture lasts until every finger has lifted, so a leftover finger doesn't draw
+      if (touchPointsRef.current.size > 0) return;
+      gestureRef.current = null;
+
+      // Two quick two-finger taps fit the paper back to the screen
+      if (!gesture.moved && e.timeStamp - gesture.startTime < TAP_DURATION) {
+        if (e.timeStamp - lastTwoFingerTapRef.current < DOUBLE_TAP_INTERVAL) {
+          setView(IDENTITY_VIEW);
+          lastTwoFingerTapRef.current = 0;
+        } else {
+          lastTwoFingerTapRef.current = e.timeStamp;
+        }
+      }
+      return;
+    }
+    if (selectGestureRef.current) {
+      stopSelecting(e);
+    } else if (guideDragRef.current?.pointerId === e.pointerId) {
+      guideDragRef.current = null;
       e.currentTarget.releasePointerCapture(e.pointerId);
-      saveHistory(context, canvasRef.current);
+    } else if (axisDragRef.current === e.pointerId) {
+      axisDragRef.current = null;
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    } else if (shapePointerRef.current === e.pointerId) {
+      stopShape(e);
+    } else {
+      stopDrawing(e);
     }
   };
 
-  const handleUndo = () => {
-    if (historyStep > 0 && context) {
-      const prevData = history[historyStep - 1];
-      context.putImageData(prevData, 0, 0);
-      setHistoryStep(historyStep - 1);
+  const updateStabilizer = (patch: Partial<StabilizerSettings>) => {
+    const next = { ...stabilizerSettings, ...patch };
+    setStabilizerSettings(next);
+    saveStabilizerSettings(next);
+  };
+
+  const updateSymmetry = (patch: Partial<SymmetrySettings>) => {
+    const next = { ...symmetry, ...patch };
+    setSymmetry(next);
+    saveSymmetrySettings(next);
+  };
+
+  // Symmetry: the handle where the axes cross can be dragged anywhere on the page
+  const isOnSymmetryHandle = (e: React.PointerEvent) => {
+    const point = getCoordinates(e);
+    return Math.hypot(point.x - symmetryCenter.x, point.y - symmetryCenter.y) <= HANDLE_HIT / screenScale;
+  };
+
+  const moveSymmetryAxis = (e: React.PointerEvent) => {
+    if (!doc) return;
+    const point = getCoordinates(e);
+    setSymmetryAxis({
+      x: Math.max(0, Math.min(doc.width, point.x)),
+      y: Math.max(0, Math.min(doc.height, point.y)),
+    });
+  };
+
+  // Tapping the active brush opens the presets; otherwise it switches back to the brush
+  const handleBrushButton = () => {
+    if (tool === 'brush' && !selectMode && !fillActive && !shape) {
+      setBrushesOpen(!brushesOpen);
+      setColorOpen(false);
+    } else {
+      setTool('brush');
+      setSelectMode(null);
+      setFillActive(false);
+      setFillOpen(false);
+      setShape(null);
+    }
+  };
+
+  const handleEraserButton = () => {
+    setTool('eraser');
+    setSelectMode(null);
+    setFillActive(false);
+    setFillOpen(false);
+    setShape(null);
+    setBrushesOpen(false);
+  };
+
+  // Tapping the active selection tool switches between rectangle and lasso
+  const handleSelectButton = () => {
+    setSelectMode(mode => (mode === 'rect' ? 'lasso' : 'rect'));
+    setFillActive(false);
+    setFillOpen(false);
+    setShape(null);
+    setBrushesOpen(false);
+  };
+
+  // Tapping the active fill tool opens its options and swatches
+  const handleFillButton = () => {
+    if (fillActive) {
+      setFillOpen(!fillOpen);
+    } else {
+      setFillActive(true);
+      setSelectMode(null);
+      setShape(null);
     }
+    setBrushesOpen(false);
+    setColorOpen(false);
+    setGuidesOpen(false);
+  };
+
+  // Shapes draw with the brush or eraser, so picking one leaves the tool as it is
+  const handleShape = (kind: ShapeKind | null) => {
+    setShape(kind);
+    setSelectMode(null);
+    setFillActive(false);
+    setFillOpen(false);
+    setGuidesOpen(false);
+  };
+
+  const handleGuide = (kind: GuideKind | null) => {
+    setGuide(kind && doc ? createGuide(kind, doc) : null);
+  };
+
+  const updateOverlays = (patch: Partial<OverlaySettings>) => {
+    const next = { ...overlays, ...patch };
+    setOverlays(next);
+    saveOverlaySettings(next);
+  };
+
+  const updateFillSettings = (patch: Partial<FillSettings>) => {
+    const next = { ...fillSettings, ...patch };
+    setFillSettings(next);
+    saveFillSettings(next);
+  };
+
+  // A selection only lasts while selecting on its layer
+  const activeLayerId = doc?.activeLayerId;
+  useEffect(() => {
+    setSelection(null);
+  }, [selectMode === null, activeLayerId]);
+
+  // Likewise an unfinished shape, while drawing that shape on its layer
+  useEffect(() => {
+    setShapeDraft(null);
+  }, [shape, activeLayerId]);
+
+  // History Management
+  const runCommand = (command: HistoryCommand) => {
+    setEditor(e => e && execute(e, command, historyBudget));
+  };
+
+  // Undo and redo can move or remove selected strokes, so they drop the selection
+  const handleUndo = () => {
+    setSelection(null);
+    setEditor(e => e && undo(e));
   };
 
   const handleRedo = () => {
-    if (historyStep < history.length - 1 && context) {
-      const nextData = history[historyStep + 1];
-      context.putImageData(nextData, 0, 0);
-      setHistoryStep(historyStep + 1);
+    setSelection(null);
+    setEditor(e => e && redo(e));
+  };
+
+  // Layer Management
+  const handleAddLayer = () => {
+    if (!doc) return;
+    runCommand({
+      type: 'add-layer',
+      layer: createLayer(`Layer ${doc.layers.length + 1}`),
+      index: indexAboveActive(doc),
+    });
+  };
+
+  const handleDeleteLayer = (layerId: string) => {
+    const index = doc ? doc.layers.findIndex(l => l.id === layerId) : -1;
+    if (!doc || index === -1 || doc.layers.length <= 1) return;
+    runCommand({ type: 'remove-layer', layer: doc.layers[index], index });
+  };
+
+  const handleMoveLayer = (layerId: string, direction: 1 | -1) => {
+    runCommand({ type: 'move-layer', layerId, direction });
+  };
+
+  const handleUpdateLayer = (layerId: string, patch: Partial<Layer>) => {
+    const layer = doc?.layers.find(l => l.id === layerId);
+    if (!layer) return;
+    const before = Object.fromEntries(
+      Object.keys(patch).map(key => [key, layer[key as keyof Layer]])
+    ) as Partial<Layer>;
+    runCommand({ type: 'update-layer', layerId, before, after: patch });
+  };
+
+  // Selecting a layer is navigation, not an edit, so it stays out of history
+  const handleSelectLayer = (layerId: string) => {
+    setEditor(e => e && { ...e, doc: { ...e.doc, activeLayerId: layerId } });
+  };
+
+  // Imported and captured photos become reference layers: placed beneath the active
+  // layer to trace over, never mixed into the strokes
+  const addReferenceLayer = async (src: string, type: string, name: string) => {
+    if (!doc) return;
+    try {
+      const photo = await loadReferencePhoto(src, type);
+      const layer = createLayer(name, {
+        bitmap: photo.src,
+        reference: placeReference(photo, doc),
+        locked: true,
+        opacity: REFERENCE_OPACITY,
+        excludeFromExport: true,
+      });
+      setEditor(e => e && execute(e, {
+        type: 'add-layer',
+        layer,
+        index: Math.max(0, e.doc.layers.findIndex(l => l.id === e.doc.activeLayerId)),
+      }, historyBudget));
+    } catch (e) {
+      console.error("Failed to add reference photo", e);
     }
   };
 
   const handleImageImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && context && containerRef.current) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          const containerW = containerRef.current!.clientWidth;
-          const containerH = containerRef.current!.clientHeight;
-          const scale = Math.min(containerW / img.width, containerH / img.height) * 0.8;
-          const w = img.width * scale;
-          const h = img.height * scale;
-          const x = (containerW - w) / 2;
-          const y = (containerH - h) / 2;
-          
-          context.globalCompositeOperation = 'source-over';
-          context.globalAlpha = 1;
-          context.drawImage(img, x, y, w, h);
-          saveHistory(context, canvasRef.current!);
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const handleSave = () => {
-    if (canvasRef.current) {
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = canvasRef.current.width;
-      tempCanvas.height = canvasRef.current.height;
-      const tCtx = tempCanvas.getContext('2d');
-      if (tCtx) {
-        tCtx.fillStyle = '#FFFFFF';
-        tCtx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
-        tCtx.drawImage(canvasRef.current, 0, 0);
-        const dataUrl = tempCanvas.toDataURL('image/jpeg', 0.8);
-        onSave(sketch.id, dataUrl);
-      }
+    // Let the same file be picked again
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      addReferenceLayer(reader.result as string, file.type, file.name.replace(/\.[^.]+$/, '') || 'Photo');
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleCameraCapture = (dataUrl: string) => {
+    setCameraOpen(false);
+    addReferenceLayer(dataUrl, 'image/jpeg', 'Camera Photo');
+  };
+
+  // Thumbnail at the on-screen resolution, flattened over white paper
+  const renderThumbnail = async (saved: SketchDocument) =>
+    (await renderDocument(saved, viewScale * (window.devicePixelRatio || 1), { background: '#FFFFFF' })).toDataURL('image/jpeg', 0.8);
+
+  const keepSnapshot = (saved: SketchDocument, name: string, auto: boolean, thumbnail: string) =>
+    saveSnapshot({ id: createId('snapshot'), sketchId: sketch.id, name, createdAt: new Date().toISOString(), auto, thumbnail, document: saved });
+
+  // Resolves false when the document could not be written
+  const handleSave = async (): Promise<boolean> => {
+    if (!editor) return false;
+    const saved = editor.doc;
+    // Nothing changed: saving again would mark a synced sketch as edited
+    if (saved === savedDoc) return true;
+
+    try {
+      await saveDocument(saved, editor.history);
+    } catch (e) {
+      console.error("Failed to save document", e);
+      setSaveFailed(true);
+      return false;
+    }
+    setSaveFailed(false);
+    setSavedDoc(saved);
+    deleteDraft(sketch.id).catch(e => console.error("Failed to discard draft", e));
+
+    try {
+      const thumbnail = await renderThumbnail(saved);
+      onSave(sketch.id, thumbnail);
+      // Each save that changed something is kept as a version
+      await keepSnapshot(saved, 'Saved', true, thumbnail);
+    } catch (e) {
+      console.error("Failed to render thumbnail", e);
+    }
+    return true;
+  };
+
+  const handleTakeSnapshot = async (name: string) => {
+    if (!doc) return;
+    try {
+      await keepSnapshot(doc, name, false, await renderThumbnail(doc));
+      setSnapshotOpen(false);
+    } catch (e) {
+      console.error("Failed to take snapshot", e);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!doc) return;
+    setExporting(format);
+    try {
+      await shareOrDownload(await exportSketch(format, doc, sketch));
+      setExportOpen(false);
+    } catch (e) {
+      console.error("Failed to export sketch", e);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // The archive is built from storage, so save what is on screen first
+  const handleExportArchive = async () => {
+    setExporting('archive');
+    try {
+      if (!(await handleSave())) return;
+      await onExportArchive();
+      setExportOpen(false);
+    } finally {
+      setExporting(null);
     }
   };
 
-  const handleSync = () => {
-    handleSave();
-    setSyncing(true);
-    setTimeout(() => {
-      onSync(sketch.id);
-      setSyncing(false);
-    }, 2000);
+  // Templates keep every visible layer, underlays included, flattened at export resolution
+  const handleSaveTemplate = async () => {
+    if (!doc) return;
+    setExporting('template');
+    try {
+      const flattened = await renderDocument(doc, TEMPLATE_SCALE);
+      onSaveTemplate(sketch.title, flattened.toDataURL('image/png'));
+      setExportOpen(false);
+    } catch (e) {
+      console.error("Failed to render template", e);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleBack = () => {
+    if (unsaved) setLeaving(true);
+    else onBack();
+  };
+
+  const handleSaveAndLeave = async () => {
+    if (await handleSave()) onBack();
+    else setLeaving(false);
+  };
+
+  // The saved document stays as it was
+  const handleDiscard = () => {
+    deleteDraft(sketch.id).catch(e => console.error("Failed to discard draft", e));
+    onBack();
+  };
+
+  // Save first so the outbox uploads what is on screen
+  const handleSync = async () => {
+    if (!(await handleSave())) return;
+    onSync(sketch.id);
   };
 
   return (
@@ -331,116 +1350,449 @@ const CanvasView: React.FC<CanvasViewProps> = ({ sketch, onBack, onSave, onSync
       
       {/* Top Bar */}
       <div className="absolute top-0 left-0 right-0 h-16 bg-gradient-to-b from-black/80 to-transparent z-50 flex justify-between items-center px-4 pointer-events-none">
-        <button onClick={onBack} className="pointer-events-auto text-white/80 hover:text-gold transition-colors">
+        <button onClick={handleBack} className="pointer-events-auto text-white/80 hover:text-gold transition-colors">
           <ArrowLeft size={24} />
         </button>
-        <span className="font-serif text-white/50 text-sm tracking-wider">{sketch.title}</span>
+        <span className="font-serif text-white/50 text-sm tracking-wider">
+          {sketch.title}
+          {unsaved && <span className="ml-2 font-sans text-[10px] uppercase tracking-widest text-gold/70">Unsaved</span>}
+        </span>
         
-        <button 
-          onClick={() => setLayersOpen(!layersOpen)}
-          className={`pointer-events-auto p-2 rounded-lg transition-colors ${layersOpen ? 'bg-burgundy text-gold' : 'text-white/80 hover:text-gold'}`}
-        >
-          <Layers size={24} />
-        </button>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setSnapshotOpen(!snapshotOpen)}
+            disabled={!doc}
+            className={`pointer-events-auto p-2 rounded-lg transition-colors disabled:opacity-30 ${snapshotOpen ? 'bg-burgundy text-gold' : 'text-white/80 hover:text-gold'}`}
+          >
+            <BookmarkPlus size={22} />
+          </button>
+          <button
+            onClick={() => setTimelapseOpen(true)}
+            disabled={!doc}
+            className="pointer-events-auto p-2 rounded-lg transition-colors text-white/80 hover:text-gold disabled:opacity-30"
+          >
+            <Clapperboard size={22} />
+          </button>
+          <button
+            onClick={() => setDetailsOpen(!detailsOpen)}
+            className={`pointer-events-auto p-2 rounded-lg transition-colors ${detailsOpen ? 'bg-burgundy text-gold' : 'text-white/80 hover:text-gold'}`}
+          >
+            <Tags size={22} />
+          </button>
+          <button
+            onClick={() => setExportOpen(!exportOpen)}
+            className={`pointer-events-auto p-2 rounded-lg transition-colors ${exportOpen ? 'bg-burgundy text-gold' : 'text-white/80 hover:text-gold'}`}
+          >
+            <Share2 size={22} />
+          </button>
+          <button 
+            onClick={() => setLayersOpen(!layersOpen)}
+            className={`pointer-events-auto p-2 rounded-lg transition-colors ${layersOpen ? 'bg-burgundy text-gold' : 'text-white/80 hover:text-gold'}`}
+          >
+            <Layers size={24} />
+          </button>
+        </div>
       </div>
 
-      {/* Layer Stack */}
-      {layersOpen && (
-        <div className="absolute top-16 right-4 w-48 bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-3 space-y-2 animate-in fade-in slide-in-from-top-4">
-          <div className="flex items-center justify-between text-xs text-gray-500 uppercase tracking-wider mb-2">
-            <span>Layers</span>
-            <ChevronDown size={14} />
-          </div>
-          
-          <div className="p-3 bg-white/10 border border-gold/30 rounded-lg flex items-center space-x-3 cursor-pointer">
-            <div className="w-8 h-8 bg-white rounded border border-white/20 overflow-hidden flex items-center justify-center">
-                 <div className="w-full h-full bg-white/10"></div> 
-            </div>
-            <div>
-              <p className="text-white text-sm font-medium">Sketch</p>
-              <p className="text-gold text-xs">Normal • 100%</p>
-            </div>
-          </div>
+      {snapshotOpen && <SnapshotForm onSave={handleTakeSnapshot} />}
 
-          <div className="p-3 bg-white/5 border border-transparent rounded-lg flex items-center space-x-3 opacity-60">
-            <div className="w-8 h-8 bg-white rounded border border-white/20"></div>
-            <div>
-              <p className="text-white text-sm font-medium">Paper</p>
-              <p className="text-gray-400 text-xs">Locked</p>
-            </div>
-          </div>
+      {saveFailed && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[80] px-4 py-2 bg-red-900/90 backdrop-blur-md border border-red-400/40 rounded-full shadow-luxury text-white text-xs animate-in fade-in slide-in-from-top-4">
+          Couldn't save this sketch. Your changes are still here; try again.
         </div>
       )}
 
+      {leaving && (
+        <UnsavedChangesDialog onSave={handleSaveAndLeave} onDiscard={handleDiscard} onClose={() => setLeaving(false)} />
+      )}
+
+      {exportOpen && <ExportMenu busy={exporting} onExport={handleExport} onExportArchive={handleExportArchive} onSaveTemplate={handleSaveTemplate} />}
+
+      {/* Tags, garment details and notes */}
+      {detailsOpen && <DetailsPanel sketch={sketch} onChange={onUpdateDetails} />}
+
+      {/* Layer Stack */}
+      {layersOpen && doc && (
+        <LayersPanel
+          layers={doc.layers}
+          activeLayerId={doc.activeLayerId}
+          onSelect={handleSelectLayer}
+          onAdd={handleAddLayer}
+          onDelete={handleDeleteLayer}
+          onMove={handleMoveLayer}
+          onUpdate={handleUpdateLayer}
+        />
+      )}
+
+      {/* Colour Picker */}
+      {colorOpen && (
+        <ColorPicker
+          color={color}
+          recentColors={recentColors}
+          palettes={palettes}
+          onChange={(c) => {
+            setColor(c);
+            setTool('brush');
+          }}
+          onPalettesChange={onPalettesChange}
+          onEyedropper={() => {
+            setEyedropperActive(true);
+            setColorOpen(false);
+          }}
+          onClose={() => setColorOpen(false)}
+        />
+      )}
+
+      {/* Brush Presets */}
+      {brushesOpen && (
+        <BrushPicker
+          brush={brush}
+          color={color}
+          onSelect={(b) => {
+            setBrush(b);
+            setBrushesOpen(false);
+          }}
+        />
+      )}
+
+      {/* Fill Options & Swatches */}
+      {fillOpen && (
+        <FillPanel
+          settings={fillSettings}
+          color={color}
+          swatches={swatches}
+          onChange={updateFillSettings}
+          onSwatchesChange={onSwatchesChange}
+        />
+      )}
+
+      {/* Shapes, Guides & Overlays */}
+      {guidesOpen && (
+        <GuidesPanel
+          shape={shape}
+          guide={guide?.kind ?? null}
+          overlays={overlays}
+          onShape={handleShape}
+          onGuide={handleGuide}
+          onOverlays={updateOverlays}
+        />
+      )}
+
+      {cameraOpen && <CameraCapture onCapture={handleCameraCapture} onClose={() => setCameraOpen(false)} />}
+
+      {timelapseOpen && doc && <TimelapsePlayer doc={doc} sketch={sketch} onClose={() => setTimelapseOpen(false)} />}
+
       {/* Canvas Area */}
       <div ref={containerRef} className="flex-1 relative bg-neutral-800 touch-none w-full h-full">
-        {/* Layer 0: Background */}
-        <div className="absolute inset-4 bg-white shadow-2xl pointer-events-none" />
-        
-        {/* Layer 1: Active Canvas */}
-        <canvas
-          ref={canvasRef}
-          className="absolute inset-4 touch-none cursor-crosshair active:cursor-crosshair"
-          style={{ width: 'calc(100% - 2rem)', height: 'calc(100% - 2rem)' }}
-          onPointerDown={startDrawing}
-          onPointerMove={draw}
-          onPointerUp={stopDrawing}
-          onPointerLeave={stopDrawing}
+        {/* Paper: layers composite over white, isolated so blend modes stay inside the sheet */}
+        <div
+          ref={paperRef}
+          className="absolute left-1/2 top-1/2 bg-white shadow-2xl pointer-events-none"
+          style={{
+            width: paperSize?.width ?? 0,
+            height: paperSize?.height ?? 0,
+            isolation: 'isolate',
+            transform: `translate(-50%, -50%) ${viewToCss(view)}`,
+          }}
+        >
+          {doc?.layers.map(layer => (
+            <canvas
+              key={layer.id}
+              ref={registerCanvas(layer.id)}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              style={{
+                opacity: layer.opacity / 100,
+                mixBlendMode: layer.blendMode,
+                visibility: layer.visible ? 'visible' : 'hidden',
+              }}
+            />
+          ))}
+
+          {/* Grid, centre lines, symmetry axes, guide, shape preview, selection outline and handles, drawn in
+              document units over the layers */}
+          {doc && (marquee || selection || symmetryOn || guide || shapeDraft || overlays.grid || overlays.centerLines) && (
+            <svg viewBox={`0 0 ${doc.width} ${doc.height}`} className="absolute inset-0 w-full h-full overflow-visible pointer-events-none">
+              {overlays.grid && (
+                <g stroke="#000000" strokeOpacity={0.1} strokeWidth={1} vectorEffect="non-scaling-stroke">
+                  {Array.from({ length: Math.ceil(doc.width / GRID_SPACING) - 1 }, (_, i) => (i + 1) * GRID_SPACING).map(x => (
+                    <line key={`x${x}`} x1={x} y1={0} x2={x} y2={doc.height} vectorEffect="non-scaling-stroke" />
+                  ))}
+                  {Array.from({ length: Math.ceil(doc.height / GRID_SPACING) - 1 }, (_, i) => (i + 1) * GRID_SPACING).map(y => (
+                    <line key={`y${y}`} x1={0} y1={y} x2={doc.width} y2={y} vectorEffect="non-scaling-stroke" />
+                  ))}
+                </g>
+              )}
+              {overlays.centerLines && (
+                <g stroke="#D4AF37" strokeOpacity={0.6} strokeWidth={1} vectorEffect="non-scaling-stroke">
+                  <line x1={doc.width / 2} y1={0} x2={doc.width / 2} y2={doc.height} vectorEffect="non-scaling-stroke" />
+                  <line x1={0} y1={doc.height / 2} x2={doc.width} y2={doc.height / 2} vectorEffect="non-scaling-stroke" />
+                </g>
+              )}
+              {symmetryOn && (
+                <g stroke="#D4AF37" strokeOpacity={0.7} vectorEffect="non-scaling-stroke">
+                  {symmetryGuides(symmetry.mode, symmetryCenter, symmetry.segments, doc).map(([a, b], i) => (
+                    <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} strokeWidth={1} strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+                  ))}
+                  <circle cx={symmetryCenter.x} cy={symmetryCenter.y} r={HANDLE_RADIUS / screenScale} fill="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                </g>
+              )}
+              {guide && (() => {
+                const { center, turn } = guideHandles(guide);
+                const r = HANDLE_RADIUS / screenScale;
+                return (
+                  <g stroke="#D4AF37" strokeWidth={1} vectorEffect="non-scaling-stroke">
+                    <polygon points={guideOutline(guide).map(p => `${p.x},${p.y}`).join(' ')} fill="rgba(255,255,255,0.55)" vectorEffect="non-scaling-stroke" />
+                    {guide.kind === 'ruler' && rulerTicks(guide).map(([a, b], i) => (
+                      <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} strokeOpacity={0.8} vectorEffect="non-scaling-stroke" />
+                    ))}
+                    <polyline points={guideEdge(guide).map(p => `${p.x},${p.y}`).join(' ')} fill="none" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                    <circle cx={center.x} cy={center.y} r={r} fill="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                    <circle cx={turn.x} cy={turn.y} r={r} fill="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                  </g>
+                );
+              })()}
+              {/* The shape being drawn, with its mirror images, in the brush's colour and size */}
+              {shapeDraft && (() => {
+                const points = shapePoints(shapeDraft.kind, shapeDraft.vertices);
+                const mirrors = [IDENTITY_MATRIX, ...symmetryMatrices(symmetry.mode, symmetryCenter, symmetry.segments)];
+                const r = HANDLE_RADIUS / screenScale;
+                return (
+                  <g>
+                    {mirrors.map((matrix, i) => (
+                      <polyline
+                        key={i}
+                        points={points.map(p => applyMatrix(matrix, p)).map(p => `${p.x},${p.y}`).join(' ')}
+                        fill="none"
+                        stroke={tool === 'eraser' ? '#9CA3AF' : color}
+                        strokeOpacity={opacity / 100}
+                        strokeWidth={brushSize / screenScale}
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      />
+                    ))}
+                    {shapeDraft.kind === 'polyline' && shapeDraft.vertices.map((p, i) => (
+                      <circle key={i} cx={p.x} cy={p.y} r={r * 0.6} fill="white" stroke="#D4AF37" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                    ))}
+                  </g>
+                );
+              })()}
+              {marquee && (
+                <polygon points={marquee.map(p => `${p.x},${p.y}`).join(' ')} fill="rgba(212,175,55,0.08)" stroke="#D4AF37" strokeWidth={1} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+              )}
+              {selection && (() => {
+                const { top, rotate } = selectionHandles(selection.frame);
+                const r = HANDLE_RADIUS / screenScale;
+                return (
+                  <g stroke="#D4AF37" strokeWidth={1.5} vectorEffect="non-scaling-stroke">
+                    <polygon points={selection.frame.map(p => `${p.x},${p.y}`).join(' ')} fill="none" strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+                    <line x1={top.x} y1={top.y} x2={rotate.x} y2={rotate.y} vectorEffect="non-scaling-stroke" />
+                    {selection.frame.map((p, i) => (
+                      <rect key={i} x={p.x - r} y={p.y - r} width={r * 2} height={r * 2} fill="white" vectorEffect="non-scaling-stroke" />
+                    ))}
+                    <circle cx={rotate.x} cy={rotate.y} r={r} fill="white" vectorEffect="non-scaling-stroke" />
+                  </g>
+                );
+              })()}
+            </svg>
+          )}
+        </div>
+
+        {/* Input surface: covers the whole area so gestures can start off the paper */}
+        <div
+          className={`absolute inset-0 touch-none ${eyedropperActive ? 'cursor-copy' : adjustingReference ? 'cursor-move' : selectMode ? (canSelect ? 'cursor-default' : 'cursor-not-allowed') : fillActive && canDraw ? 'cursor-default' : canDraw ? 'cursor-crosshair' : 'cursor-not-allowed'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
         />
+
+        {/* Zoom / rotation readout; tap to fit the paper again */}
+        {!isIdentityView(view) && (
+          <button
+            onClick={() => setView(IDENTITY_VIEW)}
+            className="absolute top-20 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-2 px-3 py-1 rounded-full bg-charcoal/80 backdrop-blur-md border border-white/10 text-[10px] uppercase tracking-widest text-gold"
+          >
+            <Maximize size={12} />
+            <span>{Math.round(view.scale * 100)}%{view.rotation !== 0 && ` · ${Math.round(view.rotation * 180 / Math.PI)}°`}</span>
+          </button>
+        )}
+
+        {/* Selection actions */}
+        {selectMode && !adjustingReference && (
+          <div className="absolute bottom-28 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-1 px-2 py-1 rounded-full bg-charcoal/80 backdrop-blur-md border border-gold/30">
+            {selection ? (
+              <>
+                <button onClick={() => handleFlip(true)} className="p-2 text-white/70 hover:text-gold"><FlipHorizontal2 size={18} /></button>
+                <button onClick={() => handleFlip(false)} className="p-2 text-white/70 hover:text-gold"><FlipVertical2 size={18} /></button>
+                <button onClick={handleCopy} className="p-2 text-white/70 hover:text-gold"><Copy size={18} /></button>
+                <button onClick={handlePaste} disabled={!canPaste || !canDraw} className="p-2 text-white/70 hover:text-gold disabled:opacity-30"><ClipboardPaste size={18} /></button>
+                <button onClick={handleDeleteSelection} className="p-2 text-white/70 hover:text-red-400"><Trash2 size={18} /></button>
+                <div className="h-6 w-px bg-white/20 mx-1"></div>
+                <button onClick={() => setSelection(null)} className="p-2 text-white/70 hover:text-white"><X size={18} /></button>
+              </>
+            ) : (
+              <>
+                <span className="px-2 text-[10px] uppercase tracking-widest text-gold whitespace-nowrap">
+                  {!canDraw ? 'Layer is locked or hidden'
+                    : !canSelect ? 'Painted images can\'t be selected'
+                    : selectMode === 'lasso' ? 'Draw around strokes to select' : 'Drag a box to select'}
+                </span>
+                <button onClick={handlePaste} disabled={!canPaste || !canDraw} className="p-2 text-white/70 hover:text-gold disabled:opacity-30"><ClipboardPaste size={18} /></button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Unfinished polyline */}
+        {shapeDraft?.kind === 'polyline' && (
+          <div className="absolute bottom-40 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-1 px-2 py-1 rounded-full bg-charcoal/80 backdrop-blur-md border border-gold/30">
+            <span className="px-2 text-[10px] uppercase tracking-widest text-gold whitespace-nowrap">Tap the last point to finish</span>
+            <button onClick={() => finishShape(shapeDraft)} disabled={shapeDraft.vertices.length < 2} className="p-2 text-white/70 hover:text-gold disabled:opacity-30"><Check size={18} /></button>
+            <button onClick={() => setShapeDraft(null)} className="p-2 text-white/70 hover:text-white"><X size={18} /></button>
+          </div>
+        )}
+
+        {/* Symmetry options */}
+        {symmetryOn && !selectMode && !adjustingReference && (
+          <div className="absolute bottom-28 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-1 px-2 py-1 rounded-full bg-charcoal/80 backdrop-blur-md border border-gold/30">
+            <span className="px-2 text-[10px] uppercase tracking-widest text-gold whitespace-nowrap">
+              {SYMMETRY_LABELS[symmetry.mode]}{symmetry.mode === 'radial' && ` · ${symmetry.segments}`}
+            </span>
+            {symmetry.mode === 'radial' && (
+              <>
+                <button
+                  onClick={() => updateSymmetry({ segments: Math.max(MIN_RADIAL_SEGMENTS, symmetry.segments - 1) })}
+                  disabled={symmetry.segments <= MIN_RADIAL_SEGMENTS}
+                  className="p-2 text-white/70 hover:text-gold disabled:opacity-30"
+                >
+                  <Minus size={16} />
+                </button>
+                <button
+                  onClick={() => updateSymmetry({ segments: Math.min(MAX_RADIAL_SEGMENTS, symmetry.segments + 1) })}
+                  disabled={symmetry.segments >= MAX_RADIAL_SEGMENTS}
+                  className="p-2 text-white/70 hover:text-gold disabled:opacity-30"
+                >
+                  <Plus size={16} />
+                </button>
+              </>
+            )}
+            {/* Puts the axes back on the centre of the page */}
+            <button onClick={() => setSymmetryAxis(null)} disabled={!symmetryAxis} className="p-2 text-white/70 hover:text-gold disabled:opacity-30">
+              <Crosshair size={16} />
+            </button>
+          </div>
+        )}
+
+        {adjustingReference && (
+          <div className="absolute bottom-28 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-2 px-3 py-1 rounded-full bg-charcoal/80 backdrop-blur-md border border-gold/30 text-[10px] uppercase tracking-widest text-gold whitespace-nowrap pointer-events-none">
+            <Move size={12} />
+            <span>Drag to move · pinch to scale and turn</span>
+          </div>
+        )}
       </div>
 
       {/* Tools & Dock */}
-      <div className="absolute left-4 top-1/2 -translate-y-1/2 flex flex-col gap-8 py-6 px-3 bg-charcoal/80 backdrop-blur-md rounded-full border border-white/5 shadow-luxury z-40">
+      <div className="absolute left-4 top-1/2 -translate-y-1/2 flex flex-col gap-6 py-5 px-3 bg-charcoal/80 backdrop-blur-md rounded-full border border-white/5 shadow-luxury z-40">
         <Slider value={brushSize} min={1} max={50} onChange={setBrushSize} label="Size" />
         <Slider value={opacity} min={1} max={100} onChange={setOpacity} label="Opac" />
+        <div className="flex flex-col items-center space-y-2">
+          <Slider
+            value={stabilizerSettings.strength}
+            min={0}
+            max={100}
+            onChange={(strength) => updateStabilizer({ strength })}
+            label="Stab"
+          />
+          <button
+            onClick={() => updateStabilizer({ mode: STABILIZER_MODES[(STABILIZER_MODES.indexOf(stabilizerSettings.mode) + 1) % STABILIZER_MODES.length] })}
+            className={`text-[9px] uppercase tracking-widest px-2 py-0.5 rounded-full border ${stabilizerSettings.mode === 'off' ? 'border-white/10 text-white/40' : 'border-gold/40 text-gold'}`}
+          >
+            {STABILIZER_LABELS[stabilizerSettings.mode]}
+          </button>
+        </div>
       </div>
 
       <div className="absolute bottom-6 left-6 right-6 h-16 bg-burgundy rounded-2xl shadow-luxury flex items-center justify-between px-6 z-50 border border-white/10">
         <div className="flex items-center space-x-6">
-          <button onClick={() => setTool('brush')} className={`p-2 rounded-full transition-all ${tool === 'brush' ? 'bg-gold text-charcoal shadow-glow scale-110' : 'text-white/70 hover:text-white'}`}>
+          <button onClick={handleBrushButton} className={`p-2 rounded-full transition-all ${tool === 'brush' && !selectMode && !fillActive && !shape ? 'bg-gold text-charcoal shadow-glow scale-110' : 'text-white/70 hover:text-white'}`}>
             <Brush size={20} />
           </button>
-          <button onClick={() => setTool('eraser')} className={`p-2 rounded-full transition-all ${tool === 'eraser' ? 'bg-gold text-charcoal shadow-glow scale-110' : 'text-white/70 hover:text-white'}`}>
+          <button onClick={handleEraserButton} className={`p-2 rounded-full transition-all ${tool === 'eraser' && !selectMode && !fillActive && !shape ? 'bg-gold text-charcoal shadow-glow scale-110' : 'text-white/70 hover:text-white'}`}>
             <Eraser size={20} />
           </button>
+          <button onClick={handleFillButton} className={`p-2 rounded-full transition-all ${fillActive ? 'bg-gold text-charcoal shadow-glow scale-110' : 'text-white/70 hover:text-white'} ${filling ? 'animate-pulse' : ''}`}>
+            <PaintBucket size={20} />
+          </button>
+          <button onClick={handleSelectButton} className={`p-2 rounded-full transition-all ${selectMode ? 'bg-gold text-charcoal shadow-glow scale-110' : 'text-white/70 hover:text-white'}`}>
+            {selectMode === 'lasso' ? <LassoSelect size={20} /> : <SquareDashed size={20} />}
+          </button>
+          {/* Shapes, guides and overlays */}
+          <button
+            onClick={() => { setGuidesOpen(!guidesOpen); setFillOpen(false); setBrushesOpen(false); setColorOpen(false); }}
+            className={`p-2 rounded-full transition-all ${shape ? 'bg-gold text-charcoal shadow-glow scale-110' : guide || guidesOpen ? 'bg-white/15 text-gold' : 'text-white/70 hover:text-white'}`}
+          >
+            <Shapes size={20} />
+          </button>
+          {/* Cycles through the symmetry modes */}
+          <button
+            onClick={() => updateSymmetry({ mode: SYMMETRY_MODES[(SYMMETRY_MODES.indexOf(symmetry.mode) + 1) % SYMMETRY_MODES.length] })}
+            className={`p-2 rounded-full transition-all ${symmetryOn ? 'bg-white/15 text-gold' : 'text-white/70 hover:text-white'}`}
+          >
+            {symmetry.mode === 'horizontal' ? <Rows2 size={20} /> : symmetry.mode === 'quadrant' ? <Grid2x2 size={20} /> : symmetry.mode === 'radial' ? <Asterisk size={20} /> : <Columns2 size={20} />}
+          </button>
+          <button
+            onClick={() => { setColorOpen(!colorOpen); setBrushesOpen(false); }}
+            className={`w-7 h-7 rounded-full border-2 transition-all ${colorOpen || eyedropperActive ? 'border-gold shadow-glow scale-110' : 'border-white/40'}`}
+            style={{ backgroundColor: color }}
+          />
           <div className="h-8 w-px bg-white/20 mx-2"></div>
           <label className="p-2 text-white/70 hover:text-gold active:scale-95 transition-transform cursor-pointer">
             <input type="file" accept="image/*" className="hidden" onChange={handleImageImport} />
             <ImagePlus size={22} />
           </label>
+          <button onClick={() => setCameraOpen(true)} className="p-2 text-white/70 hover:text-gold active:scale-95 transition-transform">
+            <Camera size={22} />
+          </button>
         </div>
 
         <div className="flex items-center space-x-6">
           <div className="flex space-x-2">
-            <button onClick={handleUndo} disabled={historyStep <= 0} className="p-2 text-white/70 hover:text-white disabled:opacity-30">
+            <button onClick={handleUndo} disabled={!editor?.history.undo.length} className="p-2 text-white/70 hover:text-white disabled:opacity-30">
               <Undo2 size={22} />
             </button>
-            <button onClick={handleRedo} disabled={historyStep >= history.length - 1} className="p-2 text-white/70 hover:text-white disabled:opacity-30">
+            <button onClick={handleRedo} disabled={!editor?.history.redo.length} className="p-2 text-white/70 hover:text-white disabled:opacity-30">
               <Redo2 size={22} />
             </button>
           </div>
           <div className="h-8 w-px bg-white/20 mx-2"></div>
-          {sketch.status === 'Ready for Atelier Sync' ? (
-             <button onClick={handleSync} className={`flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-gold to-gold-light rounded-lg text-charcoal font-bold text-xs uppercase tracking-wide shadow-lg ${syncing ? 'animate-pulse' : ''}`}>
-               {syncing ? <span>Syncing...</span> : <><UploadCloud size={16} /><span>Sync</span></>}
-             </button>
-          ) : (
-            <button onClick={handleSave} className="p-2 bg-white/10 rounded-lg text-gold hover:bg-white/20 transition-colors">
-              <Save size={20} />
-            </button>
-          )}
+          <button onClick={() => handleSave()} className="relative p-2 bg-white/10 rounded-lg text-gold hover:bg-white/20 transition-colors">
+            <Save size={20} />
+            {unsaved && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-gold" />}
+          </button>
+          <button
+            onClick={() => (sketch.status === 'Sync Conflict' ? onResolveConflict(sketch.id) : handleSync())}
+            disabled={sketch.status === 'Syncing'}
+            className={`relative overflow-hidden flex items-center space-x-2 px-4 py-2 rounded-lg font-bold text-xs uppercase tracking-wide shadow-lg ${sketch.status === 'Sync Failed' || sketch.status === 'Sync Conflict' ? 'bg-red-900/80 text-white' : 'bg-gradient-to-r from-gold to-gold-light text-charcoal'}`}
+          >
+            {sketch.status === 'Syncing' ? (
+              <>
+                <span className="absolute left-0 bottom-0 h-0.5 bg-charcoal/60 transition-all" style={{ width: `${(syncProgress ?? 0) * 100}%` }} />
+                <span>Syncing {Math.round((syncProgress ?? 0) * 100)}%</span>
+              </>
+            ) : sketch.status === 'Ready for Atelier Sync' ? (
+              <><Cloud size={16} className="animate-pulse" /><span>Queued</span></>
+            ) : sketch.status === 'Synced' ? (
+              <><CheckCircle2 size={16} /><span>Synced</span></>
+            ) : sketch.status === 'Sync Conflict' ? (
+              <><GitBranch size={16} /><span>Resolve</span></>
+            ) : sketch.status === 'Sync Failed' ? (
+              <><AlertTriangle size={16} /><span>Retry</span></>
+            ) : (
+              <><UploadCloud size={16} /><span>Sync</span></>
+            )}
+          </button>
         </div>
       </div>
-      
-      {syncing && (
-        <div className="absolute inset-0 bg-burgundy/40 backdrop-blur-sm z-[60] flex items-center justify-center">
-            <div className="bg-charcoal p-8 rounded-2xl shadow-2xl border border-gold/50 flex flex-col items-center">
-                <div className="w-16 h-16 rounded-full border-4 border-gold border-t-transparent animate-spin mb-4"></div>
-                <h3 className="text-gold font-serif text-xl">Syncing to Atelier</h3>
-                <p className="text-gray-400 text-sm mt-2">Uploading high-res assets...</p>
-            </div>
-        </div>
-      )}
     </div>
   );
 };
@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pipette, Plus, Trash2, X } from 'lucide-react';
+import { Palette } from '../types';
+import { Hsv, hexToHsv, hsvToHex, hsvToRgb, normalizeHex } from '../utils/color';
+import { createId } from '../utils/id';
+
+interface ColorPickerProps {
+  color: string;
+  recentColors: string[];
+  palettes: Palette[];
+  onChange: (color: string) => void;
+  onPalettesChange: (palettes: Palette[]) => void;
+  onEyedropper: () => void;
+  onClose: () => void;
+}
+
+const WHEEL_SIZE = 160;
+
+// Hue runs around the wheel, saturation from the centre out; value is a separate slider
+const paintWheel = (canvas: HTMLCanvasElement, value: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const size = canvas.width;
+  const radius = size / 2;
+  const image = ctx.createImageData(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = x - radius;
+      const dy = y - radius;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance > radius) continue;
+
+      const hue = (Math.atan2(dy, dx) * 180 / Math.PI + 360) % 360;
+      const { r, g, b } = hsvToRgb({ h: hue, s: distance / radius, v: value });
+      const i = (y * size + x) * 4;
+      image.data[i] = r;
+      image.data[i + 1] = g;
+      image.data[i + 2] = b;
+      image.data[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const Swatch: React.FC<{ color: string; selected: boolean; onClick: () => void }> = ({ color, selected, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`w-6 h-6 rounded-full border ${selected ? 'border-gold ring-2 ring-gold/40' : 'border-white/20'}`}
+    style={{ backgroundColor: color }}
+  />
+);
+
+const ColorPicker: React.FC<ColorPickerProps> = ({ color, recentColors, palettes, onChange, onPalettesChange, onEyedropper, onClose }) => {
+  const wheelRef = useRef<HTMLCanvasElement>(null);
+  const [hsv, setHsv] = useState<Hsv>(() => hexToHsv(color));
+  const [hexDraft, setHexDraft] = useState(color);
+  const [editingPalettes, setEditingPalettes] = useState(false);
+  const [newPaletteName, setNewPaletteName] = useState('');
+
+  // Follow colour changes from outside (eyedropper, swatches)
+  useEffect(() => {
+    if (hsvToHex(hsv) !== color) setHsv(hexToHsv(color));
+    setHexDraft(color);
+  }, [color]);
+
+  useEffect(() => {
+    if (wheelRef.current) paintWheel(wheelRef.current, hsv.v);
+  }, [hsv.v]);
+
+  const commitHsv = (next: Hsv) => {
+    setHsv(next);
+    onChange(hsvToHex(next));
+  };
+
+  const pickFromWheel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const radius = rect.width / 2;
+    const dx = e.clientX - rect.left - radius;
+    const dy = e.clientY - rect.top - radius;
+    const hue = (Math.atan2(dy, dx) * 180 / Math.PI + 360) % 360;
+    const saturation = Math.min(1, Math.sqrt(dx * dx + dy * dy) / radius);
+    commitHsv({ h: hue, s: saturation, v: hsv.v });
+  };
+
+  const commitHex = () => {
+    const normalized = normalizeHex(hexDraft);
+    if (normalized) onChange(normalized);
+    else setHexDraft(color);
+  };
+
+  // Marker position on the wheel for the current hue and saturation
+  const markerAngle = hsv.h * Math.PI / 180;
+  const markerX = WHEEL_SIZE / 2 + Math.cos(markerAngle) * hsv.s * WHEEL_SIZE / 2;
+  const markerY = WHEEL_SIZE / 2 + Math.sin(markerAngle) * hsv.s * WHEEL_SIZE / 2;
+
+  const updatePalette = (paletteId: string, update: (palette: Palette) => Palette | null) => {
+    onPalettesChange(
+      palettes
+        .map(p => (p.id === paletteId ? update(p) : p))
+        .filter((p): p is Palette => p !== null)
+    );
+  };
+
+  const addPalette = () => {
+    const name = newPaletteName.trim();
+    if (!name) return;
+    onPalettesChange([...palettes, { id: createId('palette'), name, colors: [color] }]);
+    setNewPaletteName('');
+  };
+
+  return (
+    <div className="absolute bottom-28 left-6 w-72 max-h-[70vh] overflow-y-auto no-scrollbar bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-4 space-y-4 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-center justify-between text-xs text-gray-500 uppercase tracking-wider">
+        <span>Colour</span>
+        <button onClick={onClose} className="p-1 text-white/60 hover:text-white">
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* HSV Wheel */}
+      <div className="flex justify-center">
+        <div className="relative" style={{ width: WHEEL_SIZE, height: WHEEL_SIZE }}>
+          <canvas
+            ref={wheelRef}
+            width={WHEEL_SIZE}
+            height={WHEEL_SIZE}
+            className="rounded-full touch-none cursor-crosshair"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              pickFromWheel(e);
+            }}
+            onPointerMove={(e) => {
+              if (e.currentTarget.hasPointerCapture(e.pointerId)) pickFromWheel(e);
+            }}
+            onPointerUp={(e) => e.currentTarget.releasePointerCapture(e.pointerId)}
+          />
+          <div
+            className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white shadow pointer-events-none"
+            style={{ left: markerX, top: markerY, backgroundColor: color }}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <span className="text-[10px] uppercase tracking-widest text-gold w-12">Value</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(hsv.v * 100)}
+          onChange={(e) => commitHsv({ ...hsv, v: Number(e.target.value) / 100 })}
+          className="flex-1 accent-[#D4AF37]"
+        />
+      </div>
+
+      {/* Hex Entry & Eyedropper */}
+      <div className="flex items-center space-x-2">
+        <div className="w-8 h-8 rounded border border-white/20" style={{ backgroundColor: color }} />
+        <input
+          value={hexDraft}
+          onChange={(e) => setHexDraft(e.target.value)}
+          onBlur={commitHex}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitHex(); }}
+          spellCheck={false}
+          className="flex-1 bg-black/40 text-white text-sm font-mono uppercase rounded px-2 py-1 border border-white/10 outline-none focus:border-gold/40"
+        />
+        <button onClick={onEyedropper} className="p-2 rounded-lg text-white/70 hover:text-gold hover:bg-white/10">
+          <Pipette size={16} />
+        </button>
+      </div>
+
+      {/* Recent Colours */}
+      {recentColors.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[10px] uppercase tracking-widest text-gray-500">Recent</p>
+          <div className="flex flex-wrap gap-2">
+            {recentColors.map(c => (
+              <Swatch key={c} color={c} selected={c === color} onClick={() => onChange(c)} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Project Palettes */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-[10px] uppercase tracking-widest text-gray-500">Collection Palettes</p>
+          <button
+            onClick={() => setEditingPalettes(!editingPalettes)}
+            className={`text-[10px] uppercase tracking-widest ${editingPalettes ? 'text-gold' : 'text-white/50 hover:text-white'}`}
+          >
+            {editingPalettes ? 'Done' : 'Edit'}
+          </button>
+        </div>
+
+        {palettes.map(palette => (
+          <div key={palette.id} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-white text-xs font-medium">{palette.name}</span>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => updatePalette(palette.id, p => (
+                    p.colors.includes(color) ? p : { ...p, colors: [...p.colors, color] }
+                  ))}
+                  className="p-1 text-white/50 hover:text-gold"
+                >
+                  <Plus size={12} />
+                </button>
+                {editingPalettes && (
+                  <button onClick={() => updatePalette(palette.id, () => null)} className="p-1 text-white/50 hover:text-red-400">
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {palette.colors.map(c => (
+                <div key={c} className="relative">
+                  <Swatch
+                    color={c}
+                    selected={c === color}
+                    onClick={() => editingPalettes
+                      ? updatePalette(palette.id, p => ({ ...p, colors: p.colors.filter(pc => pc !== c) }))
+                      : onChange(c)}
+                  />
+                  {editingPalettes && (
+                    <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-red-500 text-white flex items-center justify-center pointer-events-none">
+                      <X size={8} />
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center space-x-2">
+          <input
+            value={newPaletteName}
+            onChange={(e) => setNewPaletteName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addPalette(); }}
+            placeholder="New palette name"
+            className="flex-1 bg-black/40 text-white text-xs rounded px-2 py-1 border border-white/10 outline-none focus:border-gold/40 placeholder:text-gray-600"
+          />
+          <button onClick={addPalette} disabled={!newPaletteName.trim()} className="p-1 text-gold disabled:opacity-30">
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColorPicker;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { FileImage, GitBranch, X } from 'lucide-react';
+import { Sketch } from '../types';
+import { ConflictRecord, ConflictResolution } from '../services/storage';
+
+interface ConflictDialogProps {
+  sketch: Sketch; // The local copy
+  conflict: ConflictRecord;
+  onResolve: (resolution: ConflictResolution) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? 'Unknown time' : date.toLocaleString();
+};
+
+const VersionCard: React.FC<{ label: string; sketch: Sketch }> = ({ label, sketch }) => (
+  <div className="flex-1 min-w-0 space-y-2">
+    <p className="text-[10px] uppercase tracking-widest text-gold">{label}</p>
+    <div className="aspect-[3/4] bg-white rounded-lg overflow-hidden flex items-center justify-center">
+      {sketch.thumbnail ? (
+        <img src={sketch.thumbnail} alt={sketch.title} className="w-full h-full object-cover" />
+      ) : (
+        <FileImage size={32} className="text-black opacity-10" />
+      )}
+    </div>
+    <p className="text-white text-xs font-medium truncate">{sketch.title}</p>
+    <p className="text-gray-400 text-[10px]">Edited {formatTime(sketch.updatedAt)}</p>
+  </div>
+);
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ sketch, conflict, onResolve, onClose }) => {
+  const [resolving, setResolving] = useState(false);
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setResolving(true);
+    try {
+      await onResolve(resolution);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-charcoal border border-gold/40 rounded-2xl shadow-luxury p-5 space-y-4">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-2 text-gold">
+            <GitBranch size={18} />
+            <h3 className="font-serif text-lg">Edited on two devices</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-white/60 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-gray-400 text-xs">
+          This sketch changed on another device since it was last synced. Choose which version to keep;
+          the other one is archived, not deleted.
+        </p>
+
+        <div className="flex space-x-3">
+          <VersionCard label="This device" sketch={sketch} />
+          <VersionCard label="Other device" sketch={conflict.remote.sketch} />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {([
+            ['keep-mine', 'Keep mine'],
+            ['keep-theirs', 'Keep theirs'],
+            ['keep-both', 'Keep both'],
+          ] as const).map(([resolution, label]) => (
+            <button
+              key={resolution}
+              onClick={() => resolve(resolution)}
+              disabled={resolving}
+              className={`py-2 rounded-lg text-xs font-bold uppercase tracking-wide disabled:opacity-40 ${resolution === 'keep-both' ? 'bg-gradient-to-r from-gold to-gold-light text-charcoal' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
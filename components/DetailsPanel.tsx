@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Sketch } from '../types';
+import { DETAIL_FIELDS, addTags, detailKeys, detailLabel } from '../utils/metadata';
+
+export type SketchMetadata = Pick<Sketch, 'tags' | 'notes' | 'details'>;
+
+interface DetailsPanelProps {
+  sketch: Sketch;
+  onChange: (patch: Partial<SketchMetadata>) => void;
+}
+
+const DetailsPanel: React.FC<DetailsPanelProps> = ({ sketch, onChange }) => {
+  // Text is edited locally and saved on blur, so typing doesn't write on every key
+  const [details, setDetails] = useState(sketch.details);
+  const [notes, setNotes] = useState(sketch.notes);
+  const [tagDraft, setTagDraft] = useState('');
+  const [newField, setNewField] = useState<string | null>(null);
+
+  const commitDetails = (next = details) => {
+    setDetails(next);
+    onChange({ details: next });
+  };
+
+  const commitTags = () => {
+    const tags = addTags(sketch.tags, tagDraft.split(','));
+    if (tags.length !== sketch.tags.length) onChange({ tags });
+    setTagDraft('');
+  };
+
+  const addField = () => {
+    const name = newField?.trim();
+    if (name && !(name in details) && !DETAIL_FIELDS.some(f => f.key === name)) {
+      commitDetails({ ...details, [name]: '' });
+    }
+    setNewField(null);
+  };
+
+  const removeField = (key: string) => {
+    const { [key]: _, ...rest } = details;
+    commitDetails(rest);
+  };
+
+  return (
+    <div className="absolute top-16 right-4 w-72 max-h-[75vh] overflow-y-auto no-scrollbar bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-3 space-y-3 animate-in fade-in slide-in-from-top-4">
+      <div className="text-xs text-gray-500 uppercase tracking-wider">Details</div>
+
+      {/* Tags */}
+      <div>
+        <div className="text-[10px] uppercase tracking-widest text-gold mb-2">Tags</div>
+        <div className="flex flex-wrap gap-1.5 items-center">
+          {sketch.tags.map(tag => (
+            <span key={tag} className="flex items-center space-x-1 pl-2 pr-1 py-0.5 rounded-full bg-gold/15 border border-gold/40 text-gold text-xs">
+              <span>#{tag}</span>
+              <button onClick={() => onChange({ tags: sketch.tags.filter(t => t !== tag) })} className="text-gold/60 hover:text-red-400">
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+          <input
+            value={tagDraft}
+            onChange={(e) => {
+              // A comma finishes a tag, as Enter does
+              const parts = e.target.value.split(',');
+              if (parts.length > 1) {
+                const tags = addTags(sketch.tags, parts.slice(0, -1));
+                if (tags.length !== sketch.tags.length) onChange({ tags });
+              }
+              setTagDraft(parts[parts.length - 1]);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitTags();
+              if (e.key === 'Backspace' && !tagDraft && sketch.tags.length) onChange({ tags: sketch.tags.slice(0, -1) });
+            }}
+            onBlur={() => { if (tagDraft.trim()) commitTags(); }}
+            placeholder={sketch.tags.length ? 'Add tag' : 'e.g. outerwear, tailoring'}
+            className="flex-1 min-w-[80px] bg-transparent text-white text-xs outline-none py-1 placeholder:text-gray-600"
+          />
+        </div>
+      </div>
+
+      {/* Garment details */}
+      <div className="space-y-2">
+        <div className="text-[10px] uppercase tracking-widest text-gold">Garment</div>
+        {detailKeys(details).map(key => {
+          const field = DETAIL_FIELDS.find(f => f.key === key);
+          return (
+            <label key={key} className="block">
+              <span className="flex items-center justify-between text-gray-400 text-[11px] mb-0.5">
+                <span>{detailLabel(key)}</span>
+                {!field && (
+                  <button onClick={(e) => { e.preventDefault(); removeField(key); }} className="text-white/40 hover:text-red-400">
+                    <X size={10} />
+                  </button>
+                )}
+              </span>
+              <input
+                value={details[key] ?? ''}
+                onChange={(e) => setDetails({ ...details, [key]: e.target.value })}
+                onBlur={() => { if ((details[key] ?? '') !== (sketch.details[key] ?? '')) commitDetails(); }}
+                placeholder={field?.placeholder}
+                className="w-full bg-black/40 text-white text-xs rounded px-2 py-1.5 border border-white/10 outline-none focus:border-gold/40 placeholder:text-gray-600"
+              />
+            </label>
+          );
+        })}
+        {newField === null ? (
+          <button onClick={() => setNewField('')} className="flex items-center space-x-1 text-gold text-xs hover:text-gold-light">
+            <Plus size={12} />
+            <span>Add field</span>
+          </button>
+        ) : (
+          <input
+            autoFocus
+            value={newField}
+            onChange={(e) => setNewField(e.target.value)}
+            onBlur={addField}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addField();
+              if (e.key === 'Escape') setNewField(null);
+            }}
+            placeholder="Field name, e.g. Lining"
+            className="w-full bg-black/40 text-white text-xs rounded px-2 py-1.5 border border-gold/40 outline-none placeholder:text-gray-600"
+          />
+        )}
+      </div>
+
+      {/* Notes */}
+      <div>
+        <div className="text-[10px] uppercase tracking-widest text-gold mb-2">Notes</div>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => { if (notes !== sketch.notes) onChange({ notes }); }}
+          rows={4}
+          placeholder="Construction, trims, fit notes for the pattern maker"
+          className="w-full bg-black/40 text-white text-xs rounded px-2 py-1.5 border border-white/10 outline-none focus:border-gold/40 resize-none placeholder:text-gray-600"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DetailsPanel;
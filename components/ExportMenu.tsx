@@ -0,0 +1,60 @@
+import React from 'react';
+import { Archive, FileCode2, Image, Layers3, LayoutTemplate } from 'lucide-react';
+import { ExportFormat } from '../services/export';
+
+interface ExportMenuProps {
+  busy: ExportFormat | 'archive' | 'template' | null; // Export in progress
+  onExport: (format: ExportFormat) => void;
+  onExportArchive: () => void;
+  onSaveTemplate: () => void;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; detail: string; icon: React.ReactNode }[] = [
+  { format: 'png', label: 'PNG', detail: 'Flattened, transparent paper', icon: <Image size={16} /> },
+  { format: 'ora', label: 'OpenRaster', detail: 'Layers for Krita, GIMP, MyPaint', icon: <Layers3 size={16} /> },
+  { format: 'svg', label: 'SVG', detail: 'Vector strokes', icon: <FileCode2 size={16} /> },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ busy, onExport, onExportArchive, onSaveTemplate }) => (
+  <div className="absolute top-16 right-16 w-60 bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-3 space-y-2 animate-in fade-in slide-in-from-top-4">
+    <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">Export</div>
+    {OPTIONS.map(option => (
+      <button
+        key={option.format}
+        onClick={() => onExport(option.format)}
+        disabled={busy !== null}
+        className="w-full p-2 rounded-lg flex items-center space-x-3 text-left bg-white/5 border border-transparent hover:border-white/10 disabled:opacity-40"
+      >
+        <span className="text-gold">{option.icon}</span>
+        <span className="flex-1 min-w-0">
+          <span className="block text-white text-sm font-medium">{busy === option.format ? 'Exporting...' : option.label}</span>
+          <span className="block text-gray-400 text-xs truncate">{option.detail}</span>
+        </span>
+      </button>
+    ))}
+    <button
+      onClick={onExportArchive}
+      disabled={busy !== null}
+      className="w-full p-2 rounded-lg flex items-center space-x-3 text-left bg-white/5 border border-transparent hover:border-white/10 disabled:opacity-40"
+    >
+      <span className="text-gold"><Archive size={16} /></span>
+      <span className="flex-1 min-w-0">
+        <span className="block text-white text-sm font-medium">{busy === 'archive' ? 'Exporting...' : 'Atelier Archive'}</span>
+        <span className="block text-gray-400 text-xs truncate">Backup or move to another device</span>
+      </span>
+    </button>
+    <button
+      onClick={onSaveTemplate}
+      disabled={busy !== null}
+      className="w-full p-2 rounded-lg flex items-center space-x-3 text-left bg-white/5 border border-transparent hover:border-white/10 disabled:opacity-40"
+    >
+      <span className="text-gold"><LayoutTemplate size={16} /></span>
+      <span className="flex-1 min-w-0">
+        <span className="block text-white text-sm font-medium">{busy === 'template' ? 'Saving...' : 'Save as Template'}</span>
+        <span className="block text-gray-400 text-xs truncate">Start new sketches from this one</span>
+      </span>
+    </button>
+  </div>
+);
+
+export default ExportMenu;
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { ImagePlus, X, Trash2 } from 'lucide-react';
+import { Swatch } from '../types';
+import { FillSettings } from '../services/preferences';
+import { createId } from '../utils/id';
+import { BUILTIN_SWATCHES, loadSwatchPhoto, swatchTile } from '../utils/swatches';
+
+interface FillPanelProps {
+  settings: FillSettings;
+  color: string; // Brush colour, used for flat fills
+  swatches: Swatch[]; // The project's own swatches
+  onChange: (patch: Partial<FillSettings>) => void;
+  onSwatchesChange: (swatches: Swatch[]) => void;
+}
+
+const MAX_GAP = 20;
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 4;
+
+// Photo swatches show their photo; woven and printed ones a few repeats of their tile
+const swatchBackground = (swatch: Swatch): React.CSSProperties => {
+  const image = swatch.image ?? swatchTile(swatch)?.toDataURL('image/png');
+  return image ? { backgroundImage: `url(${image})`, backgroundSize: swatch.image ? 'cover' : '33%' } : {};
+};
+
+const FillPanel: React.FC<FillPanelProps> = ({ settings, color, swatches, onChange, onSwatchesChange }) => {
+  const [importing, setImporting] = useState(false);
+  // Deleting takes a second tap on the same swatch
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const backgrounds = useMemo(
+    () => new Map([...BUILTIN_SWATCHES, ...swatches].map(s => [s.id, swatchBackground(s)])),
+    [swatches]
+  );
+
+  const addPhotoSwatch = async (src: string, name: string) => {
+    setImporting(true);
+    try {
+      const swatch: Swatch = { id: createId('swatch'), name, pattern: 'photo', colors: [], image: await loadSwatchPhoto(src) };
+      onSwatchesChange([...swatches, swatch]);
+      onChange({ swatchId: swatch.id });
+    } catch (e) {
+      console.error("Failed to import swatch", e);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      addPhotoSwatch(reader.result as string, file.name.replace(/\.[^.]+$/, '') || 'Fabric');
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirming !== id) {
+      setConfirming(id);
+      return;
+    }
+    setConfirming(null);
+    onSwatchesChange(swatches.filter(s => s.id !== id));
+    if (settings.swatchId === id) onChange({ swatchId: null });
+  };
+
+  const swatchButton = (swatch: Swatch, removable: boolean) => (
+    <div key={swatch.id} className="relative">
+      <button
+        onClick={() => onChange({ swatchId: swatch.id })}
+        className={`w-full aspect-square rounded-lg border-2 bg-center ${settings.swatchId === swatch.id ? 'border-gold shadow-glow' : 'border-white/10 hover:border-white/30'}`}
+        style={backgrounds.get(swatch.id)}
+        title={swatch.name}
+      />
+      {removable && (
+        <button
+          onClick={() => handleDelete(swatch.id)}
+          className={`absolute -top-1 -right-1 p-1 rounded-full ${confirming === swatch.id ? 'bg-red-900 text-white' : 'bg-black/70 text-white/70 hover:text-red-400'}`}
+        >
+          {confirming === swatch.id ? <Trash2 size={10} /> : <X size={10} />}
+        </button>
+      )}
+    </div>
+  );
+
+  const selected = [...BUILTIN_SWATCHES, ...swatches].find(s => s.id === settings.swatchId);
+
+  return (
+    <div className="absolute bottom-28 left-6 w-72 max-h-[70vh] overflow-y-auto no-scrollbar bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-3 space-y-3 animate-in fade-in slide-in-from-bottom-4">
+      <div className="text-xs text-gray-500 uppercase tracking-wider">Fill</div>
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <span className="text-[10px] uppercase tracking-widest text-gold w-16">Tolerance</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={settings.tolerance}
+            onChange={(e) => onChange({ tolerance: Number(e.target.value) })}
+            className="flex-1 accent-[#D4AF37]"
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="text-[10px] uppercase tracking-widest text-gold w-16">Close Gaps</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_GAP}
+            value={settings.gap}
+            onChange={(e) => onChange({ gap: Number(e.target.value) })}
+            className="flex-1 accent-[#D4AF37]"
+          />
+        </div>
+      </div>
+
+      <div className="pt-2 border-t border-white/10 space-y-2">
+        <div className="text-[10px] uppercase tracking-widest text-gold">{selected ? selected.name : 'Colour'}</div>
+        <div className="grid grid-cols-5 gap-2">
+          <button
+            onClick={() => onChange({ swatchId: null })}
+            className={`w-full aspect-square rounded-lg border-2 ${settings.swatchId === null ? 'border-gold shadow-glow' : 'border-white/10 hover:border-white/30'}`}
+            style={{ backgroundColor: color }}
+            title="Brush colour"
+          />
+          {BUILTIN_SWATCHES.map(swatch => swatchButton(swatch, false))}
+          {swatches.map(swatch => swatchButton(swatch, true))}
+          <label className={`w-full aspect-square rounded-lg border-2 border-dashed border-white/20 flex items-center justify-center text-white/60 hover:text-gold cursor-pointer ${importing ? 'opacity-30 pointer-events-none' : ''}`}>
+            <input type="file" accept="image/*" className="hidden" onChange={handleImport} />
+            <ImagePlus size={16} />
+          </label>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="pt-2 border-t border-white/10 space-y-2">
+          <div className="flex items-center space-x-2">
+            <span className="text-[10px] uppercase tracking-widest text-gold w-16">Scale</span>
+            <input
+              type="range"
+              min={MIN_SCALE * 100}
+              max={MAX_SCALE * 100}
+              value={Math.round(settings.scale * 100)}
+              onChange={(e) => onChange({ scale: Number(e.target.value) / 100 })}
+              className="flex-1 accent-[#D4AF37]"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="text-[10px] uppercase tracking-widest text-gold w-16">Turn</span>
+            <input
+              type="range"
+              min={-90}
+              max={90}
+              value={Math.round(settings.rotation * 180 / Math.PI)}
+              onChange={(e) => onChange({ rotation: Number(e.target.value) * Math.PI / 180 })}
+              className="flex-1 accent-[#D4AF37]"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FillPanel;
@@ -1,84 +1,632 @@
-import React from 'react';
-import { Folder, Plus, FileImage, Cloud, CheckCircle2 } from 'lucide-react';
-import { Project, Sketch } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Folder, Plus, FileImage, Cloud, CheckCircle2, UploadCloud, AlertTriangle, GitBranch, Download, BookOpen, Archive, FolderInput, FolderPlus, FolderArchive, ArchiveRestore, Pencil, Copy, FolderOutput, Trash2, History, ListChecks, Circle, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { LibraryFilter, Project, SavedFilter, Sketch } from '../types';
+import { searchLibrary } from '../services/storage';
+import { getSavedFilters, saveSavedFilters } from '../services/preferences';
+import { createId } from '../utils/id';
+import { DEFAULT_FILTER, isFilterActive } from '../utils/search';
+import ActionSheet, { SheetAction } from './ActionSheet';
+import SearchBar from './SearchBar';
 
 interface GalleryProps {
   projects: Project[];
+  trashCount: number;
   onOpenSketch: (project: Project, sketch: Sketch) => void;
   onCreateSketch: (projectId: string) => void;
+  onCreateProject: () => Project;
+  onUpdateProject: (projectId: string, patch: Partial<Pick<Project, 'name' | 'archived'>>) => void;
+  onMoveProject: (projectId: string, beforeId: string | null) => void;
+  onDeleteProject: (projectId: string) => void;
+  onRenameSketch: (sketchId: string, title: string) => void;
+  onDuplicateSketches: (sketchIds: string[]) => void;
+  onOpenHistory: (sketchId: string) => void;
+  onMoveSketches: (sketchIds: string[], projectId: string, beforeId: string | null) => void;
+  onDeleteSketches: (sketchIds: string[]) => void;
+  onOpenTrash: () => void;
+  onInstall?: () => void; // Present while the browser offers to install the app
+  onExportLookbook: (project: Project) => Promise<void>;
+  onExportArchive: (project?: Project) => Promise<void>; // Whole library without a project
+  onImportArchive: (file: File) => Promise<void>;
 }
 
-const Gallery: React.FC<GalleryProps> = ({ projects, onOpenSketch, onCreateSketch }) => {
+type ItemKind = 'project' | 'sketch';
+
+interface Menu {
+  title: string;
+  subtitle?: string;
+  actions: SheetAction[];
+}
+
+interface Drag {
+  kind: ItemKind;
+  id: string;
+  x: number;
+  y: number;
+  // Where it would land: next to a sketch, or at the end of (or beside) a project
+  target: { kind: ItemKind; id: string; after: boolean } | null;
+}
+
+// Holding a project or sketch this long opens its menu; moving while still holding drags it
+const LONG_PRESS_MS = 450;
+// Movement before the hold completes means the finger is scrolling
+const PRESS_SLOP = 8;
+// Typing pauses this long before the library is searched
+const SEARCH_DELAY_MS = 200;
+
+const Gallery: React.FC<GalleryProps> = ({
+  projects, trashCount, onOpenSketch, onCreateSketch, onCreateProject, onUpdateProject, onMoveProject, onDeleteProject,
+  onRenameSketch, onDuplicateSketches, onOpenHistory, onMoveSketches, onDeleteSketches, onOpenTrash, onInstall, onExportLookbook,
+  onExportArchive, onImportArchive,
+}) => {
+  // Which long-running action is in progress, e.g. 'lookbook:p1'; one at a time
+  const [busy, setBusy] = useState<string | null>(null);
+  const [menu, setMenu] = useState<Menu | null>(null);
+  const [renaming, setRenaming] = useState<{ kind: ItemKind; id: string } | null>(null);
+  const [draftName, setDraftName] = useState('');
+  // Sketch ids picked in selection mode; null when not selecting
+  const [selected, setSelected] = useState<string[] | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [filter, setFilter] = useState<LibraryFilter>(DEFAULT_FILTER);
+  // Ids of matching sketches, in order; null while the first search is running
+  const [results, setResults] = useState<string[] | null>(null);
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(getSavedFilters);
+
+  const [heldId, setHeldId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const pressRef = useRef<{
+    kind: ItemKind;
+    id: string;
+    pointerId: number;
+    x: number;
+    y: number;
+    held: boolean;
+    timer: ReturnType<typeof setTimeout>;
+  } | null>(null);
+  // The click that ends a long press shouldn't also open the sketch
+  const suppressClickRef = useRef(false);
+
+  const runBusy = async (key: string, task: () => Promise<void>) => {
+    setBusy(key);
+    try {
+      await task();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) runBusy('import', () => onImportArchive(file));
+  };
+
+  // Once a hold has completed the finger drags instead of scrolling. React's touch
+  // listeners are passive, so this needs a native one.
+  useEffect(() => {
+    const handleTouchMove = (e: TouchEvent) => {
+      if (pressRef.current?.held) e.preventDefault();
+    };
+    document.addEventListener('touchmove', handleTouchMove, { passive: false });
+    return () => document.removeEventListener('touchmove', handleTouchMove);
+  }, []);
+
+  // --- SEARCH ---
+
+  const filtering = isFilterActive(filter);
+
+  // Searches the stored library, again whenever it changes (e.g. a rename or a sync)
+  useEffect(() => {
+    if (!filtering) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      searchLibrary(filter)
+        .then(ids => { if (!cancelled) setResults(ids); })
+        .catch(e => console.error("Failed to search library", e));
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [filter, filtering, projects]);
+
+  const updateSavedFilters = (next: SavedFilter[]) => {
+    setSavedFilters(next);
+    saveSavedFilters(next);
+  };
+
+  const handleSaveFilter = (name: string) => {
+    updateSavedFilters([...savedFilters, { id: createId('filter'), name, filter }]);
+  };
+
+  // The sketches behind the result ids, as they are now
+  const sketchesById = new Map(projects.flatMap(project => project.sketches.map(sketch => [sketch.id, { project, sketch }] as const)));
+  const matches = (results ?? []).flatMap(id => sketchesById.get(id) ?? []);
+
+  // --- RENAMING ---
+
+  const startRename = (kind: ItemKind, id: string, name: string) => {
+    setRenaming({ kind, id });
+    setDraftName(name);
+  };
+
+  const commitRename = () => {
+    if (renaming && draftName.trim()) {
+      if (renaming.kind === 'project') onUpdateProject(renaming.id, { name: draftName.trim() });
+      else onRenameSketch(renaming.id, draftName.trim());
+    }
+    setRenaming(null);
+  };
+
+  const renameInput = (className: string) => (
+    <input
+      autoFocus
+      value={draftName}
+      onChange={(e) => setDraftName(e.target.value)}
+      onBlur={commitRename}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitRename();
+        if (e.key === 'Escape') setRenaming(null);
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => e.stopPropagation()}
+      className={`w-full bg-black/40 text-white rounded px-1 outline-none border border-gold/40 ${className}`}
+    />
+  );
+
+  const handleCreateProject = () => {
+    const project = onCreateProject();
+    startRename('project', project.id, project.name);
+  };
+
+  // --- MENUS ---
+
+  const openMoveMenu = (sketchIds: string[]) => {
+    const from = new Set(projects.filter(p => p.sketches.some(s => sketchIds.includes(s.id))).map(p => p.id));
+    setMenu({
+      title: 'Move to',
+      subtitle: `${sketchIds.length} sketch${sketchIds.length === 1 ? '' : 'es'}`,
+      actions: projects.map(project => ({
+        label: project.archived ? `${project.name} (archived)` : project.name,
+        icon: <Folder size={16} />,
+        // Moving within a single project is a reorder; use drag for that
+        disabled: from.size === 1 && from.has(project.id),
+        onSelect: () => {
+          onMoveSketches(sketchIds, project.id, null);
+          setSelected(null);
+        },
+      })),
+    });
+  };
+
+  const openSketchMenu = (project: Project, sketch: Sketch) => setMenu({
+    title: sketch.title,
+    subtitle: project.name,
+    actions: [
+      { label: 'Rename', icon: <Pencil size={16} />, onSelect: () => startRename('sketch', sketch.id, sketch.title) },
+      { label: 'Duplicate', icon: <Copy size={16} />, onSelect: () => onDuplicateSketches([sketch.id]) },
+      { label: 'Version History', icon: <History size={16} />, onSelect: () => onOpenHistory(sketch.id) },
+      { label: 'Move to…', icon: <FolderOutput size={16} />, onSelect: () => openMoveMenu([sketch.id]), disabled: projects.length < 2 },
+      { label: 'Select', icon: <ListChecks size={16} />, onSelect: () => setSelected([sketch.id]) },
+      { label: 'Move to Trash', icon: <Trash2 size={16} />, onSelect: () => onDeleteSketches([sketch.id]), destructive: true },
+    ],
+  });
+
+  const openProjectMenu = (project: Project) => setMenu({
+    title: project.name,
+    subtitle: `${project.sketches.length} sketch${project.sketches.length === 1 ? '' : 'es'}`,
+    actions: [
+      { label: 'Rename', icon: <Pencil size={16} />, onSelect: () => startRename('project', project.id, project.name) },
+      { label: 'Select Sketches', icon: <ListChecks size={16} />, onSelect: () => setSelected([]), disabled: project.sketches.length === 0 },
+      project.archived
+        ? { label: 'Unarchive', icon: <ArchiveRestore size={16} />, onSelect: () => onUpdateProject(project.id, { archived: false }) }
+        : { label: 'Archive', icon: <FolderArchive size={16} />, onSelect: () => onUpdateProject(project.id, { archived: true }) },
+      { label: 'Move to Trash', icon: <Trash2 size={16} />, onSelect: () => onDeleteProject(project.id), destructive: true },
+    ],
+  });
+
+  // --- LONG PRESS AND DRAG ---
+
+  const dropTargetAt = (x: number, y: number, kind: ItemKind): Drag['target'] => {
+    const hit = document.elementFromPoint(x, y);
+    const el = hit?.closest<HTMLElement>(kind === 'project' ? '[data-drop-kind="project"]' : '[data-drop-kind]');
+    if (!el?.dataset.dropKind || !el.dataset.dropId) return null;
+    const rect = el.getBoundingClientRect();
+    // Sketches sit side by side in the grid; projects are stacked
+    const after = el.dataset.dropKind === 'sketch'
+      ? x > rect.left + rect.width / 2
+      : y > rect.top + rect.height / 2;
+    return { kind: el.dataset.dropKind as ItemKind, id: el.dataset.dropId, after };
+  };
+
+  const updateDrag = (next: Drag | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  const endPress = () => {
+    if (pressRef.current) clearTimeout(pressRef.current.timer);
+    pressRef.current = null;
+    setHeldId(null);
+  };
+
+  const drop = ({ kind, id, target }: Drag) => {
+    if (!target) return;
+    if (kind === 'project') {
+      const index = projects.findIndex(p => p.id === target.id);
+      const beforeId = target.after ? projects[index + 1]?.id ?? null : target.id;
+      if (beforeId !== id) onMoveProject(id, beforeId);
+      return;
+    }
+    if (target.kind === 'project') {
+      // Dropped on a project but not on a sketch: to the end of it
+      onMoveSketches([id], target.id, null);
+      return;
+    }
+    const project = projects.find(p => p.sketches.some(s => s.id === target.id));
+    if (!project) return;
+    const index = project.sketches.findIndex(s => s.id === target.id);
+    const beforeId = target.after ? project.sketches[index + 1]?.id ?? null : target.id;
+    if (beforeId !== id) onMoveSketches([id], project.id, beforeId);
+  };
+
+  const pressHandlers = (kind: ItemKind, id: string, onLongPress: () => void, draggable = true) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      suppressClickRef.current = false;
+      if (e.button !== 0 || selected || renaming) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const timer = setTimeout(() => {
+        if (!pressRef.current) return;
+        pressRef.current.held = true;
+        navigator.vibrate?.(10);
+        setHeldId(id);
+      }, LONG_PRESS_MS);
+      pressRef.current = { kind, id, pointerId: e.pointerId, x: e.clientX, y: e.clientY, held: false, timer };
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const press = pressRef.current;
+      if (!press || press.pointerId !== e.pointerId) return;
+      const moved = Math.hypot(e.clientX - press.x, e.clientY - press.y) > PRESS_SLOP;
+      if (!press.held) {
+        if (moved) endPress();
+        return;
+      }
+      if (draggable && (moved || dragRef.current)) {
+        updateDrag({ kind, id, x: e.clientX, y: e.clientY, target: dropTargetAt(e.clientX, e.clientY, kind) });
+      }
+    },
+    onPointerUp: (e: React.PointerEvent) => {
+      const press = pressRef.current;
+      if (!press || press.pointerId !== e.pointerId) return;
+      endPress();
+      if (!press.held) return;
+      suppressClickRef.current = true;
+      if (dragRef.current) drop(dragRef.current);
+      else onLongPress();
+      updateDrag(null);
+    },
+    onPointerCancel: () => {
+      endPress();
+      updateDrag(null);
+    },
+    // Keep the browser's own long-press menu out of the way
+    onContextMenu: (e: React.MouseEvent) => e.preventDefault(),
+  });
+
+  // --- SELECTION ---
+
+  const toggleSelected = (sketchId: string) => {
+    setSelected(prev => prev && (prev.includes(sketchId) ? prev.filter(id => id !== sketchId) : [...prev, sketchId]));
+  };
+
+  const handleSketchClick = (project: Project, sketch: Sketch) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    if (selected) toggleSelected(sketch.id);
+    else if (renaming?.id !== sketch.id) onOpenSketch(project, sketch);
+  };
+
+  const dropIndicator = (kind: ItemKind, id: string) => {
+    const target = drag?.target;
+    if (!target || target.kind !== kind || target.id !== id || drag.id === id) return null;
+    if (kind === 'sketch') {
+      return <div className={`absolute top-0 bottom-0 w-1 bg-gold rounded-full z-10 ${target.after ? '-right-2.5' : '-left-2.5'}`} />;
+    }
+    // A sketch dropped on a project goes to its end; a project goes above or below
+    return drag.kind === 'sketch'
+      ? <div className="absolute inset-0 rounded-xl ring-2 ring-gold/60 pointer-events-none" />
+      : <div className={`absolute left-0 right-0 h-1 bg-gold rounded-full ${target.after ? '-bottom-4' : '-top-4'}`} />;
+  };
+
+  const activeProjects = projects.filter(p => !p.archived);
+  const archivedProjects = projects.filter(p => p.archived);
+  const draggedSketch = drag?.kind === 'sketch' ? projects.flatMap(p => p.sketches).find(s => s.id === drag.id) : undefined;
+  const draggedProject = drag?.kind === 'project' ? projects.find(p => p.id === drag.id) : undefined;
+
+  const renderSketch = (project: Project, sketch: Sketch, inResults = false) => {
+    const isSelected = selected?.includes(sketch.id) ?? false;
+    return (
+      <div
+        key={sketch.id}
+        // Search results aren't in project order, so they can't be drop targets
+        data-drop-kind={inResults ? undefined : 'sketch'}
+        data-drop-id={inResults ? undefined : sketch.id}
+        {...pressHandlers('sketch', sketch.id, () => openSketchMenu(project, sketch), !inResults)}
+        onClick={() => handleSketchClick(project, sketch)}
+        className={`group relative aspect-[3/4] bg-neutral-900 rounded-lg border transition-all cursor-pointer select-none ${isSelected ? 'border-gold ring-2 ring-gold/60' : 'border-white/5 hover:border-gold/50'} ${heldId === sketch.id ? 'scale-95' : ''} ${drag?.id === sketch.id ? 'opacity-40' : ''}`}
+        style={{ WebkitTouchCallout: 'none' }}
+      >
+        {dropIndicator('sketch', sketch.id)}
+        <div className="w-full h-full rounded-lg overflow-hidden relative">
+          {/* Thumbnail */}
+          <div className="w-full h-full bg-white flex items-center justify-center">
+             {sketch.thumbnail ? (
+               <img src={sketch.thumbnail} alt={sketch.title} draggable={false} className="w-full h-full object-cover" />
+             ) : (
+               <div className="opacity-10">
+                 <FileImage size={40} className="text-black" />
+               </div>
+             )}
+          </div>
+
+          {selected && (
+            <div className="absolute top-2 right-2 text-gold drop-shadow">
+              {isSelected ? <CheckCircle2 size={22} className="fill-charcoal" /> : <Circle size={22} className="text-white/70" />}
+            </div>
+          )}
+
+          {/* Overlay Info */}
+          <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-3 pt-8">
+            {sketch.tags.length > 0 && (
+              <div className="flex items-center gap-1 mb-1.5 overflow-hidden">
+                {sketch.tags.slice(0, 2).map(tag => (
+                  <button
+                    key={tag}
+                    // Tapping a tag searches for it
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setFilter({ ...DEFAULT_FILTER, text: `#${tag}` });
+                    }}
+                    className="px-1.5 py-0.5 rounded-full bg-gold/20 border border-gold/40 text-gold text-[10px] truncate max-w-[70%]"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+                {sketch.tags.length > 2 && <span className="text-gray-400 text-[10px]">+{sketch.tags.length - 2}</span>}
+              </div>
+            )}
+            {renaming?.kind === 'sketch' && renaming.id === sketch.id ? (
+              renameInput('text-sm')
+            ) : (
+              <h3 className="text-white font-medium text-sm truncate">{sketch.title}</h3>
+            )}
+            <div className="flex items-center justify-between mt-1">
+              <span className="text-xs text-gray-400 truncate">{inResults ? project.name : sketch.createdAt}</span>
+              {sketch.status === 'Ready for Atelier Sync' && (
+                <Cloud size={12} className="text-gold animate-pulse" />
+              )}
+              {sketch.status === 'Syncing' && (
+                <UploadCloud size={12} className="text-gold" />
+              )}
+              {sketch.status === 'Sync Failed' && (
+                <AlertTriangle size={12} className="text-red-400" />
+              )}
+              {sketch.status === 'Sync Conflict' && (
+                <GitBranch size={12} className="text-amber-400" />
+              )}
+              {sketch.status === 'Synced' && (
+                <CheckCircle2 size={12} className="text-green-500" />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderProject = (project: Project) => (
+    <div
+      key={project.id}
+      data-drop-kind="project"
+      data-drop-id={project.id}
+      className={`relative mb-8 transition-opacity ${project.archived ? 'opacity-70' : ''} ${drag?.id === project.id ? 'opacity-40' : ''}`}
+    >
+      {dropIndicator('project', project.id)}
+      <div className="flex items-center justify-between mb-4 px-2">
+        <div
+          {...pressHandlers('project', project.id, () => openProjectMenu(project))}
+          className={`flex-1 min-w-0 flex items-center space-x-2 text-gold-light select-none transition-transform ${heldId === project.id ? 'scale-95' : ''}`}
+          style={{ WebkitTouchCallout: 'none' }}
+        >
+          {project.archived ? <FolderArchive size={20} className="shrink-0" /> : <Folder size={20} className="shrink-0" />}
+          {renaming?.kind === 'project' && renaming.id === project.id ? (
+            renameInput('text-lg font-serif')
+          ) : (
+            <h2 className="text-xl font-serif tracking-wide truncate">{project.name}</h2>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => runBusy(`archive:${project.id}`, () => onExportArchive(project))}
+            disabled={busy !== null || project.sketches.length === 0}
+            className={`p-2 rounded-full text-gold hover:bg-white/10 disabled:opacity-30 ${busy === `archive:${project.id}` ? 'animate-pulse' : ''}`}
+          >
+            <Archive size={20} />
+          </button>
+          <button
+            onClick={() => runBusy(`lookbook:${project.id}`, () => onExportLookbook(project))}
+            disabled={busy !== null || project.sketches.length === 0}
+            className={`p-2 rounded-full text-gold hover:bg-white/10 disabled:opacity-30 ${busy === `lookbook:${project.id}` ? 'animate-pulse' : ''}`}
+          >
+            <BookOpen size={20} />
+          </button>
+          <button
+            onClick={() => onCreateSketch(project.id)}
+            className="p-2 bg-burgundy rounded-full text-white shadow-luxury hover:scale-105 transition-transform active:scale-95"
+          >
+            <Plus size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {project.sketches.map(sketch => renderSketch(project, sketch))}
+
+        {project.sketches.length === 0 && (
+          <div className="col-span-2 py-8 text-center border border-dashed border-white/10 rounded-lg">
+            <p className="text-gray-500 text-sm">No sketches in this collection.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-full bg-charcoal">
       {/* Header */}
-      <header className="px-6 pt-12 pb-6 bg-gradient-to-b from-burgundy/20 to-transparent">
-        <h1 className="text-4xl font-serif text-gold drop-shadow-lg tracking-wide">Atelier</h1>
-        <p className="text-gray-400 text-sm mt-1 tracking-widest uppercase">Mobile Creative Suite</p>
+      <header className="px-6 pt-12 pb-6 bg-gradient-to-b from-burgundy/20 to-transparent flex items-start justify-between">
+        <div>
+          <h1 className="text-4xl font-serif text-gold drop-shadow-lg tracking-wide">Atelier</h1>
+          <p className="text-gray-400 text-sm mt-1 tracking-widest uppercase">Mobile Creative Suite</p>
+        </div>
+        <div className="mt-2 flex items-center space-x-1">
+          {onInstall && (
+            <button
+              onClick={onInstall}
+              className="mr-1 flex items-center space-x-2 px-3 py-2 rounded-lg border border-gold/40 text-gold text-xs uppercase tracking-wide hover:bg-white/10"
+            >
+              <Download size={14} />
+              <span>Install</span>
+            </button>
+          )}
+          <button onClick={handleCreateProject} className="p-2 rounded-lg text-white/70 hover:text-gold">
+            <FolderPlus size={20} />
+          </button>
+          {/* Library backup and restore */}
+          <button
+            onClick={() => runBusy('library', () => onExportArchive())}
+            disabled={busy !== null}
+            className={`p-2 rounded-lg text-white/70 hover:text-gold disabled:opacity-30 ${busy === 'library' ? 'animate-pulse' : ''}`}
+          >
+            <Archive size={20} />
+          </button>
+          <label className={`p-2 rounded-lg text-white/70 hover:text-gold cursor-pointer ${busy === 'import' ? 'animate-pulse pointer-events-none' : ''}`}>
+            <input type="file" accept=".atelier,.zip" className="hidden" onChange={handleImport} />
+            <FolderInput size={20} />
+          </label>
+          <button onClick={onOpenTrash} className="relative p-2 rounded-lg text-white/70 hover:text-gold">
+            <Trash2 size={20} />
+            {trashCount > 0 && (
+              <span className="absolute top-0.5 right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-burgundy text-white text-[10px] leading-4 text-center">
+                {trashCount}
+              </span>
+            )}
+          </button>
+        </div>
       </header>
 
+      <SearchBar
+        filter={filter}
+        onChange={setFilter}
+        resultCount={results && matches.length}
+        savedFilters={savedFilters}
+        onSaveFilter={handleSaveFilter}
+        onDeleteSavedFilter={(id) => updateSavedFilters(savedFilters.filter(f => f.id !== id))}
+      />
+
       {/* Content */}
       <div className="flex-1 overflow-y-auto px-4 pb-20 no-scrollbar">
-        {projects.map(project => (
-          <div key={project.id} className="mb-8">
-            <div className="flex items-center justify-between mb-4 px-2">
-              <div className="flex items-center space-x-2 text-gold-light">
-                <Folder size={20} />
-                <h2 className="text-xl font-serif tracking-wide">{project.name}</h2>
+        {filtering ? (
+          <div className="grid grid-cols-2 gap-4">
+            {matches.map(({ project, sketch }) => renderSketch(project, sketch, true))}
+            {results && matches.length === 0 && (
+              <div className="col-span-2 py-8 text-center border border-dashed border-white/10 rounded-lg">
+                <p className="text-gray-500 text-sm">No sketches match.</p>
               </div>
-              <button 
-                onClick={() => onCreateSketch(project.id)}
-                className="p-2 bg-burgundy rounded-full text-white shadow-luxury hover:scale-105 transition-transform active:scale-95"
-              >
-                <Plus size={20} />
-              </button>
-            </div>
+            )}
+          </div>
+        ) : activeProjects.map(renderProject)}
 
-            <div className="grid grid-cols-2 gap-4">
-              {project.sketches.map(sketch => (
-                <div 
-                  key={sketch.id} 
-                  onClick={() => onOpenSketch(project, sketch)}
-                  className="group relative aspect-[3/4] bg-neutral-900 rounded-lg overflow-hidden border border-white/5 hover:border-gold/50 transition-colors cursor-pointer"
-                >
-                  {/* Thumbnail */}
-                  <div className="w-full h-full bg-white flex items-center justify-center">
-                     {sketch.thumbnail ? (
-                       <img src={sketch.thumbnail} alt={sketch.title} className="w-full h-full object-cover" />
-                     ) : (
-                       <div className="opacity-10">
-                         <FileImage size={40} className="text-black" />
-                       </div>
-                     )}
-                  </div>
-
-                  {/* Overlay Info */}
-                  <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-3 pt-8">
-                    <h3 className="text-white font-medium text-sm truncate">{sketch.title}</h3>
-                    <div className="flex items-center justify-between mt-1">
-                      <span className="text-xs text-gray-400">{sketch.createdAt}</span>
-                      {sketch.status === 'Ready for Atelier Sync' && (
-                        <Cloud size={12} className="text-gold animate-pulse" />
-                      )}
-                      {sketch.status === 'Synced' && (
-                        <CheckCircle2 size={12} className="text-green-500" />
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))}
-              
-              {project.sketches.length === 0 && (
-                <div className="col-span-2 py-8 text-center border border-dashed border-white/10 rounded-lg">
-                  <p className="text-gray-500 text-sm">No sketches in this collection.</p>
-                </div>
-              )}
-            </div>
+        {!filtering && archivedProjects.length > 0 && (
+          <div className="mb-8">
+            <button
+              onClick={() => setShowArchived(show => !show)}
+              className="w-full flex items-center space-x-2 px-2 py-3 text-gray-400 text-xs uppercase tracking-widest hover:text-gold"
+            >
+              {showArchived ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              <span>Archived ({archivedProjects.length})</span>
+            </button>
+            {showArchived && archivedProjects.map(renderProject)}
           </div>
-        ))}
+        )}
       </div>
+
+      {/* Selection actions */}
+      {selected && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-1 px-3 py-2 bg-charcoal/95 backdrop-blur-md border border-gold/40 rounded-full shadow-luxury animate-in fade-in slide-in-from-bottom-4">
+          <button onClick={() => setSelected(null)} className="p-2 text-white/60 hover:text-white">
+            <X size={18} />
+          </button>
+          <span className="px-2 text-white text-xs whitespace-nowrap">{selected.length} selected</span>
+          <button
+            onClick={() => openMoveMenu(selected)}
+            disabled={selected.length === 0 || projects.length < 2}
+            className="p-2 text-gold hover:bg-white/10 rounded-full disabled:opacity-30"
+          >
+            <FolderOutput size={18} />
+          </button>
+          <button
+            onClick={() => {
+              onDuplicateSketches(selected);
+              setSelected(null);
+            }}
+            disabled={selected.length === 0}
+            className="p-2 text-gold hover:bg-white/10 rounded-full disabled:opacity-30"
+          >
+            <Copy size={18} />
+          </button>
+          <button
+            onClick={() => {
+              onDeleteSketches(selected);
+              setSelected(null);
+            }}
+            disabled={selected.length === 0}
+            className="p-2 text-red-400 hover:bg-white/10 rounded-full disabled:opacity-30"
+          >
+            <Trash2 size={18} />
+          </button>
+        </div>
+      )}
+
+      {/* What's being dragged follows the finger */}
+      {drag && (draggedSketch || draggedProject) && (
+        <div
+          className="fixed z-[70] pointer-events-none -translate-x-1/2 -translate-y-1/2 shadow-luxury rounded-lg border border-gold/60 bg-charcoal/95 overflow-hidden"
+          style={{ left: drag.x, top: drag.y }}
+        >
+          {draggedSketch ? (
+            <div className="w-24 aspect-[3/4] bg-white flex items-center justify-center">
+              {draggedSketch.thumbnail
+                ? <img src={draggedSketch.thumbnail} alt={draggedSketch.title} className="w-full h-full object-cover" />
+                : <FileImage size={24} className="text-black opacity-10" />}
+            </div>
+          ) : (
+            <div className="px-4 py-2 flex items-center space-x-2 text-gold-light">
+              <Folder size={16} />
+              <span className="font-serif whitespace-nowrap">{draggedProject?.name}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {menu && <ActionSheet {...menu} onClose={() => setMenu(null)} />}
     </div>
   );
 };
 
-export default Gallery;
\ No newline at end of file
+export default Gallery;
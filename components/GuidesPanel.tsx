@@ -0,0 +1,70 @@
+import React from 'react';
+import { Slash, Waypoints, Circle, Square, Ruler, Spline, Grid3x3, SeparatorVertical } from 'lucide-react';
+import { OverlaySettings } from '../services/preferences';
+import { GuideKind, ShapeKind } from '../utils/guides';
+
+interface GuidesPanelProps {
+  shape: ShapeKind | null; // Shape drawn instead of freehand strokes
+  guide: GuideKind | null; // Guide laid on the page
+  overlays: OverlaySettings;
+  onShape: (shape: ShapeKind | null) => void;
+  onGuide: (guide: GuideKind | null) => void;
+  onOverlays: (patch: Partial<OverlaySettings>) => void;
+}
+
+const SHAPES: { kind: ShapeKind; label: string; icon: React.ReactNode }[] = [
+  { kind: 'line', label: 'Line', icon: <Slash size={18} /> },
+  { kind: 'polyline', label: 'Polyline', icon: <Waypoints size={18} /> },
+  { kind: 'ellipse', label: 'Ellipse', icon: <Circle size={18} /> },
+  { kind: 'rect', label: 'Rectangle', icon: <Square size={18} /> },
+];
+
+const GUIDES: { kind: GuideKind; label: string; icon: React.ReactNode }[] = [
+  { kind: 'ruler', label: 'Ruler', icon: <Ruler size={18} /> },
+  { kind: 'french-curve', label: 'French Curve', icon: <Spline size={18} /> },
+];
+
+const optionClass = (active: boolean) =>
+  `flex flex-col items-center space-y-1 py-2 rounded-lg border transition-colors ${active ? 'border-gold bg-white/10 text-gold' : 'border-white/10 text-white/70 hover:text-white hover:border-white/30'}`;
+
+const GuidesPanel: React.FC<GuidesPanelProps> = ({ shape, guide, overlays, onShape, onGuide, onOverlays }) => (
+  <div className="absolute bottom-28 left-6 w-72 bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-3 space-y-3 animate-in fade-in slide-in-from-bottom-4">
+    <div className="space-y-2">
+      <div className="text-xs text-gray-500 uppercase tracking-wider">Shapes</div>
+      <div className="grid grid-cols-4 gap-2">
+        {/* Tapping the chosen shape goes back to freehand */}
+        {SHAPES.map(({ kind, label, icon }) => (
+          <button key={kind} onClick={() => onShape(shape === kind ? null : kind)} className={optionClass(shape === kind)}>
+            {icon}
+            <span className="text-[9px] uppercase tracking-widest">{label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div className="pt-2 border-t border-white/10 space-y-2">
+      <div className="text-xs text-gray-500 uppercase tracking-wider">Guides</div>
+      <div className="grid grid-cols-2 gap-2">
+        {GUIDES.map(({ kind, label, icon }) => (
+          <button key={kind} onClick={() => onGuide(guide === kind ? null : kind)} className={optionClass(guide === kind)}>
+            {icon}
+            <span className="text-[9px] uppercase tracking-widest">{label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div className="pt-2 border-t border-white/10 grid grid-cols-2 gap-2">
+      <button onClick={() => onOverlays({ grid: !overlays.grid })} className={optionClass(overlays.grid)}>
+        <Grid3x3 size={18} />
+        <span className="text-[9px] uppercase tracking-widest">Grid</span>
+      </button>
+      <button onClick={() => onOverlays({ centerLines: !overlays.centerLines })} className={optionClass(overlays.centerLines)}>
+        <SeparatorVertical size={18} />
+        <span className="text-[9px] uppercase tracking-widest">Centre Lines</span>
+      </button>
+    </div>
+  </div>
+);
+
+export default GuidesPanel;
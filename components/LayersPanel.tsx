@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, FileX2, Lock, Unlock, Plus, Share2, Trash2 } from 'lucide-react';
+import { BlendMode, Layer } from '../types';
+import { BLEND_MODES, blendModeLabel } from '../utils/layers';
+import { MAX_REFERENCE_SCALE, MIN_REFERENCE_SCALE, adjustReference } from '../utils/reference';
+
+interface LayersPanelProps {
+  layers: Layer[]; // Bottom to top
+  activeLayerId: string;
+  onSelect: (layerId: string) => void;
+  onAdd: () => void;
+  onDelete: (layerId: string) => void;
+  onMove: (layerId: string, direction: 1 | -1) => void;
+  onUpdate: (layerId: string, patch: Partial<Layer>) => void;
+}
+
+const LayersPanel: React.FC<LayersPanelProps> = ({ layers, activeLayerId, onSelect, onAdd, onDelete, onMove, onUpdate }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const activeLayer = layers.find(l => l.id === activeLayerId);
+
+  const startRename = (layer: Layer) => {
+    setRenamingId(layer.id);
+    setDraftName(layer.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onUpdate(renamingId, { name: draftName.trim() });
+    }
+    setRenamingId(null);
+  };
+
+  // Tapping the active layer's name renames it; tapping any other row selects it
+  const handleNameClick = (e: React.MouseEvent, layer: Layer) => {
+    if (layer.id === activeLayerId) {
+      e.stopPropagation();
+      startRename(layer);
+    }
+  };
+
+  // Render top of the stack first, like every other layers panel
+  const displayed = [...layers].reverse();
+
+  return (
+    <div className="absolute top-16 right-4 w-64 bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-3 space-y-2 animate-in fade-in slide-in-from-top-4">
+      <div className="flex items-center justify-between text-xs text-gray-500 uppercase tracking-wider mb-2">
+        <span>Layers</span>
+        <button onClick={onAdd} className="p-1 rounded text-gold hover:bg-white/10">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto no-scrollbar space-y-2">
+        {displayed.map((layer, displayIndex) => {
+          const isActive = layer.id === activeLayerId;
+          return (
+            <div
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={`p-2 rounded-lg flex items-center space-x-2 cursor-pointer border ${isActive ? 'bg-white/10 border-gold/30' : 'bg-white/5 border-transparent'} ${layer.visible ? '' : 'opacity-60'}`}
+            >
+              <button
+                onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { visible: !layer.visible }); }}
+                className="p-1 text-white/70 hover:text-gold"
+              >
+                {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+              </button>
+
+              <div className="flex-1 min-w-0">
+                {renamingId === layer.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-full bg-black/40 text-white text-sm rounded px-1 outline-none border border-gold/40"
+                  />
+                ) : (
+                  <p onClick={(e) => handleNameClick(e, layer)} className="text-white text-sm font-medium truncate">
+                    {layer.name}
+                  </p>
+                )}
+                <p className={`text-xs ${isActive ? 'text-gold' : 'text-gray-400'}`}>
+                  {layer.underlay ? 'Template' : layer.reference ? 'Reference' : blendModeLabel(layer.blendMode)} • {layer.opacity}%
+                </p>
+              </div>
+
+              {(layer.underlay || layer.reference) && (
+                // Whether the template or photo goes out with the drawing
+                <button
+                  onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { excludeFromExport: !layer.excludeFromExport }); }}
+                  className={`p-1 ${layer.excludeFromExport ? 'text-white/40 hover:text-white' : 'text-gold'}`}
+                >
+                  {layer.excludeFromExport ? <FileX2 size={14} /> : <Share2 size={14} />}
+                </button>
+              )}
+
+              {/* Underlays and photos stay locked so nothing is drawn onto them by mistake */}
+              <button
+                onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { locked: !layer.locked }); }}
+                disabled={layer.underlay || !!layer.reference}
+                className={`p-1 disabled:opacity-60 ${layer.locked ? 'text-gold' : 'text-white/40 hover:text-white'}`}
+              >
+                {layer.locked ? <Lock size={14} /> : <Unlock size={14} />}
+              </button>
+
+              <div className="flex flex-col">
+                <button
+                  onClick={(e) => { e.stopPropagation(); onMove(layer.id, 1); }}
+                  disabled={displayIndex === 0}
+                  className="text-white/50 hover:text-white disabled:opacity-20"
+                >
+                  <ChevronUp size={12} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onMove(layer.id, -1); }}
+                  disabled={displayIndex === displayed.length - 1}
+                  className="text-white/50 hover:text-white disabled:opacity-20"
+                >
+                  <ChevronDown size={12} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="p-2 bg-white/5 border border-transparent rounded-lg flex items-center space-x-3 opacity-60">
+          <div className="w-8 h-8 bg-white rounded border border-white/20"></div>
+          <div>
+            <p className="text-white text-sm font-medium">Paper</p>
+            <p className="text-gray-400 text-xs">Locked</p>
+          </div>
+        </div>
+      </div>
+
+      {activeLayer && (
+        <div className="pt-2 border-t border-white/10 space-y-2">
+          <div className="flex items-center space-x-2">
+            <span className="text-[10px] uppercase tracking-widest text-gold w-12">Opac</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={activeLayer.opacity}
+              onChange={(e) => onUpdate(activeLayer.id, { opacity: Number(e.target.value) })}
+              className="flex-1 accent-[#D4AF37]"
+            />
+          </div>
+          {activeLayer.reference && (
+            <>
+              <div className="flex items-center space-x-2">
+                <span className="text-[10px] uppercase tracking-widest text-gold w-12">Scale</span>
+                <input
+                  type="range"
+                  min={MIN_REFERENCE_SCALE * 100}
+                  max={MAX_REFERENCE_SCALE * 100}
+                  value={Math.round(activeLayer.reference.scale * 100)}
+                  onChange={(e) => onUpdate(activeLayer.id, { reference: adjustReference(activeLayer.reference!, { scale: Number(e.target.value) / 100 }) })}
+                  className="flex-1 accent-[#D4AF37]"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="text-[10px] uppercase tracking-widest text-gold w-12">Turn</span>
+                <input
+                  type="range"
+                  min={-180}
+                  max={180}
+                  value={Math.round(activeLayer.reference.rotation * 180 / Math.PI)}
+                  onChange={(e) => onUpdate(activeLayer.id, { reference: adjustReference(activeLayer.reference!, { rotation: Number(e.target.value) * Math.PI / 180 }) })}
+                  className="flex-1 accent-[#D4AF37]"
+                />
+              </div>
+            </>
+          )}
+          <div className="flex items-center space-x-2">
+            <span className="text-[10px] uppercase tracking-widest text-gold w-12">Blend</span>
+            <select
+              value={activeLayer.blendMode}
+              onChange={(e) => onUpdate(activeLayer.id, { blendMode: e.target.value as BlendMode })}
+              className="flex-1 bg-black/40 text-white text-xs rounded px-2 py-1 border border-white/10 outline-none"
+            >
+              {BLEND_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onDelete(activeLayer.id)}
+              disabled={layers.length <= 1}
+              className="p-1 text-white/60 hover:text-red-400 disabled:opacity-20"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayersPanel;
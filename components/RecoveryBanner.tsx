@@ -0,0 +1,30 @@
+import React from 'react';
+import { LifeBuoy } from 'lucide-react';
+
+interface RecoveryBannerProps {
+  title: string; // Of the sketch with unsaved work
+  onOpen: () => void;
+  onDiscard: () => void;
+}
+
+// Shown after a launch that found unsaved work left behind, e.g. by a closed tab
+const RecoveryBanner: React.FC<RecoveryBannerProps> = ({ title, onOpen, onDiscard }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[80] flex items-center space-x-3 pl-4 pr-2 py-2 bg-charcoal/95 backdrop-blur-md border border-gold/40 rounded-full shadow-luxury animate-in fade-in slide-in-from-bottom-4">
+    <LifeBuoy size={14} className="text-gold shrink-0" />
+    <span className="text-white text-xs truncate max-w-[14rem]">Unsaved work on "{title}" was recovered</span>
+    <button
+      onClick={onDiscard}
+      className="px-3 py-1 rounded-full text-white/60 text-xs uppercase tracking-wide hover:text-white"
+    >
+      Discard
+    </button>
+    <button
+      onClick={onOpen}
+      className="px-3 py-1 rounded-full bg-gradient-to-r from-gold to-gold-light text-charcoal text-xs font-bold uppercase tracking-wide"
+    >
+      Open
+    </button>
+  </div>
+);
+
+export default RecoveryBanner;
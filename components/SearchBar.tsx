@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Bookmark, BookmarkPlus, Search, SlidersHorizontal, X } from 'lucide-react';
+import { LibraryFilter, SavedFilter, SketchStatus, SortKey } from '../types';
+import { DEFAULT_FILTER, STATUS_LABELS, isFilterActive, sameFilter } from '../utils/search';
+
+interface SearchBarProps {
+  filter: LibraryFilter;
+  onChange: (filter: LibraryFilter) => void;
+  resultCount: number | null; // null until the current filter's results are in
+  savedFilters: SavedFilter[];
+  onSaveFilter: (name: string) => void;
+  onDeleteSavedFilter: (id: string) => void;
+}
+
+const SORTS: { value: SortKey; label: string }[] = [
+  { value: 'updatedAt', label: 'Modified' },
+  { value: 'createdAt', label: 'Created' },
+  { value: 'title', label: 'Title' },
+];
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs border whitespace-nowrap ${active ? 'bg-gold/20 border-gold text-gold' : 'bg-white/5 border-white/10 text-gray-300 hover:border-white/30'}`;
+
+const SearchBar: React.FC<SearchBarProps> = ({ filter, onChange, resultCount, savedFilters, onSaveFilter, onDeleteSavedFilter }) => {
+  const [showOptions, setShowOptions] = useState(false);
+  const [saveName, setSaveName] = useState('');
+
+  const active = isFilterActive(filter);
+  const update = (patch: Partial<LibraryFilter>) => onChange({ ...filter, ...patch });
+
+  const toggleStatus = (status: SketchStatus) => update({
+    statuses: filter.statuses.includes(status) ? filter.statuses.filter(s => s !== status) : [...filter.statuses, status],
+  });
+
+  const handleSave = () => {
+    if (!saveName.trim()) return;
+    onSaveFilter(saveName.trim());
+    setSaveName('');
+  };
+
+  return (
+    <div className="px-4 pb-4 space-y-3">
+      <div className="flex items-center space-x-2">
+        <div className="flex-1 flex items-center space-x-2 px-3 py-2 bg-white/5 border border-white/10 rounded-lg focus-within:border-gold/50">
+          <Search size={16} className="text-gray-500 shrink-0" />
+          <input
+            type="search"
+            value={filter.text}
+            onChange={(e) => update({ text: e.target.value })}
+            placeholder="Search sketches, notes, #tags"
+            className="flex-1 min-w-0 bg-transparent text-white text-sm outline-none placeholder:text-gray-500"
+          />
+          {active && (
+            <button onClick={() => onChange(DEFAULT_FILTER)} className="text-white/50 hover:text-white">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setShowOptions(show => !show)}
+          className={`p-2 rounded-lg border ${showOptions ? 'border-gold text-gold' : 'border-white/10 text-white/70 hover:text-gold'}`}
+        >
+          <SlidersHorizontal size={18} />
+        </button>
+      </div>
+
+      {savedFilters.length > 0 && (
+        <div className="flex items-center space-x-2 overflow-x-auto no-scrollbar">
+          {savedFilters.map(saved => {
+            const applied = sameFilter(saved.filter, filter);
+            return (
+              <div key={saved.id} className={`flex items-center space-x-1 ${chipClass(applied)}`}>
+                <button onClick={() => onChange(applied ? DEFAULT_FILTER : saved.filter)} className="flex items-center space-x-1">
+                  <Bookmark size={12} />
+                  <span>{saved.name}</span>
+                </button>
+                {applied && (
+                  <button onClick={() => onDeleteSavedFilter(saved.id)} className="pl-1 text-gold/70 hover:text-red-400">
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showOptions && (
+        <div className="p-3 bg-white/5 border border-white/10 rounded-xl space-y-3 animate-in fade-in slide-in-from-top-4">
+          <div>
+            <div className="text-[10px] uppercase tracking-widest text-gold mb-2">Status</div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STATUS_LABELS) as SketchStatus[]).map(status => (
+                <button key={status} onClick={() => toggleStatus(status)} className={chipClass(filter.statuses.includes(status))}>
+                  {STATUS_LABELS[status]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] uppercase tracking-widest text-gold">Date</span>
+              <div className="flex space-x-1">
+                {(['updatedAt', 'createdAt'] as const).map(field => (
+                  <button key={field} onClick={() => update({ dateField: field })} className={chipClass(filter.dateField === field)}>
+                    {field === 'updatedAt' ? 'Modified' : 'Created'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={filter.from ?? ''}
+                max={filter.to}
+                onChange={(e) => update({ from: e.target.value || undefined })}
+                className="flex-1 min-w-0 bg-black/40 text-white text-xs rounded px-2 py-1 border border-white/10 outline-none [color-scheme:dark]"
+              />
+              <span className="text-gray-500 text-xs">to</span>
+              <input
+                type="date"
+                value={filter.to ?? ''}
+                min={filter.from}
+                onChange={(e) => update({ to: e.target.value || undefined })}
+                className="flex-1 min-w-0 bg-black/40 text-white text-xs rounded px-2 py-1 border border-white/10 outline-none [color-scheme:dark]"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[10px] uppercase tracking-widest text-gold mb-2">Sort</div>
+            <div className="flex items-center space-x-2">
+              {SORTS.map(sort => (
+                <button key={sort.value} onClick={() => update({ sort: sort.value })} className={chipClass(filter.sort === sort.value)}>
+                  {sort.label}
+                </button>
+              ))}
+              <button onClick={() => update({ descending: !filter.descending })} className="ml-auto p-1 text-white/70 hover:text-gold">
+                {filter.descending ? <ArrowDownWideNarrow size={16} /> : <ArrowUpNarrowWide size={16} />}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2 pt-3 border-t border-white/10">
+            <input
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              placeholder="Name this filter"
+              disabled={!active}
+              className="flex-1 min-w-0 bg-black/40 text-white text-xs rounded px-2 py-1.5 border border-white/10 outline-none disabled:opacity-30"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!active || !saveName.trim()}
+              className="p-1.5 rounded text-gold hover:bg-white/10 disabled:opacity-30"
+            >
+              <BookmarkPlus size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {active && resultCount !== null && (
+        <p className="px-1 text-xs text-gray-500">{resultCount} sketch{resultCount === 1 ? '' : 'es'} found</p>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { FileImage, GitBranch, GitCompare, History, RotateCcw, Trash2, X } from 'lucide-react';
+import { Sketch, Snapshot } from '../types';
+import SnapshotCompare, { CompareVersion } from './SnapshotCompare';
+
+interface SnapshotBrowserProps {
+  sketch: Sketch;
+  snapshots: Snapshot[] | null; // Newest first; null while loading
+  onRestore: (snapshot: Snapshot) => void;
+  onBranch: (snapshot: Snapshot) => void;
+  onDelete: (snapshotId: string) => void;
+  onClose: () => void;
+}
+
+// Stands for the sketch as it is now among the picked versions
+const CURRENT = 'current';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SnapshotBrowser: React.FC<SnapshotBrowserProps> = ({ sketch, snapshots, onRestore, onBranch, onDelete, onClose }) => {
+  // Restoring replaces the sketch and deleting can't be undone, so both take a
+  // second tap: 'restore:' or 'delete:' and the snapshot id
+  const [confirming, setConfirming] = useState<string | null>(null);
+  // Up to two versions to compare, in the order they were picked
+  const [picked, setPicked] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+
+  const confirm = (key: string, action: () => void) => {
+    if (confirming !== key) {
+      setConfirming(key);
+      return;
+    }
+    setConfirming(null);
+    action();
+  };
+
+  // Picking a third version lets go of the first
+  const togglePicked = (id: string) => setPicked(prev => (
+    prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id].slice(-2)
+  ));
+
+  // Newest first, like the list, with the sketch as it is now on top
+  const versions: (CompareVersion & { id: string })[] = [
+    { id: CURRENT, label: 'Current', image: sketch.thumbnail },
+    ...(snapshots ?? []).map(s => ({ id: s.id, label: s.name, image: s.thumbnail })),
+  ];
+  // The older of the two goes first
+  const [after, before] = versions.filter(v => picked.includes(v.id));
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-charcoal border border-gold/40 rounded-2xl shadow-luxury p-5 space-y-4">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-2 text-gold min-w-0">
+            <History size={18} className="shrink-0" />
+            <h3 className="font-serif text-lg truncate">{sketch.title}</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-white/60 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-gray-400 text-xs">
+          A version is kept each time the sketch is saved. Tap two versions to compare them.
+        </p>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar space-y-2">
+          <button
+            onClick={() => togglePicked(CURRENT)}
+            className={`w-full p-2 rounded-lg flex items-center space-x-3 text-left border ${picked.includes(CURRENT) ? 'border-gold bg-white/10' : 'border-transparent bg-white/5'}`}
+          >
+            <div className="w-10 h-12 bg-white rounded overflow-hidden flex items-center justify-center shrink-0">
+              {sketch.thumbnail
+                ? <img src={sketch.thumbnail} alt="Current" className="w-full h-full object-cover" />
+                : <FileImage size={18} className="text-black opacity-10" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-white text-sm font-medium">Current</p>
+              <p className="text-gray-400 text-xs">{formatDate(sketch.updatedAt)}</p>
+            </div>
+          </button>
+
+          {snapshots?.map(snapshot => (
+            <div
+              key={snapshot.id}
+              className={`p-2 rounded-lg flex items-center space-x-3 border ${picked.includes(snapshot.id) ? 'border-gold bg-white/10' : 'border-transparent bg-white/5'}`}
+            >
+              <button onClick={() => togglePicked(snapshot.id)} className="flex-1 min-w-0 flex items-center space-x-3 text-left">
+                <div className="w-10 h-12 bg-white rounded overflow-hidden shrink-0">
+                  <img src={snapshot.thumbnail} alt={snapshot.name} className="w-full h-full object-cover" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-medium truncate ${snapshot.auto ? 'text-gray-300' : 'text-white'}`}>{snapshot.name}</p>
+                  <p className="text-gray-400 text-xs">{formatDate(snapshot.createdAt)}</p>
+                </div>
+              </button>
+              <button
+                onClick={() => confirm(`restore:${snapshot.id}`, () => onRestore(snapshot))}
+                className={`p-2 rounded-lg ${confirming === `restore:${snapshot.id}` ? 'bg-burgundy text-gold' : 'text-gold hover:bg-white/10'}`}
+              >
+                <RotateCcw size={16} />
+              </button>
+              <button onClick={() => onBranch(snapshot)} className="p-2 text-gold hover:bg-white/10 rounded-lg">
+                <GitBranch size={16} />
+              </button>
+              <button
+                onClick={() => confirm(`delete:${snapshot.id}`, () => {
+                  setPicked(prev => prev.filter(p => p !== snapshot.id));
+                  onDelete(snapshot.id);
+                })}
+                className={`p-2 rounded-lg ${confirming === `delete:${snapshot.id}` ? 'text-red-400 bg-red-900/30' : 'text-white/50 hover:text-red-400'}`}
+              >
+                {confirming === `delete:${snapshot.id}` ? <Trash2 size={16} /> : <X size={16} />}
+              </button>
+            </div>
+          ))}
+
+          {snapshots === null && (
+            <p className="py-8 text-center text-gold text-xs uppercase tracking-widest animate-pulse">Loading versions...</p>
+          )}
+          {snapshots?.length === 0 && (
+            <div className="py-8 text-center border border-dashed border-white/10 rounded-lg">
+              <p className="text-gray-500 text-sm">No versions yet. Save the sketch to keep one.</p>
+            </div>
+          )}
+        </div>
+
+        {confirming?.startsWith('restore:') && (
+          <p className="text-gray-400 text-xs">Tap again to restore. The sketch as it is now is kept as a version first.</p>
+        )}
+
+        <button
+          onClick={() => setComparing(true)}
+          disabled={picked.length < 2}
+          className="w-full flex items-center justify-center space-x-2 py-2 rounded-lg border border-gold/40 text-gold text-xs uppercase tracking-wide hover:bg-white/10 disabled:opacity-30"
+        >
+          <GitCompare size={14} />
+          <span>Compare</span>
+        </button>
+      </div>
+
+      {comparing && before && after && (
+        <SnapshotCompare before={before} after={after} onClose={() => setComparing(false)} />
+      )}
+    </div>
+  );
+};
+
+export default SnapshotBrowser;
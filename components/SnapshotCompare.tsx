@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Columns2, Layers2, X } from 'lucide-react';
+
+export interface CompareVersion {
+  label: string;
+  image?: string; // Flattened page
+}
+
+interface SnapshotCompareProps {
+  before: CompareVersion;
+  after: CompareVersion;
+  onClose: () => void;
+}
+
+type CompareMode = 'side-by-side' | 'onion-skin';
+
+const VersionImage: React.FC<{ version: CompareVersion; className?: string; style?: React.CSSProperties }> = ({ version, className = '', style }) => (
+  version.image
+    ? <img src={version.image} alt={version.label} className={`max-w-full max-h-full object-contain bg-white ${className}`} style={style} />
+    : <div className={`w-full h-full flex items-center justify-center text-gray-500 text-sm ${className}`} style={style}>No preview</div>
+);
+
+// Two versions of a sketch next to each other, or laid one over the other with the
+// later one faded in, so a change in silhouette shows at a glance
+const SnapshotCompare: React.FC<SnapshotCompareProps> = ({ before, after, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  // How much of the later version shows over the earlier one, 0-100
+  const [mix, setMix] = useState(50);
+
+  return (
+    <div className="fixed inset-0 bg-black z-[70] flex flex-col">
+      <div className="flex items-center justify-between p-4">
+        <button onClick={onClose} className="p-2 text-white/80 hover:text-gold">
+          <X size={24} />
+        </button>
+        <span className="font-serif text-white/70 text-sm tracking-wider">Compare Versions</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setMode('side-by-side')}
+            className={`p-2 rounded-lg ${mode === 'side-by-side' ? 'bg-burgundy text-gold' : 'text-white/70 hover:text-gold'}`}
+          >
+            <Columns2 size={20} />
+          </button>
+          <button
+            onClick={() => setMode('onion-skin')}
+            className={`p-2 rounded-lg ${mode === 'onion-skin' ? 'bg-burgundy text-gold' : 'text-white/70 hover:text-gold'}`}
+          >
+            <Layers2 size={20} />
+          </button>
+        </div>
+      </div>
+
+      {mode === 'side-by-side' ? (
+        <div className="flex-1 min-h-0 grid grid-cols-2 gap-4 p-4">
+          {[before, after].map((version, i) => (
+            <div key={i} className="min-h-0 flex flex-col items-center space-y-2">
+              <div className="flex-1 min-h-0 w-full flex items-center justify-center">
+                <VersionImage version={version} className="shadow-2xl" />
+              </div>
+              <span className="text-[10px] uppercase tracking-widest text-gold truncate max-w-full">{version.label}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 min-h-0 relative m-4">
+            <div className="absolute inset-0 flex items-center justify-center">
+              <VersionImage version={before} className="shadow-2xl" />
+            </div>
+            <div className="absolute inset-0 flex items-center justify-center">
+              <VersionImage version={after} style={{ opacity: mix / 100 }} />
+            </div>
+          </div>
+          <div className="p-6 flex items-center space-x-4">
+            <span className="w-28 text-[10px] uppercase tracking-widest text-gold truncate text-right">{before.label}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={mix}
+              onChange={(e) => setMix(Number(e.target.value))}
+              className="flex-1 accent-[#D4AF37]"
+            />
+            <span className="w-28 text-[10px] uppercase tracking-widest text-gold truncate">{after.label}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotCompare;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { BookmarkPlus } from 'lucide-react';
+
+interface SnapshotFormProps {
+  onSave: (name: string) => Promise<void>;
+}
+
+const DEFAULT_NAME = 'Snapshot';
+
+// Names and keeps the sketch as it is now; the versions are browsed from the gallery
+const SnapshotForm: React.FC<SnapshotFormProps> = ({ onSave }) => {
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave(name.trim() || DEFAULT_NAME);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="absolute top-16 right-16 w-64 bg-charcoal/95 backdrop-blur-md border border-white/10 rounded-xl shadow-luxury z-50 p-3 space-y-2 animate-in fade-in slide-in-from-top-4"
+    >
+      <div className="text-xs text-gray-500 uppercase tracking-wider">Snapshot</div>
+      <input
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="e.g. Dropped waist"
+        className="w-full bg-black/40 text-white text-sm rounded px-2 py-1.5 border border-white/10 outline-none focus:border-gold/40 placeholder:text-gray-600"
+      />
+      <button
+        type="submit"
+        disabled={saving}
+        className="w-full flex items-center justify-center space-x-2 py-2 rounded-lg border border-gold/40 text-gold text-xs uppercase tracking-wide hover:bg-white/10 disabled:opacity-30"
+      >
+        <BookmarkPlus size={14} />
+        <span>{saving ? 'Saving...' : 'Keep This Version'}</span>
+      </button>
+    </form>
+  );
+};
+
+export default SnapshotForm;
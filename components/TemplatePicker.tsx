@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FilePlus2, LayoutTemplate, Trash2, X } from 'lucide-react';
+import { CustomTemplate } from '../types';
+import { PAGE_HEIGHT, PAGE_WIDTH } from '../utils/layers';
+import { FLATS, POSES, PROPORTIONS, TemplateChoice, templateStrokes } from '../utils/templates';
+import { deleteTemplate, loadTemplates } from '../services/storage';
+
+interface TemplatePickerProps {
+  onSelect: (choice: TemplateChoice | null) => void; // null starts from a blank page
+  onClose: () => void;
+}
+
+type Tab = 'croquis' | 'flats' | 'custom';
+
+const TABS: { value: Tab; label: string }[] = [
+  { value: 'croquis', label: 'Croquis' },
+  { value: 'flats', label: 'Flats' },
+  { value: 'custom', label: 'My Templates' },
+];
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs border whitespace-nowrap ${active ? 'bg-gold/20 border-gold text-gold' : 'bg-white/5 border-white/10 text-gray-300 hover:border-white/30'}`;
+
+// Outline preview of a built-in template, straight from its strokes
+const TemplatePreview: React.FC<{ choice: TemplateChoice }> = ({ choice }) => {
+  const paths = useMemo(() => templateStrokes(choice).map(stroke => ({
+    id: stroke.id,
+    color: stroke.color,
+    d: `M${stroke.points.map(p => `${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join('L')}`,
+  })), [choice]);
+
+  return (
+    <svg viewBox={`0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}`} className="w-full h-full">
+      {paths.map(path => (
+        <path key={path.id} d={path.d} fill="none" stroke={path.color} strokeWidth={4} strokeLinejoin="round" strokeLinecap="round" />
+      ))}
+    </svg>
+  );
+};
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ onSelect, onClose }) => {
+  const [tab, setTab] = useState<Tab>('croquis');
+  const [heads, setHeads] = useState(PROPORTIONS[1].heads);
+  const [templates, setTemplates] = useState<CustomTemplate[]>([]);
+  // Deleting takes a second tap on the same template
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTemplates()
+      .then(setTemplates)
+      .catch(e => console.error("Failed to load templates", e));
+  }, []);
+
+  const croquis = useMemo<TemplateChoice[]>(() => POSES.map(pose => ({ kind: 'croquis', pose: pose.id, heads })), [heads]);
+  const flats = useMemo<TemplateChoice[]>(() => FLATS.map(flat => ({ kind: 'flat', flat: flat.id })), []);
+
+  const handleDelete = (id: string) => {
+    if (confirming !== id) {
+      setConfirming(id);
+      return;
+    }
+    setConfirming(null);
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    deleteTemplate(id).catch(e => console.error("Failed to delete template", e));
+  };
+
+  const card = (key: string, label: string, onClick: () => void, preview: React.ReactNode, action?: React.ReactNode) => (
+    <div key={key} className="relative">
+      <button onClick={onClick} className="w-full text-left group">
+        <div className="aspect-[3/4] bg-white rounded-lg overflow-hidden border-2 border-transparent group-hover:border-gold transition-colors">
+          {preview}
+        </div>
+        <p className="mt-1 text-white text-xs truncate">{label}</p>
+      </button>
+      {action}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-[85vh] flex flex-col bg-charcoal border border-gold/40 rounded-2xl shadow-luxury p-5 space-y-4">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-2 text-gold">
+            <LayoutTemplate size={18} />
+            <h3 className="font-serif text-lg">New Sketch</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-white/60 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-gray-400 text-xs">
+          Templates sit on a faded, locked layer beneath your drawing and are left out of exports; change that in the layers panel.
+        </p>
+
+        <div className="flex items-center space-x-2">
+          {TABS.map(t => (
+            <button key={t.value} onClick={() => setTab(t.value)} className={chipClass(tab === t.value)}>
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'croquis' && (
+          <div className="flex items-center space-x-2">
+            <span className="text-[10px] uppercase tracking-widest text-gold mr-1">Proportion</span>
+            {PROPORTIONS.map(p => (
+              <button key={p.heads} onClick={() => setHeads(p.heads)} className={chipClass(heads === p.heads)}>
+                {p.label} · {p.heads}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto no-scrollbar">
+          <div className="grid grid-cols-3 gap-3">
+            {card('blank', 'Blank Page', () => onSelect(null), (
+              <div className="w-full h-full flex items-center justify-center">
+                <FilePlus2 size={28} className="text-black opacity-20" />
+              </div>
+            ))}
+
+            {tab === 'croquis' && croquis.map((choice, i) => (
+              card(POSES[i].id, POSES[i].label, () => onSelect(choice), <TemplatePreview choice={choice} />)
+            ))}
+
+            {tab === 'flats' && flats.map((choice, i) => (
+              card(FLATS[i].id, FLATS[i].label, () => onSelect(choice), <TemplatePreview choice={choice} />)
+            ))}
+
+            {tab === 'custom' && templates.map(template => card(
+              template.id,
+              template.name,
+              () => onSelect({ kind: 'custom', template }),
+              <img src={template.image} alt={template.name} className="w-full h-full object-contain" />,
+              <button
+                onClick={() => handleDelete(template.id)}
+                className={`absolute top-1 right-1 p-1.5 rounded-full ${confirming === template.id ? 'bg-red-900 text-white' : 'bg-black/50 text-white/70 hover:text-red-400'}`}
+              >
+                {confirming === template.id ? <Trash2 size={12} /> : <X size={12} />}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'custom' && templates.length === 0 && (
+            <div className="mt-3 py-6 text-center border border-dashed border-white/10 rounded-lg">
+              <p className="text-gray-500 text-sm">No templates yet.</p>
+              <p className="text-gray-600 text-xs mt-1">Save any sketch as a template from its export menu.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePicker;
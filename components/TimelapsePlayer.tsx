@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Play, Pause, RotateCcw, Film } from 'lucide-react';
+import { Sketch, SketchDocument } from '../types';
+import { loadLayerImages } from '../utils/render';
+import { TIMELAPSE_SPEEDS, buildTimelapse, createTimelapseRenderer } from '../utils/timelapse';
+import { canExportTimelapse, exportTimelapse, shareOrDownload } from '../services/export';
+
+interface TimelapsePlayerProps {
+  doc: SketchDocument;
+  sketch: Sketch;
+  onClose: () => void;
+}
+
+// Pixels per document unit of the player canvas, before device pixel ratio
+const PLAYER_SCALE = 1;
+
+// Minutes and seconds of playback at a speed
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const TimelapsePlayer: React.FC<TimelapsePlayerProps> = ({ doc, sketch, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const timelapse = useMemo(() => buildTimelapse(doc), [doc]);
+  const [renderer, setRenderer] = useState<ReturnType<typeof createTimelapseRenderer> | null>(null);
+  // Position on the timelapse clock, ms
+  const [time, setTime] = useState(0);
+  const timeRef = useRef(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(4);
+  // Export progress 0-1, or null when not exporting
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+
+  const seek = (next: number) => {
+    timeRef.current = next;
+    setTime(next);
+  };
+
+  // Decode layer images, then start playing from the first stroke
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(doc.layers.map(loadLayerImages))
+      .then(loaded => {
+        if (cancelled) return;
+        const images = new Map(loaded.flatMap(m => [...m]));
+        setRenderer(createTimelapseRenderer(doc, timelapse, images, PLAYER_SCALE * (window.devicePixelRatio || 1)));
+        setPlaying(true);
+      })
+      .catch(e => console.error("Failed to load timelapse", e));
+    return () => { cancelled = true; };
+  }, [doc, timelapse]);
+
+  // Advance the clock while playing, stopping at the end
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = Math.min(timelapse.duration, timeRef.current + (now - last) * speed);
+      last = now;
+      seek(next);
+      if (next >= timelapse.duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, timelapse]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !renderer) return;
+    if (canvas.width !== renderer.width || canvas.height !== renderer.height) {
+      canvas.width = renderer.width;
+      canvas.height = renderer.height;
+    }
+    renderer.render(ctx, time);
+  }, [renderer, time]);
+
+  // Playing from the end starts over
+  const handlePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (time >= timelapse.duration) seek(0);
+    setPlaying(true);
+  };
+
+  const handleExport = async () => {
+    setPlaying(false);
+    setExportProgress(0);
+    try {
+      await shareOrDownload(await exportTimelapse(doc, sketch, speed, setExportProgress));
+    } catch (e) {
+      console.error("Failed to export timelapse", e);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black z-[60] flex flex-col">
+      <div className="flex items-center justify-between p-4">
+        <button onClick={onClose} disabled={exportProgress !== null} className="p-2 text-white/80 hover:text-gold disabled:opacity-30">
+          <X size={24} />
+        </button>
+        <span className="font-serif text-white/70 text-sm tracking-wider">{sketch.title} · Timelapse</span>
+        <button
+          onClick={handleExport}
+          disabled={!renderer || exportProgress !== null || !canExportTimelapse()}
+          className="flex items-center space-x-2 px-3 py-2 rounded-lg text-xs uppercase tracking-wide text-gold hover:bg-white/10 disabled:opacity-30"
+        >
+          <Film size={16} />
+          <span>{exportProgress !== null ? `Recording ${Math.round(exportProgress * 100)}%` : 'WebM'}</span>
+        </button>
+      </div>
+
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden p-4">
+        <canvas
+          ref={canvasRef}
+          className="max-w-full max-h-full bg-white shadow-2xl"
+          style={{ aspectRatio: `${doc.width} / ${doc.height}` }}
+        />
+        {!renderer && (
+          <p className="absolute text-gold text-xs uppercase tracking-widest animate-pulse">Preparing timelapse...</p>
+        )}
+        {renderer && timelapse.entries.length === 0 && (
+          <p className="absolute text-gray-300 text-sm">Nothing has been drawn yet</p>
+        )}
+      </div>
+
+      <div className="p-6 flex items-center space-x-4">
+        <button
+          onClick={handlePlay}
+          disabled={!renderer || exportProgress !== null}
+          className="w-12 h-12 shrink-0 rounded-full border-2 border-gold bg-white/10 flex items-center justify-center text-gold active:scale-95 transition-transform disabled:opacity-30"
+        >
+          {playing ? <Pause size={20} /> : time >= timelapse.duration && time > 0 ? <RotateCcw size={20} /> : <Play size={20} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={timelapse.duration}
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          disabled={!renderer || exportProgress !== null}
+          className="flex-1 accent-[#D4AF37]"
+        />
+        <span className="text-[10px] uppercase tracking-widest text-white/60 whitespace-nowrap">
+          {formatTime(time / speed)} / {formatTime(timelapse.duration / speed)}
+        </span>
+        {/* Cycles through the playback speeds */}
+        <button
+          onClick={() => setSpeed(TIMELAPSE_SPEEDS[(TIMELAPSE_SPEEDS.indexOf(speed) + 1) % TIMELAPSE_SPEEDS.length])}
+          disabled={exportProgress !== null}
+          className="w-12 text-[10px] uppercase tracking-widest px-2 py-1 rounded-full border border-gold/40 text-gold disabled:opacity-30"
+        >
+          {speed}×
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimelapsePlayer;
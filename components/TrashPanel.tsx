@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { FileImage, Folder, RotateCcw, Trash2, X } from 'lucide-react';
+import { TrashEntry } from '../services/storage';
+
+interface TrashPanelProps {
+  entries: TrashEntry[]; // Most recently deleted first
+  retentionDays: number; // Entries older than this are purged at startup
+  onRestore: (entryIds: string[]) => void;
+  onPurge: (entryIds: string[]) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (deletedAt: string, retentionDays: number) =>
+  Math.max(0, Math.ceil(retentionDays - (Date.now() - new Date(deletedAt).getTime()) / DAY_MS));
+
+const TrashPanel: React.FC<TrashPanelProps> = ({ entries, retentionDays, onRestore, onPurge, onClose }) => {
+  // Purging can't be undone, so it takes a second tap: an entry id, or 'all'
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  const purge = (key: string, entryIds: string[]) => {
+    if (confirming !== key) {
+      setConfirming(key);
+      return;
+    }
+    setConfirming(null);
+    onPurge(entryIds);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+      <div className="w-full max-w-md max-h-[85vh] flex flex-col bg-charcoal border border-gold/40 rounded-2xl shadow-luxury p-5 space-y-4">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-2 text-gold">
+            <Trash2 size={18} />
+            <h3 className="font-serif text-lg">Trash</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-white/60 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-gray-400 text-xs">
+          Deleted sketches and collections stay here for {retentionDays} days, then they are removed for good.
+        </p>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar space-y-2">
+          {entries.map(entry => {
+            const sketch = entry.sketches[0];
+            return (
+              <div key={entry.id} className="p-2 rounded-lg flex items-center space-x-3 bg-white/5">
+                <div className="w-10 h-12 bg-white rounded overflow-hidden flex items-center justify-center shrink-0">
+                  {entry.project ? (
+                    <Folder size={18} className="text-black opacity-30" />
+                  ) : sketch?.thumbnail ? (
+                    <img src={sketch.thumbnail} alt={sketch.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <FileImage size={18} className="text-black opacity-10" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white text-sm font-medium truncate">
+                    {entry.project ? entry.project.name : sketch?.title ?? 'Sketch'}
+                  </p>
+                  <p className="text-gray-400 text-xs">
+                    {entry.project ? `Collection · ${entry.sketches.length} sketches · ` : ''}
+                    {daysLeft(entry.deletedAt, retentionDays)} days left
+                  </p>
+                </div>
+                <button onClick={() => onRestore([entry.id])} className="p-2 text-gold hover:bg-white/10 rounded-lg">
+                  <RotateCcw size={16} />
+                </button>
+                <button
+                  onClick={() => purge(entry.id, [entry.id])}
+                  className={`p-2 rounded-lg ${confirming === entry.id ? 'text-red-400 bg-red-900/30' : 'text-white/50 hover:text-red-400'}`}
+                >
+                  {confirming === entry.id ? <Trash2 size={16} /> : <X size={16} />}
+                </button>
+              </div>
+            );
+          })}
+
+          {entries.length === 0 && (
+            <div className="py-8 text-center border border-dashed border-white/10 rounded-lg">
+              <p className="text-gray-500 text-sm">The trash is empty.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={() => onRestore(entries.map(e => e.id))}
+            disabled={entries.length === 0}
+            className="flex-1 py-2 rounded-lg border border-gold/40 text-gold text-xs uppercase tracking-wide hover:bg-white/10 disabled:opacity-30"
+          >
+            Restore All
+          </button>
+          <button
+            onClick={() => purge('all', entries.map(e => e.id))}
+            disabled={entries.length === 0}
+            className="flex-1 py-2 rounded-lg bg-red-900/60 text-white text-xs uppercase tracking-wide hover:bg-red-900 disabled:opacity-30"
+          >
+            {confirming === 'all' ? 'Delete Forever?' : 'Empty Trash'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashPanel;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface UnsavedChangesDialogProps {
+  onSave: () => Promise<void>;
+  onDiscard: () => void;
+  onClose: () => void; // Back to the canvas
+}
+
+// Asked when leaving a sketch with changes made since it was last saved
+const UnsavedChangesDialog: React.FC<UnsavedChangesDialogProps> = ({ onSave, onDiscard, onClose }) => {
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-charcoal border border-gold/40 rounded-2xl shadow-luxury p-5 space-y-4">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-2 text-gold">
+            <AlertTriangle size={18} />
+            <h3 className="font-serif text-lg">Unsaved changes</h3>
+          </div>
+          <button onClick={onClose} disabled={saving} className="p-1 text-white/60 hover:text-white disabled:opacity-30">
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-gray-400 text-xs">
+          This sketch has changed since it was last saved. Discarded changes can't be recovered.
+        </p>
+        <div className="flex space-x-2">
+          <button
+            onClick={onDiscard}
+            disabled={saving}
+            className="flex-1 py-2 rounded-lg bg-red-900/60 text-white text-xs uppercase tracking-wide hover:bg-red-900 disabled:opacity-30"
+          >
+            Discard
+          </button>
+          <button
+            onClick={save}
+            disabled={saving}
+            className="flex-1 py-2 rounded-lg bg-gradient-to-r from-gold to-gold-light text-charcoal text-xs font-bold uppercase tracking-wide disabled:opacity-30"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnsavedChangesDialog;
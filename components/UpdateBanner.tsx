@@ -0,0 +1,26 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdateBannerProps {
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+// Shown when a new build has been downloaded and is waiting to take over
+const UpdateBanner: React.FC<UpdateBannerProps> = ({ onReload, onDismiss }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[80] flex items-center space-x-3 pl-4 pr-2 py-2 bg-charcoal/95 backdrop-blur-md border border-gold/40 rounded-full shadow-luxury animate-in fade-in slide-in-from-bottom-4">
+    <span className="text-white text-xs">A new version of Atelier is available</span>
+    <button
+      onClick={onReload}
+      className="flex items-center space-x-1 px-3 py-1 rounded-full bg-gradient-to-r from-gold to-gold-light text-charcoal text-xs font-bold uppercase tracking-wide"
+    >
+      <RefreshCw size={12} />
+      <span>Reload</span>
+    </button>
+    <button onClick={onDismiss} className="p-1 text-white/60 hover:text-white">
+      <X size={14} />
+    </button>
+  </div>
+);
+
+export default UpdateBanner;
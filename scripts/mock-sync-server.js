@@ -0,0 +1,93 @@
+// Local stand-in for the Atelier sync endpoint, for development and manual testing.
+//
+//   npm run sync-server -- [--port 8787] [--latency 500] [--fail-rate 0.2]
+//
+// PUT /sketches/:id stores the uploaded JSON in memory under a new revision, or
+// answers 409 with the stored version when the upload's `sketch.revision` is not
+// the current one (another device synced first); GET /sketches lists what has
+// been received. Point two browsers at it to exercise conflict resolution.
+//
+// --fail-rate makes a share of uploads answer 503 so retries and backoff can be
+// exercised; stopping the server simulates being offline.
+
+import http from 'node:http';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? fallback : Number(args[index + 1]);
+};
+
+const PORT = option('port', 8787);
+const LATENCY = option('latency', 300);
+const FAIL_RATE = option('fail-rate', 0);
+
+const sketches = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/sketches\/([^/]+)$/);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && url.pathname === '/sketches') {
+    return send(res, 200, [...sketches.values()].map(({ sketch, receivedAt }) => ({
+      id: sketch.id,
+      title: sketch.title,
+      revision: sketch.revision,
+      receivedAt,
+    })));
+  }
+
+  if (req.method === 'PUT' && match) {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => setTimeout(() => {
+      if (Math.random() < FAIL_RATE) {
+        console.log(`PUT ${match[1]} -> 503 (simulated failure)`);
+        return send(res, 503, { error: 'Simulated failure' });
+      }
+
+      let payload;
+      try {
+        payload = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        return send(res, 400, { error: 'Body is not valid JSON' });
+      }
+      if (!payload?.sketch || payload.sketch.id !== decodeURIComponent(match[1])) {
+        return send(res, 400, { error: 'Sketch id does not match the URL' });
+      }
+
+      const stored = sketches.get(payload.sketch.id);
+      const current = stored?.sketch.revision ?? 0;
+      if (payload.sketch.revision !== current) {
+        console.log(`PUT ${payload.sketch.id} -> 409 (based on revision ${payload.sketch.revision}, server has ${current})`);
+        const { receivedAt: _, ...version } = stored ?? { sketch: { ...payload.sketch, revision: current } };
+        return send(res, 409, version);
+      }
+
+      const receivedAt = new Date().toISOString();
+      const revision = current + 1;
+      sketches.set(payload.sketch.id, { ...payload, sketch: { ...payload.sketch, revision, status: 'Synced' }, receivedAt });
+      console.log(`PUT ${payload.sketch.id} "${payload.sketch.title}" r${revision} (${chunks.reduce((n, c) => n + c.length, 0)} bytes)`);
+      send(res, 200, { id: payload.sketch.id, revision, receivedAt });
+    }, LATENCY));
+    return;
+  }
+
+  send(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Atelier sync server on http://localhost:${PORT} (latency ${LATENCY}ms, fail rate ${FAIL_RATE})`);
+});
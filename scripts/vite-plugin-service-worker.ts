@@ -0,0 +1,50 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+// Emits the service worker next to the build output, with the list of files to
+// precache, the app shell's URL under the configured base and a build version
+// baked in. (The web app manifest linked from index.html is already emitted by
+// Vite as a hashed asset.) In development the worker is not registered (see
+// services/pwa.ts), so the dev server keeps serving fresh modules.
+
+interface ServiceWorkerOptions {
+  worker: string; // Path to the service worker source
+}
+
+export const serviceWorker = ({ worker }: ServiceWorkerOptions): Plugin => {
+  let base = '/';
+
+  return {
+    name: 'atelier-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      base = config.base;
+    },
+    writeBundle(options, bundle) {
+      const outDir = options.dir ?? 'dist';
+      const workerSource = readFileSync(worker, 'utf8');
+
+      const files = Object.keys(bundle)
+        .filter(name => !name.endsWith('.map'))
+        .sort();
+      const urls = [base, ...files.map(name => base + name)];
+
+      // Changes whenever any emitted file (hashed names) or the worker itself changes
+      const version = createHash('sha256')
+        .update(files.join('\n'))
+        .update(workerSource)
+        .digest('hex')
+        .slice(0, 12);
+
+      writeFileSync(
+        path.join(outDir, path.basename(worker)),
+        `self.__PRECACHE_MANIFEST = ${JSON.stringify(urls)};\n` +
+        `self.__SHELL_URL = ${JSON.stringify(base + 'index.html')};\n` +
+        `self.__BUILD_VERSION = ${JSON.stringify(version)};\n\n` +
+        workerSource
+      );
+    },
+  };
+};
@@ -0,0 +1,435 @@
+import { Palette, Project, Sketch, SketchDocument, Swatch } from '../types';
+import { normalizeHex } from '../utils/color';
+import { createId } from '../utils/id';
+import { PAGE_HEIGHT, PAGE_WIDTH, PackedLayer } from '../utils/layers';
+import { STATUS_LABELS } from '../utils/search';
+import { isSwatchPattern } from '../utils/swatches';
+import { createZip, readZip } from '../utils/zip';
+import {
+  DocumentRecord, fromDocumentRecord, loadDocument, loadTrash, saveDocument, saveProject, saveSketch, toDocumentRecord,
+} from './storage';
+import { ExportFile } from './export';
+
+// --- ATELIER ARCHIVES ---
+// Backup and transfer format for sketches, projects or the whole library: a zip
+// with a JSON manifest and per-sketch files. The layout is documented in
+// docs/ARCHIVE_FORMAT.md; keep the two in step and bump ARCHIVE_VERSION (with a
+// migration below) for any change an older importer would misread.
+
+export const ARCHIVE_FORMAT = 'atelier-archive';
+export const ARCHIVE_EXTENSION = '.atelier';
+
+export type ArchiveScope = 'sketch' | 'project' | 'library';
+
+interface ArchiveProject {
+  id: string;
+  name: string;
+  palettes: Palette[];
+  swatches?: Swatch[]; // Absent in archives from before swatches
+  sketchIds: string[];
+}
+
+interface ArchiveSketch {
+  id: string;
+  projectId: string;
+  title: string;
+  // Sync fields are always written, but may be missing from archives made by hand
+  createdAt?: string;
+  status?: Sketch['status'];
+  revision?: number;
+  updatedAt?: string;
+  deviceId?: string;
+  tags?: string[]; // Metadata fields are absent from archives made before they existed
+  notes?: string;
+  details?: Record<string, string>;
+  thumbnail?: string; // Path of the thumbnail image within the archive
+  document?: string; // Path of the document JSON within the archive
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  createdAt: string;
+  scope: ArchiveScope;
+  projects: ArchiveProject[];
+  sketches: ArchiveSketch[];
+}
+
+// In document files, layer bitmaps are separate images referenced by path
+type ArchiveLayer = Omit<PackedLayer, 'bitmap'> & { bitmapFile?: string };
+type ArchiveDocument = Omit<DocumentRecord, 'layers'> & { layers: ArchiveLayer[] };
+
+/** The archive can't be read; the message is meant for the user. */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// Entry N upgrades a manifest from version N + 1 to N + 2 (version 1 is the first).
+// Append an entry whenever ARCHIVE_VERSION is bumped; never edit a shipped one.
+const ARCHIVE_MIGRATIONS: ((manifest: Record<string, unknown>) => Record<string, unknown>)[] = [];
+
+export const ARCHIVE_VERSION = ARCHIVE_MIGRATIONS.length + 1;
+
+// --- DATA URLS ---
+
+const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mime: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match) throw new Error('Not a data URL');
+  const [, mime = 'application/octet-stream', base64, payload] = match;
+  const bytes = base64
+    ? Uint8Array.from(atob(payload), c => c.charCodeAt(0))
+    : new TextEncoder().encode(decodeURIComponent(payload));
+  return { bytes, mime };
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mime: string): string => {
+  let binary = '';
+  // Chunked so large images don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+const extensionFor = (mime: string) => Object.keys(IMAGE_TYPES).find(ext => IMAGE_TYPES[ext] === mime) ?? 'bin';
+const mimeFor = (path: string) => IMAGE_TYPES[path.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+
+// --- EXPORT ---
+
+/**
+ * Packs the given projects (each with only the sketches to include) into an archive.
+ * `scope` records what the user chose to export; importing treats all scopes alike.
+ */
+export const exportArchive = async (projects: Project[], scope: ArchiveScope, name: string): Promise<ExportFile> => {
+  const encoder = new TextEncoder();
+  const files: { name: string; data: Uint8Array }[] = [];
+  const sketches: ArchiveSketch[] = [];
+
+  for (const project of projects) {
+    for (const sketch of project.sketches) {
+      const base = `sketches/${sketch.id}`;
+      const entry: ArchiveSketch = {
+        id: sketch.id,
+        projectId: project.id,
+        title: sketch.title,
+        createdAt: sketch.createdAt,
+        status: sketch.status,
+        revision: sketch.revision,
+        updatedAt: sketch.updatedAt,
+        deviceId: sketch.deviceId,
+        tags: sketch.tags,
+        notes: sketch.notes,
+        details: sketch.details,
+      };
+
+      if (sketch.thumbnail) {
+        const { bytes, mime } = dataUrlToBytes(sketch.thumbnail);
+        entry.thumbnail = `${base}/thumbnail.${extensionFor(mime)}`;
+        files.push({ name: entry.thumbnail, data: bytes });
+      }
+
+      const doc = await loadDocument(sketch.id);
+      if (doc) {
+        const record = toDocumentRecord(doc);
+        const archived: ArchiveDocument = {
+          ...record,
+          layers: record.layers.map(({ bitmap, ...layer }) => {
+            if (!bitmap) return layer;
+            const { bytes, mime } = dataUrlToBytes(bitmap);
+            const bitmapFile = `${base}/layers/${layer.id}.${extensionFor(mime)}`;
+            files.push({ name: bitmapFile, data: bytes });
+            return { ...layer, bitmapFile };
+          }),
+        };
+        entry.document = `${base}/document.json`;
+        files.push({ name: entry.document, data: encoder.encode(JSON.stringify(archived)) });
+      }
+      sketches.push(entry);
+    }
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    createdAt: new Date().toISOString(),
+    scope,
+    projects: projects.map(p => ({ id: p.id, name: p.name, palettes: p.palettes, swatches: p.swatches, sketchIds: p.sketches.map(s => s.id) })),
+    sketches,
+  };
+
+  const slug = name.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'atelier';
+  return {
+    // The manifest goes first so it can be found even in a damaged archive
+    blob: createZip([{ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) }, ...files]),
+    filename: `${slug}${ARCHIVE_EXTENSION}`,
+  };
+};
+
+// --- VALIDATION ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Assertion functions need an explicitly typed binding
+const check: (condition: unknown, message: string) => asserts condition = (condition, message) => {
+  if (!condition) throw new ArchiveError(message);
+};
+
+// A field that may be absent, but is valid when present
+const optional = (value: unknown, valid: (value: unknown) => boolean) => value === undefined || valid(value);
+
+const isDate = (value: unknown) => typeof value === 'string' && !isNaN(Date.parse(value));
+
+// Colours are stored as #RRGGBB; anything else makes the list malformed
+const readColors = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  const colors = value.map(c => (typeof c === 'string' ? normalizeHex(c) : null));
+  return colors.every((c): c is string => c !== null) ? colors : null;
+};
+
+const readPalettes = (value: unknown, where: string): Palette[] => {
+  check(Array.isArray(value), `The palettes of ${where} are malformed.`);
+  return value.map((palette: unknown, i: number) => {
+    const colors = isObject(palette) ? readColors(palette.colors) : null;
+    check(isObject(palette) && typeof palette.id === 'string' && typeof palette.name === 'string' && colors,
+      `Palette ${i + 1} of ${where} is malformed.`);
+    return { id: palette.id, name: palette.name, colors };
+  });
+};
+
+const readSwatches = (value: unknown, where: string): Swatch[] => {
+  check(Array.isArray(value), `The swatches of ${where} are malformed.`);
+  return value.map((swatch: unknown, i: number) => {
+    const colors = isObject(swatch) ? readColors(swatch.colors) : null;
+    check(isObject(swatch) && typeof swatch.id === 'string' && typeof swatch.name === 'string'
+      && isSwatchPattern(swatch.pattern) && colors
+      && (swatch.pattern === 'photo' ? typeof swatch.image === 'string' : swatch.image === undefined || typeof swatch.image === 'string'),
+      `Swatch ${i + 1} of ${where} is malformed.`);
+    const image = typeof swatch.image === 'string' ? swatch.image : undefined;
+    return { id: swatch.id, name: swatch.name, pattern: swatch.pattern, colors, ...(image ? { image } : {}) };
+  });
+};
+
+const validateManifest = (raw: unknown): ArchiveManifest => {
+  check(isObject(raw) && raw.format === ARCHIVE_FORMAT, 'This file is not an Atelier archive.');
+  const { version } = raw;
+  check(typeof version === 'number' && Number.isInteger(version) && version >= 1, 'The archive has no valid version.');
+  check(version <= ARCHIVE_VERSION, 'This archive was made by a newer version of Atelier. Update the app to import it.');
+
+  let manifest = raw;
+  for (let v = version; v < ARCHIVE_VERSION; v++) {
+    manifest = ARCHIVE_MIGRATIONS[v - 1](manifest);
+  }
+
+  const { projects, sketches } = manifest;
+  check(Array.isArray(projects) && Array.isArray(sketches), 'The archive manifest is incomplete.');
+  const projectIds = new Set<string>();
+  const checkedProjects: ArchiveProject[] = projects.map((p: unknown, i: number) => {
+    check(isObject(p) && typeof p.id === 'string' && typeof p.name === 'string'
+      && Array.isArray(p.sketchIds) && p.sketchIds.every(id => typeof id === 'string'),
+      `Project ${i + 1} in the archive is malformed.`);
+    projectIds.add(p.id);
+    return {
+      id: p.id,
+      name: p.name,
+      sketchIds: p.sketchIds,
+      palettes: p.palettes === undefined ? [] : readPalettes(p.palettes, `project ${i + 1}`),
+      swatches: p.swatches === undefined ? [] : readSwatches(p.swatches, `project ${i + 1}`),
+    };
+  });
+  sketches.forEach((s: unknown, i: number) => {
+    check(isObject(s) && typeof s.id === 'string' && typeof s.title === 'string'
+      && typeof s.projectId === 'string' && projectIds.has(s.projectId)
+      && optional(s.createdAt, isDate) && optional(s.updatedAt, isDate)
+      && optional(s.status, value => typeof value === 'string' && value in STATUS_LABELS)
+      && optional(s.revision, value => Number.isInteger(value) && (value as number) >= 0)
+      && optional(s.deviceId, value => typeof value === 'string'),
+      `Sketch ${i + 1} in the archive is malformed.`);
+  });
+  // Sketch metadata and files are checked where they are read
+  return { ...manifest, projects: checkedProjects } as unknown as ArchiveManifest;
+};
+
+const readJson = (files: Map<string, Uint8Array>, path: string): unknown => {
+  const data = files.get(path);
+  check(data, `The archive is missing ${path}.`);
+  try {
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new ArchiveError(`${path} in the archive is not valid JSON.`);
+  }
+};
+
+// Packed stroke points: x, y and pressure, then a time when the stride is 4
+const isPackedPoints = (value: unknown, stride: number) =>
+  Array.isArray(value) && value.length % stride === 0 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+// Documents saved by older app versions may predate fields that are now required
+const readDocument = (files: Map<string, Uint8Array>, path: string, sketchId: string): SketchDocument => {
+  const raw = readJson(files, path);
+  check(isObject(raw) && Array.isArray(raw.layers) && raw.layers.length > 0, `${path} has no layers.`);
+
+  const layers: PackedLayer[] = raw.layers.map((layer: unknown, i: number) => {
+    check(isObject(layer) && typeof layer.id === 'string', `Layer ${i + 1} of ${path} is malformed.`);
+    const { bitmapFile, ...rest } = layer;
+    const strokes = Array.isArray(rest.strokes) ? rest.strokes : [];
+    strokes.forEach((stroke: unknown, j: number) => {
+      check(isObject(stroke) && (stroke.stride === undefined || stroke.stride === 4)
+        && isPackedPoints(stroke.points, stroke.stride === 4 ? 4 : 3),
+        `Stroke ${j + 1} on layer ${i + 1} of ${path} is malformed.`);
+    });
+    let bitmap: string | undefined;
+    if (typeof bitmapFile === 'string') {
+      const data = files.get(bitmapFile);
+      check(data, `The archive is missing ${bitmapFile}.`);
+      bitmap = bytesToDataUrl(data, mimeFor(bitmapFile));
+    }
+    return {
+      name: `Layer ${i + 1}`,
+      visible: true,
+      locked: false,
+      opacity: 100,
+      blendMode: 'normal',
+      ...rest,
+      bitmap,
+      strokes,
+    } as PackedLayer;
+  });
+
+  return fromDocumentRecord({
+    sketchId,
+    width: typeof raw.width === 'number' ? raw.width : PAGE_WIDTH,
+    height: typeof raw.height === 'number' ? raw.height : PAGE_HEIGHT,
+    layers,
+    activeLayerId: typeof raw.activeLayerId === 'string' && layers.some(l => l.id === raw.activeLayerId)
+      ? raw.activeLayerId
+      : layers[layers.length - 1].id,
+  });
+};
+
+// Metadata is free text, so anything that isn't a string is dropped rather than rejected
+const readMetadata = (entry: ArchiveSketch) => ({
+  tags: Array.isArray(entry.tags) ? entry.tags.filter((t): t is string => typeof t === 'string') : [],
+  notes: typeof entry.notes === 'string' ? entry.notes : '',
+  details: isObject(entry.details)
+    ? Object.fromEntries(Object.entries(entry.details).filter((pair): pair is [string, string] => typeof pair[1] === 'string'))
+    : {},
+});
+
+// --- IMPORT ---
+
+export interface ImportSummary {
+  library: Project[]; // The whole library after the import, in display order
+  imported: number; // Sketches added
+  skipped: number; // Sketches already present with identical edits
+  renamed: number; // Sketches whose id was taken, added as copies
+}
+
+/**
+ * Validates an archive and adds its contents to the library. Projects merge into an
+ * existing project with the same id. A sketch whose id already exists is skipped if it
+ * carries the same edit, and otherwise added as a copy under a new id, so nothing local
+ * is ever overwritten. Ids of sketches and projects in the trash are taken too.
+ */
+export const importArchive = async (file: Blob, library: Project[]): Promise<ImportSummary> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(file);
+  } catch {
+    throw new ArchiveError('This file is not an Atelier archive, or it is damaged.');
+  }
+  const manifest = validateManifest(readJson(files, 'manifest.json'));
+
+  const existing = new Map(library.flatMap(p => p.sketches).map(s => [s.id, s]));
+  // Trashed sketches and projects keep their records until purged, so their ids always
+  // get a copy
+  const trash = await loadTrash();
+  const trashed = new Set(trash.flatMap(e => e.sketches.map(s => s.id)));
+  const trashedProjects = new Set(trash.flatMap(e => (e.project ? [e.project.id] : [])));
+  const projects = library.map(p => ({ ...p, sketches: [...p.sketches] }));
+  const touched = new Set<string>();
+  let imported = 0;
+  let skipped = 0;
+  let renamed = 0;
+  // Sketches to store, once the whole archive has been read
+  const writes: { projectId: string; sketch: Sketch; doc: SketchDocument | null }[] = [];
+
+  // Read and check everything before writing anything
+  const incoming = manifest.sketches.map(entry => {
+    const thumbnailData = entry.thumbnail ? files.get(entry.thumbnail) : undefined;
+    check(!entry.thumbnail || thumbnailData, `The archive is missing ${entry.thumbnail}.`);
+    return {
+      entry,
+      thumbnail: thumbnailData && entry.thumbnail ? bytesToDataUrl(thumbnailData, mimeFor(entry.thumbnail)) : undefined,
+      doc: entry.document ? readDocument(files, entry.document, entry.id) : null,
+    };
+  });
+
+  for (const archived of manifest.projects) {
+    let project = projects.find(p => p.id === archived.id);
+    if (!project) {
+      const taken = trashedProjects.has(archived.id);
+      project = {
+        id: taken ? createId('project') : archived.id,
+        name: taken ? `${archived.name} (imported)` : archived.name,
+        sketches: [],
+        palettes: [],
+        swatches: [],
+        archived: false,
+      };
+      projects.push(project);
+    }
+    const known = new Set(project.palettes.map(p => p.id));
+    project.palettes = [...project.palettes, ...archived.palettes.filter(p => !known.has(p.id))];
+    const knownSwatches = new Set(project.swatches.map(s => s.id));
+    project.swatches = [...project.swatches, ...(archived.swatches ?? []).filter(s => !knownSwatches.has(s.id))];
+    touched.add(project.id);
+
+    for (const sketchId of archived.sketchIds) {
+      const item = incoming.find(i => i.entry.id === sketchId && i.entry.projectId === archived.id);
+      if (!item) continue;
+      const { entry, thumbnail, doc } = item;
+
+      const local = existing.get(entry.id);
+      if (local && local.updatedAt === entry.updatedAt && local.deviceId === entry.deviceId) {
+        skipped++;
+        continue;
+      }
+
+      const taken = !!local || trashed.has(entry.id);
+      const id = taken ? createId('sketch') : entry.id;
+      if (taken) renamed++;
+      const sketch: Sketch = {
+        id,
+        title: taken ? `${entry.title} (imported)` : entry.title,
+        createdAt: entry.createdAt ?? new Date().toISOString().split('T')[0],
+        thumbnail,
+        // A copy under a new id is unknown to the server; otherwise keep its sync state
+        status: !taken && entry.status === 'Synced' ? 'Synced' : 'Local Sketch',
+        revision: taken ? 0 : entry.revision ?? 0,
+        updatedAt: entry.updatedAt ?? new Date().toISOString(),
+        deviceId: entry.deviceId ?? '',
+        ...readMetadata(entry),
+      };
+
+      writes.push({ projectId: project.id, sketch, doc: doc && { ...doc, sketchId: id } });
+      project.sketches.push(sketch);
+      existing.set(id, sketch);
+      imported++;
+    }
+  }
+
+  for (const { projectId, sketch, doc } of writes) {
+    await saveSketch(projectId, sketch);
+    if (doc) await saveDocument(doc);
+  }
+  for (const [index, project] of projects.entries()) {
+    if (touched.has(project.id)) await saveProject(project, index);
+  }
+
+  return { library: projects, imported, skipped, renamed };
+};
@@ -0,0 +1,299 @@
+import { BlendMode, Project, Sketch, SketchDocument } from '../types';
+import { createDocument, exportedDocument } from '../utils/layers';
+import { describeDetails } from '../utils/metadata';
+import { A4, PdfItem, PdfPage, createPdf, wrapText } from '../utils/pdf';
+import { addPngText } from '../utils/png';
+import { loadLayerImages, renderDocument, renderLayer } from '../utils/render';
+import { documentToSvg } from '../utils/svg';
+import { buildTimelapse, createTimelapseRenderer } from '../utils/timelapse';
+import { createZip } from '../utils/zip';
+import { loadDocument } from './storage';
+
+// --- EXPORT ---
+// Everything leaves the app as an ExportFile, handed to the share sheet where the
+// browser supports sharing files and downloaded otherwise.
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+export type ExportFormat = 'png' | 'ora' | 'svg';
+
+// Raster exports are rendered at twice the page size (1536 x 2048)
+const EXPORT_SCALE = 2;
+const THUMBNAIL_SIZE = 256;
+
+const fileSlug = (title: string) =>
+  title.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'sketch';
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode canvas'))), type, quality);
+  });
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// --- METADATA ---
+// Tags, garment details and notes go into every export so they reach the pattern makers
+
+type SketchInfo = Pick<Sketch, 'title' | 'tags' | 'notes' | 'details'>;
+
+const tagLine = (sketch: SketchInfo) => sketch.tags.map(t => `#${t}`).join(' ');
+
+const detailLines = (sketch: SketchInfo) => describeDetails(sketch).map(({ label, value }) => `${label}: ${value}`);
+
+/** Everything but the title as plain text, one item per line. */
+const describeSketch = (sketch: SketchInfo) =>
+  [...detailLines(sketch), tagLine(sketch), sketch.notes.trim()].filter(Boolean).join('\n');
+
+// Flattened PNG with the sketch's metadata as text chunks
+const pngWithText = async (canvas: HTMLCanvasElement, sketch: SketchInfo) =>
+  addPngText(await blobBytes(await canvasToBlob(canvas)), [
+    { keyword: 'Title', text: sketch.title },
+    { keyword: 'Description', text: sketch.notes },
+    { keyword: 'Comment', text: detailLines(sketch).join('\n') },
+    { keyword: 'Keywords', text: sketch.tags.join(', ') },
+    { keyword: 'Software', text: 'Atelier' },
+  ]);
+
+/** Flattened PNG with a transparent background. */
+export const exportPng = async (doc: SketchDocument, sketch: SketchInfo): Promise<ExportFile> => {
+  const canvas = await renderDocument(doc, EXPORT_SCALE);
+  return {
+    blob: new Blob([await pngWithText(canvas, sketch)], { type: 'image/png' }),
+    filename: `${fileSlug(sketch.title)}.png`,
+  };
+};
+
+/** Vector strokes as SVG; see utils/svg for what carries over. */
+export const exportSvg = (doc: SketchDocument, sketch: SketchInfo): ExportFile => ({
+  blob: new Blob([documentToSvg(doc, sketch.title, describeSketch(sketch))], { type: 'image/svg+xml' }),
+  filename: `${fileSlug(sketch.title)}.svg`,
+});
+
+// OpenRaster names its blend modes after the SVG compositing spec
+const oraCompositeOp = (mode: BlendMode) => (mode === 'normal' ? 'svg:src-over' : `svg:${mode}`);
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+/**
+ * OpenRaster (.ora): one PNG per layer plus their order, opacity, visibility and
+ * blend mode, readable by Krita, GIMP and MyPaint.
+ */
+export const exportOra = async (doc: SketchDocument, sketch: SketchInfo): Promise<ExportFile> => {
+  const width = Math.round(doc.width * EXPORT_SCALE);
+  const height = Math.round(doc.height * EXPORT_SCALE);
+
+  const layerFiles: { name: string; data: Uint8Array }[] = [];
+  const stackEntries: string[] = [];
+  for (const [index, layer] of doc.layers.entries()) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+
+    const images = await loadLayerImages(layer);
+    ctx.setTransform(EXPORT_SCALE, 0, 0, EXPORT_SCALE, 0, 0);
+    renderLayer(ctx, layer, doc, images);
+
+    const src = `data/layer${index}.png`;
+    layerFiles.push({ name: src, data: await blobBytes(await canvasToBlob(canvas)) });
+    // The stack lists layers top first
+    stackEntries.unshift(
+      `<layer name="${escapeXml(layer.name)}" src="${src}" x="0" y="0" opacity="${(layer.opacity / 100).toFixed(2)}" ` +
+      `visibility="${layer.visible ? 'visible' : 'hidden'}" composite-op="${oraCompositeOp(layer.blendMode)}"/>`
+    );
+  }
+
+  const merged = await renderDocument(doc, EXPORT_SCALE);
+  const thumbnailScale = THUMBNAIL_SIZE / Math.max(doc.width, doc.height);
+  const thumbnail = await renderDocument(doc, thumbnailScale);
+
+  const stack =
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<image version="0.0.3" w="${width}" h="${height}"><stack>${stackEntries.join('')}</stack></image>\n`;
+  const encoder = new TextEncoder();
+
+  const blob = createZip([
+    // Must come first, uncompressed, for the format to be recognised
+    { name: 'mimetype', data: encoder.encode('image/openraster') },
+    { name: 'stack.xml', data: encoder.encode(stack) },
+    ...layerFiles,
+    // OpenRaster has no metadata of its own; the merged image carries it
+    { name: 'mergedimage.png', data: await pngWithText(merged, sketch) },
+    { name: 'Thumbnails/thumbnail.png', data: await blobBytes(await canvasToBlob(thumbnail)) },
+  ]);
+  return { blob: new Blob([blob], { type: 'image/openraster' }), filename: `${fileSlug(sketch.title)}.ora` };
+};
+
+/** Exports the sketch in a format, leaving out layers excluded from export (e.g. template underlays). */
+export const exportSketch = (format: ExportFormat, source: SketchDocument, sketch: SketchInfo): Promise<ExportFile> => {
+  const doc = exportedDocument(source);
+  switch (format) {
+    case 'png': return exportPng(doc, sketch);
+    case 'ora': return exportOra(doc, sketch);
+    case 'svg': return Promise.resolve(exportSvg(doc, sketch));
+  }
+};
+
+// --- TIMELAPSE VIDEO ---
+// Recorded in real time from a canvas stream, so a video takes as long to export as it
+// does to watch
+
+// Video frames are the page size (768 x 1024)
+const VIDEO_SCALE = 1;
+const VIDEO_FPS = 30;
+// The finished sketch stays on screen this long at the end, in ms
+const VIDEO_HOLD = 1500;
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/** Whether this browser can record WebM video from a canvas. */
+export const canExportTimelapse = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && WEBM_TYPES.some(t => MediaRecorder.isTypeSupported(t));
+
+/** The sketch drawn stroke by stroke as a WebM video at `speed`, reporting progress from 0 to 1. */
+export const exportTimelapse = async (
+  source: SketchDocument,
+  sketch: SketchInfo,
+  speed: number,
+  onProgress?: (progress: number) => void
+): Promise<ExportFile> => {
+  const mimeType = typeof MediaRecorder !== 'undefined' ? WEBM_TYPES.find(t => MediaRecorder.isTypeSupported(t)) : undefined;
+  if (!mimeType) throw new Error('WebM recording is not supported');
+
+  const doc = exportedDocument(source);
+  const images = new Map<string, HTMLImageElement>();
+  for (const layer of doc.layers) {
+    (await loadLayerImages(layer)).forEach((image, src) => images.set(src, image));
+  }
+  const timelapse = buildTimelapse(doc);
+  const renderer = createTimelapseRenderer(doc, timelapse, images, VIDEO_SCALE);
+  const canvas = document.createElement('canvas');
+  canvas.width = renderer.width;
+  canvas.height = renderer.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  renderer.render(ctx, 0);
+
+  const stream = canvas.captureStream(VIDEO_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  recorder.start(1000);
+
+  const length = timelapse.duration / speed + VIDEO_HOLD;
+  const started = performance.now();
+  await new Promise<void>(resolve => {
+    const tick = () => {
+      const elapsed = performance.now() - started;
+      renderer.render(ctx, elapsed * speed);
+      onProgress?.(Math.min(1, elapsed / length));
+      if (elapsed >= length) {
+        resolve();
+        return;
+      }
+      setTimeout(tick, 1000 / VIDEO_FPS);
+    };
+    tick();
+  });
+
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(t => t.stop());
+  return { blob: new Blob(chunks, { type: 'video/webm' }), filename: `${fileSlug(sketch.title)}-timelapse.webm` };
+};
+
+// --- LOOKBOOK ---
+
+const MARGIN = 48;
+const LOOKBOOK_SCALE = 1.5;
+const NOTE_SIZE = 9;
+// Notes beyond this many lines are cut short so the sketch keeps most of the page
+const MAX_NOTE_LINES = 6;
+
+const formatDate = (date: string) => {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime())
+    ? date
+    : parsed.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+/** A4 PDF of a whole project: a cover page, then one sketch per page with its title and date. */
+export const exportLookbook = async (project: Project): Promise<ExportFile> => {
+  const pages: PdfPage[] = [{
+    ...A4,
+    items: [
+      { type: 'rect', x: 0, y: 0, width: A4.width, height: A4.height, color: '#121212' },
+      { type: 'text', text: project.name, x: MARGIN, y: A4.height / 2, size: 36, font: 'serif', color: '#D4AF37' },
+      { type: 'text', text: `${project.sketches.length} sketches  ·  Atelier Lookbook`, x: MARGIN, y: A4.height / 2 + 32, size: 11, color: '#9CA3AF' },
+    ],
+  }];
+
+  for (const sketch of project.sketches) {
+    const doc = exportedDocument((await loadDocument(sketch.id)) ?? createDocument(sketch));
+    const canvas = await renderDocument(doc, LOOKBOOK_SCALE, { background: '#FFFFFF' });
+    const jpeg = await blobBytes(await canvasToBlob(canvas, 'image/jpeg', 0.9));
+
+    // Details, tags and notes run under the title, then the page image fits below
+    const maxWidth = A4.width - MARGIN * 2;
+    const details = describeDetails(sketch).map(({ label, value }) => `${label}: ${value}`).join('   ·   ');
+    const notes = wrapText(sketch.notes.trim(), maxWidth, NOTE_SIZE);
+    const infoLines = [
+      ...(details ? wrapText(details, maxWidth, NOTE_SIZE) : []),
+      ...(sketch.tags.length ? [tagLine(sketch)] : []),
+      ...(notes.length > MAX_NOTE_LINES ? [...notes.slice(0, MAX_NOTE_LINES - 1), `${notes[MAX_NOTE_LINES - 1]}…`] : notes),
+    ];
+    const infoItems: PdfItem[] = infoLines.map((text, i) => (
+      { type: 'text', text, x: MARGIN, y: MARGIN + 60 + i * (NOTE_SIZE + 4), size: NOTE_SIZE, color: '#374151' }
+    ));
+
+    const top = MARGIN + 56 + (infoLines.length ? infoLines.length * (NOTE_SIZE + 4) + 12 : 0);
+    const maxHeight = A4.height - top - MARGIN;
+    const fit = Math.min(maxWidth / canvas.width, maxHeight / canvas.height);
+    const width = canvas.width * fit;
+    const height = canvas.height * fit;
+
+    const items: PdfItem[] = [
+      { type: 'text', text: sketch.title, x: MARGIN, y: MARGIN + 20, size: 20, font: 'serif' },
+      { type: 'text', text: `${project.name}  ·  ${formatDate(sketch.createdAt)}`, x: MARGIN, y: MARGIN + 40, size: 10, color: '#6B7280' },
+      ...infoItems,
+      { type: 'image', image: { jpeg, width: canvas.width, height: canvas.height }, x: (A4.width - width) / 2, y: top, width, height },
+    ];
+    pages.push({ ...A4, items });
+  }
+
+  return { blob: createPdf(pages, project.name), filename: `${fileSlug(project.name)}-lookbook.pdf` };
+};
+
+// --- SHARING ---
+
+/** Offers the file to the share sheet where supported, otherwise downloads it. */
+export const shareOrDownload = async ({ blob, filename }: ExportFile): Promise<void> => {
+  const file = new File([blob], filename, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: filename });
+      return;
+    } catch (e) {
+      // Closing the share sheet isn't an error
+      if (e instanceof DOMException && e.name === 'AbortError') return;
+      // Sharing needs a recent tap; a long render can outlast it, so download instead
+      if (!(e instanceof DOMException && e.name === 'NotAllowedError')) throw e;
+    }
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,97 @@
+// --- DEVICE PREFERENCES ---
+// Small per-device settings that are not part of the library, kept in localStorage.
+
+import { SavedFilter, StabilizerMode, SymmetryMode } from '../types';
+import { createId } from '../utils/id';
+
+const RECENT_COLORS_KEY = 'atelier.recentColors';
+const STABILIZER_KEY = 'atelier.stabilizer';
+const SYMMETRY_KEY = 'atelier.symmetry';
+const FILL_KEY = 'atelier.fill';
+const OVERLAYS_KEY = 'atelier.overlays';
+const DEVICE_ID_KEY = 'atelier.deviceId';
+const SAVED_FILTERS_KEY = 'atelier.savedFilters';
+const MAX_RECENT_COLORS = 12;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save preference ${key}`, e);
+  }
+};
+
+/** Stable id for this device, recorded on the sketches it edits so sync can tell copies apart. */
+export const getDeviceId = (): string => {
+  const stored = readJson<string | null>(DEVICE_ID_KEY, null);
+  if (stored) return stored;
+  const id = createId('device');
+  writeJson(DEVICE_ID_KEY, id);
+  return id;
+};
+
+export const getRecentColors = (): string[] => readJson<string[]>(RECENT_COLORS_KEY, []);
+
+/** Moves a colour to the front of the recent list and returns the updated list. */
+export const pushRecentColor = (color: string): string[] => {
+  const recent = [color, ...getRecentColors().filter(c => c !== color)].slice(0, MAX_RECENT_COLORS);
+  writeJson(RECENT_COLORS_KEY, recent);
+  return recent;
+};
+
+export interface StabilizerSettings {
+  mode: StabilizerMode;
+  strength: number; // 0-100
+}
+
+export const getStabilizerSettings = (): StabilizerSettings =>
+  readJson<StabilizerSettings>(STABILIZER_KEY, { mode: 'pulled-string', strength: 20 });
+
+export const saveStabilizerSettings = (settings: StabilizerSettings) => writeJson(STABILIZER_KEY, settings);
+
+export interface SymmetrySettings {
+  mode: SymmetryMode;
+  segments: number; // Copies around the centre in radial mode, including the original
+}
+
+export const getSymmetrySettings = (): SymmetrySettings =>
+  readJson<SymmetrySettings>(SYMMETRY_KEY, { mode: 'off', segments: 6 });
+
+export const saveSymmetrySettings = (settings: SymmetrySettings) => writeJson(SYMMETRY_KEY, settings);
+
+export interface FillSettings {
+  tolerance: number; // 0-100
+  gap: number; // Gaps to close, in document units
+  swatchId: string | null; // Swatch to fill with; the brush colour when null
+  scale: number; // Swatch repeat size
+  rotation: number; // Swatch angle, radians
+}
+
+export const getFillSettings = (): FillSettings =>
+  readJson<FillSettings>(FILL_KEY, { tolerance: 20, gap: 4, swatchId: null, scale: 1, rotation: 0 });
+
+export const saveFillSettings = (settings: FillSettings) => writeJson(FILL_KEY, settings);
+
+// Drawing aids shown over the page
+export interface OverlaySettings {
+  grid: boolean;
+  centerLines: boolean;
+}
+
+export const getOverlaySettings = (): OverlaySettings =>
+  readJson<OverlaySettings>(OVERLAYS_KEY, { grid: false, centerLines: false });
+
+export const saveOverlaySettings = (settings: OverlaySettings) => writeJson(OVERLAYS_KEY, settings);
+
+export const getSavedFilters = (): SavedFilter[] => readJson<SavedFilter[]>(SAVED_FILTERS_KEY, []);
+
+export const saveSavedFilters = (filters: SavedFilter[]) => writeJson(SAVED_FILTERS_KEY, filters);
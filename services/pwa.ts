@@ -0,0 +1,99 @@
+// --- SERVICE WORKER & INSTALL ---
+// Registers the offline service worker (sw.js) and surfaces the two moments the UI
+// cares about: a new build waiting to take over, and the browser offering install.
+
+const SERVICE_WORKER_URL = process.env.SERVICE_WORKER;
+const UPDATE_CHECK_INTERVAL = 60 * 60_000;
+
+/** Activates the waiting worker; the page reloads once it has taken control. */
+export type ApplyUpdate = () => void;
+
+/**
+ * Registers the service worker (production builds only) and calls `onUpdate` when a
+ * new version has installed and is waiting. Returns a function that stops watching.
+ */
+export const registerServiceWorker = (onUpdate: (apply: ApplyUpdate) => void): (() => void) => {
+  if (!SERVICE_WORKER_URL || !('serviceWorker' in navigator)) return () => {};
+
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let reloading = false;
+
+  const onControllerChange = () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  };
+
+  const notify = (worker: ServiceWorker) => {
+    onUpdate(() => {
+      navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  navigator.serviceWorker
+    .register(SERVICE_WORKER_URL)
+    .then((registration) => {
+      // Without a controller this is the first install, not an update
+      if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) notify(installing);
+        });
+      });
+
+      // The page loaded before the worker on a first visit, so the worker fetched none of
+      // its third-party files; it is told which ones to keep for offline launches
+      navigator.serviceWorker.ready
+        .then(({ active }) => active?.postMessage({
+          type: 'CACHE_URLS',
+          urls: performance.getEntriesByType('resource').map(entry => entry.name),
+        }))
+        .catch(e => console.error("Failed to cache offline resources", e));
+
+      // Long-lived sessions (an installed app left open) still hear about new builds
+      interval = setInterval(() => {
+        registration.update().catch(e => console.error("Failed to check for app update", e));
+      }, UPDATE_CHECK_INTERVAL);
+    })
+    .catch(e => console.error("Failed to register service worker", e));
+
+  return () => {
+    if (interval) clearInterval(interval);
+    navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+  };
+};
+
+// Not yet in the DOM typings
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/**
+ * Calls `onAvailable` with an install action when the browser offers to install the
+ * app, and with null once it is installed. Returns a function that stops listening.
+ */
+export const listenForInstallPrompt = (onAvailable: (install: (() => Promise<void>) | null) => void): (() => void) => {
+  const onBeforeInstall = (event: Event) => {
+    // Keep the browser's own mini-infobar away; the gallery shows an Install button instead
+    event.preventDefault();
+    const prompt = event as BeforeInstallPromptEvent;
+    onAvailable(async () => {
+      await prompt.prompt();
+      await prompt.userChoice;
+      // A prompt can only be used once, whatever the answer
+      onAvailable(null);
+    });
+  };
+  const onInstalled = () => onAvailable(null);
+
+  window.addEventListener('beforeinstallprompt', onBeforeInstall);
+  window.addEventListener('appinstalled', onInstalled);
+  return () => {
+    window.removeEventListener('beforeinstallprompt', onBeforeInstall);
+    window.removeEventListener('appinstalled', onInstalled);
+  };
+};
@@ -0,0 +1,750 @@
+import { CustomTemplate, LibraryFilter, Palette, Project, Sketch, SketchDocument, Snapshot, Swatch } from '../types';
+import { PAGE_HEIGHT, PAGE_WIDTH, PackedLayer, packLayer, unpackLayer } from '../utils/layers';
+import { History, PackedCommand, packCommand, restoreHistory, unpackCommand } from '../utils/history';
+import { compareSketches, dateBounds, matchesFilter } from '../utils/search';
+
+// --- INDEXEDDB LIBRARY STORE ---
+// Projects, sketches and sketch image data live in separate object stores so the
+// gallery can be rebuilt at startup and a single save only rewrites what changed.
+
+const DB_NAME = 'atelier';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Entry N upgrades the database from version N to N + 1. Append new entries for
+// schema changes; never edit a migration that has already shipped.
+const MIGRATIONS: Migration[] = [
+  // v1: projects, sketches (indexed by project) and flattened sketch images
+  (db) => {
+    db.createObjectStore('projects', { keyPath: 'id' });
+    const sketches = db.createObjectStore('sketches', { keyPath: 'id' });
+    sketches.createIndex('projectId', 'projectId');
+    db.createObjectStore('images', { keyPath: 'sketchId' });
+  },
+  // v2: layered working documents, keyed by sketch
+  (db) => {
+    db.createObjectStore('documents', { keyPath: 'sketchId' });
+  },
+  // v3: vector strokes per layer and a fixed page size; raster-only documents keep
+  // their pixels as the layer bitmap and start with no strokes
+  (_db, tx) => {
+    const cursorRequest = tx.objectStore('documents').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const doc = cursor.value;
+      cursor.update({
+        ...doc,
+        width: doc.width ?? PAGE_WIDTH,
+        height: doc.height ?? PAGE_HEIGHT,
+        layers: doc.layers.map((layer: DocumentRecord['layers'][number]) => ({ ...layer, strokes: layer.strokes ?? [] })),
+      });
+      cursor.continue();
+    };
+  },
+  // v4: undo/redo history per sketch, saved alongside its document
+  (db) => {
+    db.createObjectStore('history', { keyPath: 'sketchId' });
+  },
+  // v5: named colour palettes per project
+  (_db, tx) => {
+    const cursorRequest = tx.objectStore('projects').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, palettes: cursor.value.palettes ?? [] });
+      cursor.continue();
+    };
+  },
+  // v6: sync outbox, one pending upload per sketch. Sketches marked ready by the old
+  // mock sync were never uploaded and have nothing queued, so they go back to local.
+  (db, tx) => {
+    db.createObjectStore('outbox', { keyPath: 'sketchId' });
+    const cursorRequest = tx.objectStore('sketches').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (cursor.value.status === 'Ready for Atelier Sync') {
+        cursor.update({ ...cursor.value, status: 'Local Sketch' });
+      }
+      cursor.continue();
+    };
+  },
+  // v7: sync revisions on sketches, and conflicting versions kept after resolution
+  (db, tx) => {
+    const conflicts = db.createObjectStore('conflicts', { keyPath: 'id' });
+    conflicts.createIndex('sketchId', 'sketchId');
+    const cursorRequest = tx.objectStore('sketches').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update({
+        ...cursor.value,
+        revision: cursor.value.revision ?? 0,
+        updatedAt: cursor.value.updatedAt ?? new Date(cursor.value.createdAt).toISOString(),
+        deviceId: cursor.value.deviceId ?? '',
+      });
+      cursor.continue();
+    };
+  },
+  // v8: archived projects, and a trash holding deleted sketches and projects
+  (db, tx) => {
+    db.createObjectStore('trash', { keyPath: 'id' });
+    const cursorRequest = tx.objectStore('projects').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, archived: cursor.value.archived ?? false });
+      cursor.continue();
+    };
+  },
+  // v9: tags on sketches, and indexes for searching the library
+  (_db, tx) => {
+    const sketches = tx.objectStore('sketches');
+    sketches.createIndex('createdAt', 'createdAt');
+    sketches.createIndex('updatedAt', 'updatedAt');
+    sketches.createIndex('status', 'status');
+    sketches.createIndex('tags', 'tags', { multiEntry: true });
+    const cursorRequest = sketches.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, tags: cursor.value.tags ?? [] });
+      cursor.continue();
+    };
+  },
+  // v10: notes and garment details on sketches
+  (_db, tx) => {
+    const cursorRequest = tx.objectStore('sketches').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, notes: cursor.value.notes ?? '', details: cursor.value.details ?? {} });
+      cursor.continue();
+    };
+  },
+  // v11: sketches saved as templates for new sketches
+  (db) => {
+    db.createObjectStore('templates', { keyPath: 'id' });
+  },
+  // v12: textile swatches per project
+  (_db, tx) => {
+    const cursorRequest = tx.objectStore('projects').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, swatches: cursor.value.swatches ?? [] });
+      cursor.continue();
+    };
+  },
+  // v13: named versions of sketches
+  (db) => {
+    const snapshots = db.createObjectStore('snapshots', { keyPath: 'id' });
+    snapshots.createIndex('sketchId', 'sketchId');
+  },
+  // v14: unsaved work on the open sketch, autosaved for recovery after a crash
+  (db) => {
+    db.createObjectStore('drafts', { keyPath: 'sketchId' });
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+interface ProjectRecord {
+  id: string;
+  name: string;
+  order: number;
+  sketchIds: string[];
+  palettes: Palette[];
+  swatches: Swatch[];
+  archived: boolean;
+}
+
+interface SketchRecord extends Omit<Sketch, 'thumbnail'> {
+  projectId: string;
+}
+
+// Documents are stored with packed stroke points; see utils/strokes
+export interface DocumentRecord extends Omit<SketchDocument, 'layers'> {
+  layers: PackedLayer[];
+}
+
+interface SnapshotRecord extends Omit<Snapshot, 'document'> {
+  document: DocumentRecord;
+}
+
+interface HistoryRecord {
+  sketchId: string;
+  undo: PackedCommand[];
+  redo: PackedCommand[];
+}
+
+/**
+ * Changes to a sketch made since it was last saved, autosaved while it is open. A
+ * draft left behind means the app closed before the work was saved or discarded.
+ */
+export interface Draft {
+  sketchId: string;
+  savedAt: string;
+  document: SketchDocument;
+  history: History;
+}
+
+interface DraftRecord extends Omit<Draft, 'document' | 'history'> {
+  document: DocumentRecord;
+  undo: PackedCommand[];
+  redo: PackedCommand[];
+}
+
+/** A sketch waiting to be uploaded; see services/sync. */
+export interface OutboxRecord {
+  sketchId: string;
+  queuedAt: number; // ms since epoch; changes when the sketch is queued again
+  attempts: number; // Failed attempts so far
+  nextAttemptAt: number; // ms since epoch
+  lastError?: string;
+}
+
+/** A server version that diverged from the local copy of a sketch; see services/sync. */
+export interface ConflictRecord {
+  id: string;
+  sketchId: string;
+  detectedAt: string;
+  remote: RemoteVersion;
+  resolution?: ConflictResolution;
+  resolvedAt?: string;
+  // The version that lost, kept so nothing is ever silently discarded
+  discarded?: RemoteVersion;
+}
+
+export type ConflictResolution = 'keep-mine' | 'keep-theirs' | 'keep-both';
+
+/** A sketch with its packed document, as exchanged with the sync server. */
+export interface RemoteVersion {
+  projectId: string;
+  sketch: Sketch;
+  document: DocumentRecord | null;
+}
+
+/**
+ * Sketches, or a whole project, moved to the trash. Their sketch records and
+ * documents stay where they are until the entry is purged.
+ */
+export interface TrashEntry {
+  id: string;
+  deletedAt: string;
+  projectId: string; // The project they came from (or the deleted project itself)
+  position: number; // Where they go back: the project's index, or the sketch's index within its project
+  project?: Omit<Project, 'sketches'>; // Set when the whole project was deleted
+  sketches: Sketch[];
+}
+
+interface TrashRecord extends Omit<TrashEntry, 'sketches'> {
+  sketchIds: string[];
+}
+
+interface ImageRecord {
+  sketchId: string;
+  dataUrl: string;
+  updatedAt: string;
+}
+
+// --- PROMISE HELPERS ---
+
+export const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const tx = req.transaction!;
+      for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab upgraded the schema: close so its upgrade is not blocked.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => console.warn('Atelier database upgrade blocked by another open tab');
+  });
+
+  // Allow a retry after a failed open instead of caching the rejection.
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// --- RECORD MAPPING ---
+
+const toProjectRecord = (project: Project, order: number): ProjectRecord => ({
+  id: project.id,
+  name: project.name,
+  order,
+  sketchIds: project.sketches.map(s => s.id),
+  palettes: project.palettes,
+  swatches: project.swatches,
+  archived: project.archived,
+});
+
+// Writes every project in display order and drops stored projects no longer listed
+const writeProjects = (tx: IDBTransaction, projects: Project[]) => {
+  const store = tx.objectStore('projects');
+  const listed = new Set(projects.map(p => p.id));
+  const keysRequest = store.getAllKeys();
+  keysRequest.onsuccess = () => {
+    keysRequest.result.forEach(key => {
+      if (!listed.has(key as string)) store.delete(key);
+    });
+  };
+  projects.forEach((project, index) => store.put(toProjectRecord(project, index)));
+};
+
+const toSketchRecord = (projectId: string, sketch: Sketch): SketchRecord => {
+  const { thumbnail, ...rest } = sketch;
+  return { ...rest, projectId };
+};
+
+export const toDocumentRecord = (doc: SketchDocument): DocumentRecord => ({
+  ...doc,
+  layers: doc.layers.map(packLayer),
+});
+
+export const fromDocumentRecord = (record: DocumentRecord): SketchDocument => ({
+  ...record,
+  layers: record.layers.map(unpackLayer),
+});
+
+const writeSketch = (tx: IDBTransaction, projectId: string, sketch: Sketch) => {
+  tx.objectStore('sketches').put(toSketchRecord(projectId, sketch));
+  if (sketch.thumbnail) {
+    const image: ImageRecord = {
+      sketchId: sketch.id,
+      dataUrl: sketch.thumbnail,
+      updatedAt: new Date().toISOString(),
+    };
+    tx.objectStore('images').put(image);
+  }
+};
+
+// --- PUBLIC API ---
+
+/** Reads every project with its sketches and image data, in display order. */
+export const loadLibrary = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['projects', 'sketches', 'images'], 'readonly');
+
+  const [projectRecords, sketchRecords, imageRecords] = await Promise.all([
+    promisify(tx.objectStore('projects').getAll() as IDBRequest<ProjectRecord[]>),
+    promisify(tx.objectStore('sketches').getAll() as IDBRequest<SketchRecord[]>),
+    promisify(tx.objectStore('images').getAll() as IDBRequest<ImageRecord[]>),
+  ]);
+
+  const images = new Map(imageRecords.map(r => [r.sketchId, r.dataUrl]));
+  const sketches = new Map<string, Sketch>(
+    sketchRecords.map(({ projectId, ...sketch }) => [
+      sketch.id,
+      { ...sketch, thumbnail: images.get(sketch.id) },
+    ])
+  );
+
+  return projectRecords
+    .sort((a, b) => a.order - b.order)
+    .map(record => ({
+      id: record.id,
+      name: record.name,
+      palettes: record.palettes,
+      swatches: record.swatches,
+      archived: record.archived,
+      sketches: record.sketchIds
+        .map(id => sketches.get(id))
+        .filter((s): s is Sketch => !!s),
+    }));
+};
+
+/**
+ * Writes the given projects and their sketches (used for first-run seeding). Records
+ * already stored are overwritten by id; any not given are left as they are.
+ */
+export const saveLibrary = async (projects: Project[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['projects', 'sketches', 'images'], 'readwrite');
+  projects.forEach((project, index) => {
+    tx.objectStore('projects').put(toProjectRecord(project, index));
+    project.sketches.forEach(sketch => writeSketch(tx, project.id, sketch));
+  });
+  await transactionDone(tx);
+};
+
+/** Writes a project's record (name, position, sketch order, palettes, swatches) without touching its sketches. */
+export const saveProject = async (project: Project, order: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('projects', 'readwrite');
+  tx.objectStore('projects').put(toProjectRecord(project, order));
+  await transactionDone(tx);
+};
+
+/** Rewrites every project record (names, order, sketch lists), e.g. after a reorder or a move. */
+export const saveProjects = async (projects: Project[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('projects', 'readwrite');
+  writeProjects(tx, projects);
+  await transactionDone(tx);
+};
+
+/** Writes a sketch and, when it has one, its image data. */
+export const saveSketch = async (projectId: string, sketch: Sketch): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['sketches', 'images'], 'readwrite');
+  writeSketch(tx, projectId, sketch);
+  await transactionDone(tx);
+};
+
+/** Reads a sketch's layered document, or null if it has never been saved with layers. */
+export const loadDocument = async (sketchId: string): Promise<SketchDocument | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction('documents', 'readonly');
+  const record = await promisify(tx.objectStore('documents').get(sketchId) as IDBRequest<DocumentRecord | undefined>);
+  return record ? fromDocumentRecord(record) : null;
+};
+
+/** Writes a document and, when given, its undo/redo history in the same transaction. */
+export const saveDocument = async (doc: SketchDocument, history?: History): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['documents', 'history'], 'readwrite');
+  tx.objectStore('documents').put(toDocumentRecord(doc));
+  if (history) {
+    const record: HistoryRecord = {
+      sketchId: doc.sketchId,
+      undo: history.undo.map(packCommand),
+      redo: history.redo.map(packCommand),
+    };
+    tx.objectStore('history').put(record);
+  }
+  await transactionDone(tx);
+};
+
+/** Reads the history saved with a sketch's document, or null if there is none. */
+export const loadHistory = async (sketchId: string): Promise<History | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction('history', 'readonly');
+  const record = await promisify(tx.objectStore('history').get(sketchId) as IDBRequest<HistoryRecord | undefined>);
+  return record ? restoreHistory(record.undo.map(unpackCommand), record.redo.map(unpackCommand)) : null;
+};
+
+/** Reads a single sketch with its image data and owning project, or null if it no longer exists. */
+export const loadSketch = async (sketchId: string): Promise<{ projectId: string; sketch: Sketch } | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['sketches', 'images'], 'readonly');
+  const [record, image] = await Promise.all([
+    promisify(tx.objectStore('sketches').get(sketchId) as IDBRequest<SketchRecord | undefined>),
+    promisify(tx.objectStore('images').get(sketchId) as IDBRequest<ImageRecord | undefined>),
+  ]);
+  if (!record) return null;
+
+  const { projectId, ...sketch } = record;
+  return { projectId, sketch: { ...sketch, thumbnail: image?.dataUrl } };
+};
+
+/** Updates some fields of a stored sketch (e.g. its sync status), leaving the rest as is. */
+export const updateSketch = async (sketchId: string, patch: Partial<Omit<Sketch, 'id' | 'thumbnail'>>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('sketches', 'readwrite');
+  const store = tx.objectStore('sketches');
+  const record = await promisify(store.get(sketchId) as IDBRequest<SketchRecord | undefined>);
+  if (record) store.put({ ...record, ...patch });
+  await transactionDone(tx);
+};
+
+// --- SEARCH ---
+
+const dateRange = (filter: LibraryFilter): IDBKeyRange | null => {
+  const { lower, upper } = dateBounds(filter);
+  if (lower && upper) return IDBKeyRange.bound(lower, upper);
+  if (lower) return IDBKeyRange.lowerBound(lower);
+  if (upper) return IDBKeyRange.upperBound(upper);
+  return null;
+};
+
+/**
+ * Ids of the sketches in the library that match a filter, in its sort order. Reads the
+ * stored sketches rather than what's on screen, narrowing by date or status with an
+ * index where the filter allows. Sketches in the trash are left out.
+ */
+export const searchLibrary = async (filter: LibraryFilter): Promise<string[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['projects', 'sketches'], 'readonly');
+  const sketches = tx.objectStore('sketches');
+
+  const range = dateRange(filter);
+  const request = range
+    ? sketches.index(filter.dateField).getAll(range)
+    : filter.statuses.length === 1
+      ? sketches.index('status').getAll(filter.statuses[0])
+      : sketches.getAll();
+
+  const [projectRecords, sketchRecords] = await Promise.all([
+    promisify(tx.objectStore('projects').getAll() as IDBRequest<ProjectRecord[]>),
+    promisify(request as IDBRequest<SketchRecord[]>),
+  ]);
+
+  // Only sketches listed in a project are in the library; the rest are in the trash
+  const listed = new Set(projectRecords.flatMap(p => p.sketchIds));
+  return sketchRecords
+    .filter(record => listed.has(record.id) && matchesFilter(record, filter))
+    .sort(compareSketches(filter))
+    .map(record => record.id);
+};
+
+// --- SYNC OUTBOX ---
+
+export const loadOutbox = async (): Promise<OutboxRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction('outbox', 'readonly');
+  return promisify(tx.objectStore('outbox').getAll() as IDBRequest<OutboxRecord[]>);
+};
+
+export const saveOutboxEntry = async (entry: OutboxRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('outbox', 'readwrite');
+  tx.objectStore('outbox').put(entry);
+  await transactionDone(tx);
+};
+
+/**
+ * Removes a sketch's outbox entry. With `queuedAt`, only removes it if it has not
+ * been queued again since (so an edit made during an upload still gets sent).
+ */
+export const deleteOutboxEntry = async (sketchId: string, queuedAt?: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('outbox', 'readwrite');
+  const store = tx.objectStore('outbox');
+  const current = await promisify(store.get(sketchId) as IDBRequest<OutboxRecord | undefined>);
+  if (current && (queuedAt === undefined || current.queuedAt === queuedAt)) store.delete(sketchId);
+  await transactionDone(tx);
+};
+
+// --- SYNC CONFLICTS ---
+
+export const saveConflict = async (conflict: ConflictRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('conflicts', 'readwrite');
+  tx.objectStore('conflicts').put(conflict);
+  await transactionDone(tx);
+};
+
+/** Reads the unresolved conflict for a sketch, if any. */
+export const loadOpenConflict = async (sketchId: string): Promise<ConflictRecord | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction('conflicts', 'readonly');
+  const records = await promisify(
+    tx.objectStore('conflicts').index('sketchId').getAll(sketchId) as IDBRequest<ConflictRecord[]>
+  );
+  return records.find(r => !r.resolution) ?? null;
+};
+
+// --- TRASH ---
+
+/** Reads everything in the trash with its sketches, most recently deleted first. */
+export const loadTrash = async (): Promise<TrashEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['trash', 'sketches', 'images'], 'readonly');
+
+  const [trashRecords, sketchRecords, imageRecords] = await Promise.all([
+    promisify(tx.objectStore('trash').getAll() as IDBRequest<TrashRecord[]>),
+    promisify(tx.objectStore('sketches').getAll() as IDBRequest<SketchRecord[]>),
+    promisify(tx.objectStore('images').getAll() as IDBRequest<ImageRecord[]>),
+  ]);
+
+  const images = new Map(imageRecords.map(r => [r.sketchId, r.dataUrl]));
+  const sketches = new Map<string, Sketch>(
+    sketchRecords.map(({ projectId, ...sketch }) => [sketch.id, { ...sketch, thumbnail: images.get(sketch.id) }])
+  );
+
+  return trashRecords
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+    .map(({ sketchIds, ...entry }) => ({
+      ...entry,
+      sketches: sketchIds.map(id => sketches.get(id)).filter((s): s is Sketch => !!s),
+    }));
+};
+
+/** Records trash entries together with the projects as they stand without them. */
+export const moveToTrash = async (entries: TrashEntry[], projects: Project[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['trash', 'projects'], 'readwrite');
+  entries.forEach(({ sketches, ...entry }) => {
+    const record: TrashRecord = { ...entry, sketchIds: sketches.map(s => s.id) };
+    tx.objectStore('trash').put(record);
+  });
+  writeProjects(tx, projects);
+  await transactionDone(tx);
+};
+
+/** Removes trash entries whose contents are back in the given projects. */
+export const restoreFromTrash = async (entryIds: string[], projects: Project[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['trash', 'projects'], 'readwrite');
+  entryIds.forEach(id => tx.objectStore('trash').delete(id));
+  writeProjects(tx, projects);
+  await transactionDone(tx);
+};
+
+/** Deletes trash entries for good, along with every record of their sketches. */
+export const purgeTrash = async (entries: TrashEntry[]): Promise<void> => {
+  const db = await openDatabase();
+  const stores = ['sketches', 'images', 'documents', 'history', 'outbox', 'drafts'];
+  const tx = db.transaction(['trash', 'conflicts', 'snapshots', ...stores], 'readwrite');
+
+  entries.forEach(entry => {
+    tx.objectStore('trash').delete(entry.id);
+    entry.sketches.forEach(sketch => {
+      stores.forEach(name => tx.objectStore(name).delete(sketch.id));
+      ['conflicts', 'snapshots'].forEach(name => {
+        const store = tx.objectStore(name);
+        const keysRequest = store.index('sketchId').getAllKeys(sketch.id);
+        keysRequest.onsuccess = () => keysRequest.result.forEach(key => store.delete(key));
+      });
+    });
+  });
+  await transactionDone(tx);
+};
+
+// --- SNAPSHOTS ---
+
+// Snapshots taken on save beyond this many per sketch are dropped, oldest first;
+// named ones are kept until deleted
+const MAX_AUTO_SNAPSHOTS = 20;
+
+/** Reads a sketch's snapshots, newest first. */
+export const loadSnapshots = async (sketchId: string): Promise<Snapshot[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction('snapshots', 'readonly');
+  const records = await promisify(tx.objectStore('snapshots').index('sketchId').getAll(sketchId) as IDBRequest<SnapshotRecord[]>);
+  return records
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(record => ({ ...record, document: fromDocumentRecord(record.document) }));
+};
+
+/** Writes a snapshot, then drops the sketch's oldest automatic snapshots over the limit. */
+export const saveSnapshot = async (snapshot: Snapshot): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('snapshots', 'readwrite');
+  const store = tx.objectStore('snapshots');
+  const record: SnapshotRecord = { ...snapshot, document: toDocumentRecord(snapshot.document) };
+  store.put(record);
+
+  const request = store.index('sketchId').getAll(snapshot.sketchId) as IDBRequest<SnapshotRecord[]>;
+  request.onsuccess = () => {
+    request.result
+      .filter(r => r.auto)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(MAX_AUTO_SNAPSHOTS)
+      .forEach(r => store.delete(r.id));
+  };
+  await transactionDone(tx);
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('snapshots', 'readwrite');
+  tx.objectStore('snapshots').delete(id);
+  await transactionDone(tx);
+};
+
+// --- DRAFTS ---
+
+/** Reads the unsaved work left on a sketch, if any. */
+export const loadDraft = async (sketchId: string): Promise<Draft | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction('drafts', 'readonly');
+  const record = await promisify(tx.objectStore('drafts').get(sketchId) as IDBRequest<DraftRecord | undefined>);
+  if (!record) return null;
+  const { undo, redo, ...draft } = record;
+  return {
+    ...draft,
+    document: fromDocumentRecord(record.document),
+    history: restoreHistory(undo.map(unpackCommand), redo.map(unpackCommand)),
+  };
+};
+
+/** Lists the sketches with unsaved work, most recently autosaved first. */
+export const loadDraftSummaries = async (): Promise<Pick<Draft, 'sketchId' | 'savedAt'>[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction('drafts', 'readonly');
+  const records = await promisify(tx.objectStore('drafts').getAll() as IDBRequest<DraftRecord[]>);
+  return records
+    .map(({ sketchId, savedAt }) => ({ sketchId, savedAt }))
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const saveDraft = async (draft: Draft): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('drafts', 'readwrite');
+  const record: DraftRecord = {
+    sketchId: draft.sketchId,
+    savedAt: draft.savedAt,
+    document: toDocumentRecord(draft.document),
+    undo: draft.history.undo.map(packCommand),
+    redo: draft.history.redo.map(packCommand),
+  };
+  tx.objectStore('drafts').put(record);
+  await transactionDone(tx);
+};
+
+export const deleteDraft = async (sketchId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('drafts', 'readwrite');
+  tx.objectStore('drafts').delete(sketchId);
+  await transactionDone(tx);
+};
+
+// --- TEMPLATES ---
+
+/** Reads the saved custom templates, newest first. */
+export const loadTemplates = async (): Promise<CustomTemplate[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction('templates', 'readonly');
+  const templates = await promisify(tx.objectStore('templates').getAll() as IDBRequest<CustomTemplate[]>);
+  return templates.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const saveTemplate = async (template: CustomTemplate): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('templates', 'readwrite');
+  tx.objectStore('templates').put(template);
+  await transactionDone(tx);
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('templates', 'readwrite');
+  tx.objectStore('templates').delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,327 @@
+import { Sketch } from '../types';
+import { emptyHistory } from '../utils/history';
+import { createId } from '../utils/id';
+import { withMetadataDefaults } from '../utils/metadata';
+import {
+  ConflictRecord,
+  ConflictResolution,
+  OutboxRecord,
+  RemoteVersion,
+  deleteOutboxEntry,
+  fromDocumentRecord,
+  loadDocument,
+  loadOpenConflict,
+  loadOutbox,
+  loadSketch,
+  saveConflict,
+  saveDocument,
+  saveOutboxEntry,
+  saveSketch,
+  toDocumentRecord,
+  updateSketch,
+} from './storage';
+
+// --- SYNC ENGINE ---
+// Sketches queued for sync sit in a persistent outbox (IndexedDB) until a transport
+// accepts them. Each upload reads the latest saved sketch and document, so queueing
+// the same sketch twice sends it once. Failed uploads retry with exponential backoff;
+// while the browser is offline nothing is attempted and no retries are used up.
+//
+// Each upload carries the server revision the local copy is based on
+// (`sketch.revision`). If the server has moved on, another device edited the sketch
+// too: the server's version is kept as a conflict until the user picks a side.
+
+/**
+ * What gets uploaded for one sketch. The server accepts it only if `sketch.revision`
+ * matches its current revision, and answers with the new revision.
+ */
+export type SyncPayload = RemoteVersion;
+
+/** Moves a payload to the server; resolves with the new revision or rejects with a SyncError. */
+export interface SyncTransport {
+  upload: (payload: SyncPayload, onProgress: (fraction: number) => void) => Promise<number>;
+}
+
+export class SyncError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+/** The server holds a newer revision than the upload was based on. */
+export class SyncConflictError extends SyncError {
+  constructor(readonly remote: RemoteVersion) {
+    super(`Server has revision ${remote.sketch.revision}`, false);
+    this.name = 'SyncConflictError';
+  }
+}
+
+// Response codes worth retrying; any other 4xx means the request itself is wrong
+const RETRYABLE_STATUSES = new Set([408, 425, 429]);
+
+/** Uploads each sketch as JSON with `PUT {endpoint}/sketches/:id`. */
+export const createHttpTransport = (endpoint: string, timeoutMs = 60_000): SyncTransport => ({
+  // XMLHttpRequest rather than fetch, which cannot report upload progress
+  upload: (payload, onProgress) => new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', `${endpoint.replace(/\/$/, '')}/sketches/${encodeURIComponent(payload.sketch.id)}`);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.timeout = timeoutMs;
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(1);
+        try {
+          resolve(JSON.parse(xhr.responseText).revision);
+        } catch {
+          reject(new SyncError('Malformed server response', true));
+        }
+      } else if (xhr.status === 409) {
+        try {
+          reject(new SyncConflictError(JSON.parse(xhr.responseText)));
+        } catch {
+          reject(new SyncError('Malformed conflict response', false));
+        }
+      } else {
+        const retryable = xhr.status >= 500 || RETRYABLE_STATUSES.has(xhr.status);
+        reject(new SyncError(`Server responded ${xhr.status}`, retryable));
+      }
+    };
+    xhr.onerror = () => reject(new SyncError('Network error', true));
+    xhr.ontimeout = () => reject(new SyncError('Upload timed out', true));
+
+    xhr.send(JSON.stringify(payload));
+  }),
+});
+
+export interface SyncOptions {
+  onUpdate: (sketchId: string, patch: Partial<Sketch>) => void; // Status and revision changes
+  onProgress: (sketchId: string, progress: number | null) => void; // null once finished
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface SyncEngine {
+  /** Queues a sketch (again) for upload; its saved document should be current. */
+  enqueue: (sketchId: string) => Promise<void>;
+  /**
+   * Settles a sketch's open conflict. The losing version is kept on the conflict
+   * record. Returns the sketch as it now stands and, for keep-both, the new copy of
+   * the server version (already saved, but not yet listed in its project).
+   */
+  resolveConflict: (sketchId: string, resolution: ConflictResolution) => Promise<{ sketch: Sketch; copy?: Sketch }>;
+  /** Resumes anything left in the outbox and starts watching connectivity. */
+  start: () => void;
+  stop: () => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BASE_DELAY = 2_000;
+const DEFAULT_MAX_DELAY = 5 * 60_000;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+const buildPayload = async (sketchId: string): Promise<SyncPayload | null> => {
+  const [stored, doc] = await Promise.all([loadSketch(sketchId), loadDocument(sketchId)]);
+  if (!stored) return null;
+  return {
+    projectId: stored.projectId,
+    sketch: stored.sketch,
+    document: doc && toDocumentRecord(doc),
+  };
+};
+
+// The same edit, e.g. an upload whose response was lost before it could be recorded
+const isSameEdit = (a: Sketch, b: Sketch) => a.updatedAt === b.updatedAt && a.deviceId === b.deviceId;
+
+export const createSyncEngine = (transport: SyncTransport, options: SyncOptions): SyncEngine => {
+  const {
+    onUpdate,
+    onProgress,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY,
+    maxDelayMs = DEFAULT_MAX_DELAY,
+  } = options;
+
+  let running = false;
+  let stopped = true;
+  let pumping = false;
+  let pumpAgain = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const update = async (sketchId: string, patch: Partial<Omit<Sketch, 'id' | 'thumbnail'>>) => {
+    await updateSketch(sketchId, patch);
+    if (!stopped) onUpdate(sketchId, patch);
+  };
+
+  // Exponential backoff with jitter so a fleet of devices doesn't retry in lockstep
+  const backoff = (attempts: number) => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+    return delay / 2 + Math.random() * delay / 2;
+  };
+
+  const schedule = (entries: OutboxRecord[]) => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (stopped || entries.length === 0) return;
+    const next = Math.min(...entries.map(e => e.nextAttemptAt));
+    timer = setTimeout(() => { pump(); }, Math.max(0, next - Date.now()));
+  };
+
+  const send = async (entry: OutboxRecord) => {
+    const payload = await buildPayload(entry.sketchId);
+    if (!payload) {
+      // The sketch was deleted while queued
+      await deleteOutboxEntry(entry.sketchId);
+      return;
+    }
+
+    const succeeded = async (revision: number) => {
+      await deleteOutboxEntry(entry.sketchId, entry.queuedAt);
+      // Queued again mid-upload: leave it waiting for the next pass, based on the new revision
+      const requeued = (await loadOutbox()).some(e => e.sketchId === entry.sketchId);
+      await update(entry.sketchId, { revision, status: requeued ? 'Ready for Atelier Sync' : 'Synced' });
+    };
+
+    await update(entry.sketchId, { status: 'Syncing' });
+    onProgress(entry.sketchId, 0);
+    try {
+      await succeeded(await transport.upload(payload, fraction => onProgress(entry.sketchId, fraction)));
+    } catch (e) {
+      if (e instanceof SyncConflictError) {
+        await deleteOutboxEntry(entry.sketchId);
+        if (isSameEdit(e.remote.sketch, payload.sketch)) {
+          await succeeded(e.remote.sketch.revision);
+        } else {
+          const conflict: ConflictRecord = {
+            id: createId('conflict'),
+            sketchId: entry.sketchId,
+            detectedAt: new Date().toISOString(),
+            remote: e.remote,
+          };
+          await saveConflict(conflict);
+          await update(entry.sketchId, { status: 'Sync Conflict' });
+        }
+        return;
+      }
+
+      const message = e instanceof Error ? e.message : String(e);
+      const retryable = !(e instanceof SyncError) || e.retryable;
+      // Failures while offline are expected and don't count against the entry
+      const attempts = isOnline() ? entry.attempts + 1 : entry.attempts;
+
+      if (retryable && attempts < maxAttempts) {
+        await saveOutboxEntry({ ...entry, attempts, nextAttemptAt: Date.now() + backoff(Math.max(1, attempts)), lastError: message });
+        await update(entry.sketchId, { status: 'Ready for Atelier Sync' });
+      } else {
+        console.error("Failed to sync sketch", e);
+        await deleteOutboxEntry(entry.sketchId, entry.queuedAt);
+        await update(entry.sketchId, { status: 'Sync Failed' });
+      }
+    } finally {
+      onProgress(entry.sketchId, null);
+    }
+  };
+
+  // Sends every due entry, oldest first, then waits for the next one to come due
+  const pump = async () => {
+    if (stopped) return;
+    if (pumping) {
+      pumpAgain = true;
+      return;
+    }
+    pumping = true;
+    try {
+      do {
+        pumpAgain = false;
+        if (!isOnline()) break;
+
+        const due = (await loadOutbox())
+          .filter(e => e.nextAttemptAt <= Date.now())
+          .sort((a, b) => a.queuedAt - b.queuedAt);
+        for (const entry of due) {
+          if (stopped || !isOnline()) break;
+          await send(entry);
+        }
+      } while (pumpAgain && !stopped);
+
+      schedule(await loadOutbox());
+    } catch (e) {
+      console.error("Failed to process sync outbox", e);
+    } finally {
+      pumping = false;
+    }
+  };
+
+  const handleOnline = () => { pump(); };
+
+  const enqueue = async (sketchId: string) => {
+    const now = Date.now();
+    await saveOutboxEntry({ sketchId, queuedAt: now, attempts: 0, nextAttemptAt: now });
+    await update(sketchId, { status: 'Ready for Atelier Sync' });
+    pump();
+  };
+
+  const resolveConflict = async (sketchId: string, resolution: ConflictResolution) => {
+    const [conflict, local] = await Promise.all([loadOpenConflict(sketchId), buildPayload(sketchId)]);
+    if (!conflict || !local) throw new Error(`No open conflict for sketch ${sketchId}`);
+
+    const { remote } = conflict;
+    const resolved = (discarded?: RemoteVersion) =>
+      saveConflict({ ...conflict, resolution, resolvedAt: new Date().toISOString(), discarded });
+
+    if (resolution === 'keep-theirs') {
+      // The server version replaces the local one; the local one's history no longer applies
+      // Versions uploaded before sketches had metadata come back without it
+      const sketch: Sketch = { ...withMetadataDefaults(remote.sketch), id: sketchId, status: 'Synced' };
+      await saveSketch(local.projectId, sketch);
+      if (remote.document) await saveDocument(fromDocumentRecord({ ...remote.document, sketchId }), emptyHistory());
+      await resolved(local);
+      return { sketch };
+    }
+
+    let copy: Sketch | undefined;
+    if (resolution === 'keep-both') {
+      // The server version becomes a new local sketch; it syncs as a sketch of its own
+      copy = {
+        ...withMetadataDefaults(remote.sketch),
+        id: createId('sketch'),
+        title: `${remote.sketch.title} (other device)`,
+        status: 'Local Sketch',
+        revision: 0,
+      };
+      await saveSketch(local.projectId, copy);
+      if (remote.document) await saveDocument(fromDocumentRecord({ ...remote.document, sketchId: copy.id }));
+    }
+
+    // The local version goes up as the revision after the server's
+    await updateSketch(sketchId, { revision: remote.sketch.revision });
+    await resolved(resolution === 'keep-mine' ? remote : undefined);
+    await enqueue(sketchId);
+    return { sketch: { ...local.sketch, revision: remote.sketch.revision, status: 'Ready for Atelier Sync' as const }, copy };
+  };
+
+  return {
+    enqueue,
+    resolveConflict,
+    start: () => {
+      if (running) return;
+      running = true;
+      stopped = false;
+      window.addEventListener('online', handleOnline);
+      pump();
+    },
+    stop: () => {
+      running = false;
+      stopped = true;
+      window.removeEventListener('online', handleOnline);
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
@@ -1,3 +1,115 @@
-self.addEventListener('fetch', function(event) {
-  // This tells the browser the app is PWA-ready
-});
\ No newline at end of file
+// --- ATELIER SERVICE WORKER ---
+// Precaches the app shell so Atelier opens offline. The production build prepends
+// `self.__PRECACHE_MANIFEST` (every emitted file), `self.__SHELL_URL` (index.html
+// under the configured base) and `self.__BUILD_VERSION` (a hash of the files); see
+// scripts/vite-plugin-service-worker.ts. A new build therefore gets new
+// cache names, installs alongside the old one and waits until the app asks it to
+// take over (the "update available" banner), after which old caches are deleted.
+
+const VERSION = self.__BUILD_VERSION || 'dev';
+const PRECACHE = `atelier-precache-${VERSION}`;
+// Third-party resources (Tailwind, fonts, icons) outlive builds, so this name is not versioned
+const RUNTIME = 'atelier-runtime-v1';
+
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST || [];
+const SHELL_URL = self.__SHELL_URL || '/index.html';
+
+const RUNTIME_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'esm.sh',
+  'cdn-icons-png.flaticon.com',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(PRECACHE).then(cache => cache.addAll(PRECACHE_URLS))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('atelier-precache-') && key !== PRECACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Third-party files the page loaded before this worker controlled it, i.e. on the
+// first visit; without them the first offline launch can't start. CORS responses can
+// answer both module scripts and plain ones, so those are preferred.
+const cacheRuntimeUrls = async (urls) => {
+  const cache = await caches.open(RUNTIME);
+  await Promise.all(urls
+    .filter(url => RUNTIME_HOSTS.includes(new URL(url).hostname))
+    .map(async (url) => {
+      if (await cache.match(url)) return;
+      try {
+        const response = await fetch(url).catch(() => fetch(url, { mode: 'no-cors' }));
+        if (response.ok || response.type === 'opaque') await cache.put(url, response);
+      } catch (e) {
+        console.error("Failed to cache", url, e);
+      }
+    }));
+};
+
+self.addEventListener('message', (event) => {
+  if (!event.data) return;
+  if (event.data.type === 'SKIP_WAITING') self.skipWaiting();
+  if (event.data.type === 'CACHE_URLS') event.waitUntil(cacheRuntimeUrls(event.data.urls));
+});
+
+// Serve from cache, refreshing it in the background
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      // Cross-origin scripts load without CORS and come back opaque (status 0)
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+// Pages: network first so a deploy shows up immediately, falling back to the cached shell
+const navigate = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (e) {
+    const shell = await caches.match(SHELL_URL, { cacheName: PRECACHE });
+    if (shell) return shell;
+    throw e;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Uploads and other writes (e.g. sync) always go to the network
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    // Build output is content-hashed, so a cached copy is always the right one
+    event.respondWith(
+      caches.match(request, { cacheName: PRECACHE }).then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
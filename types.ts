@@ -1,21 +1,163 @@
+// 'Ready for Atelier Sync' means queued in the outbox, waiting for a connection or a retry
+export type SketchStatus = 'Local Sketch' | 'Ready for Atelier Sync' | 'Syncing' | 'Synced' | 'Sync Failed' | 'Sync Conflict';
+
 export interface Sketch {
   id: string;
   title: string;
   createdAt: string;
   thumbnail?: string; // Data URL
-  status: 'Local Sketch' | 'Ready for Atelier Sync' | 'Synced';
+  status: SketchStatus;
+  revision: number; // Server revision this copy is based on; 0 until first synced
+  updatedAt: string; // ISO time of the last saved edit
+  deviceId: string; // Device that made that edit
+  tags: string[];
+  notes: string;
+  details: Record<string, string>; // Garment details by field, e.g. fabric; see utils/metadata
+}
+
+export interface Palette {
+  id: string;
+  name: string;
+  colors: string[]; // Hex
+}
+
+export type SwatchPattern = 'stripes' | 'pinstripe' | 'gingham' | 'houndstooth' | 'polka' | 'floral' | 'photo';
+
+// A fabric to fill regions with, tiled across the page
+export interface Swatch {
+  id: string;
+  name: string;
+  pattern: SwatchPattern;
+  colors: string[]; // Hex, ground first, then the motif; unused by photos
+  image?: string; // Photo swatches: square JPEG data URL of the fabric, tiled as is
 }
 
 export interface Project {
   id: string;
   name: string;
   sketches: Sketch[];
+  palettes: Palette[]; // Shared by every sketch in the collection
+  swatches: Swatch[]; // Textile swatches for pattern fills, besides the built-in ones
+  archived: boolean; // Tucked away at the bottom of the gallery
+}
+
+export type SortKey = 'updatedAt' | 'createdAt' | 'title';
+
+// A gallery search; every set criterion must match
+export interface LibraryFilter {
+  text: string; // Each word must appear in the title, notes or details, or start a tag
+  statuses: SketchStatus[]; // Any of these; every status when empty
+  dateField: 'createdAt' | 'updatedAt'; // Which date the range applies to
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  sort: SortKey;
+  descending: boolean;
+}
+
+export interface SavedFilter {
+  id: string;
+  name: string;
+  filter: LibraryFilter;
 }
 
 export type ToolType = 'brush' | 'eraser';
 
+export type Interpolation = 'linear' | 'catmull-rom';
+
+export type StabilizerMode = 'off' | 'pulled-string' | 'moving-average';
+
+// Mirror axes: left/right, top/bottom, both at once, or copies turned around a centre
+export type SymmetryMode = 'off' | 'vertical' | 'horizontal' | 'quadrant' | 'radial';
+
+export type BrushId = 'round' | 'pencil' | 'ink' | 'marker' | 'airbrush' | 'watercolor';
+
 export interface DrawPoint {
   x: number;
   y: number;
   pressure: number;
-}
\ No newline at end of file
+  t?: number; // Milliseconds since the stroke started
+}
+
+// A brush or eraser stroke, in document coordinates
+export interface Stroke {
+  id: string;
+  tool: ToolType;
+  color: string; // Hex, e.g. #1A1A1A
+  size: number; // Document units
+  opacity: number; // 0-100
+  points: DrawPoint[];
+  brush?: BrushId; // Preset the stroke was drawn with; 'round' when absent
+  seed?: number; // Seeds the brush jitter so re-renders match
+  interpolation?: Interpolation; // How the path runs between points; 'linear' when absent
+  startedAt?: number; // Epoch ms when drawing began; orders the timelapse
+}
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'soft-light';
+
+// Where a reference layer's photo (its bitmap) sits on the page
+export interface ReferencePlacement {
+  width: number; // Size in document units at scale 1
+  height: number;
+  x: number; // Centre, in document units
+  y: number;
+  scale: number;
+  rotation: number; // Radians, clockwise
+}
+
+// A bucket fill: a closed region of the page painted with a colour or a tiled swatch
+export interface RegionFill {
+  id: string;
+  mask: string; // PNG data URL, white where the region is, covering `bounds`
+  bounds: { x: number; y: number; width: number; height: number }; // Document units
+  color: string; // Hex; painted when there is no swatch
+  swatch?: Swatch; // Copied in, so the fill keeps its fabric if the swatch is deleted
+  scale: number; // Size of the swatch repeat, 1 being its natural size
+  rotation: number; // Radians, clockwise
+  opacity: number; // 0-100
+  createdAt?: number; // Epoch ms; places the fill in the timelapse
+  // Where a selection moved the fill: [a, b, c, d, e, f] as in DOMMatrix, applied after
+  // `bounds`; absent until the fill is first moved
+  transform?: [number, number, number, number, number, number];
+}
+
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number; // 0-100
+  blendMode: BlendMode;
+  bitmap?: string; // Image data URL drawn beneath the strokes, stretched to the page unless placed by `reference`
+  strokes: Stroke[];
+  fills?: RegionFill[]; // Painted over the bitmap and beneath the strokes, oldest first
+  underlay?: boolean; // Template figure or flat to draw over; always locked
+  reference?: ReferencePlacement; // Makes the bitmap a photo to trace, moved and scaled freely; locked for drawing
+  excludeFromExport?: boolean; // Left out of PNG, OpenRaster, SVG and lookbook exports
+}
+
+export interface SketchDocument {
+  sketchId: string;
+  width: number; // Page size in document units
+  height: number;
+  layers: Layer[]; // Bottom to top
+  activeLayerId: string;
+}
+
+// A saved version of a sketch, taken by hand or on every save
+export interface Snapshot {
+  id: string;
+  sketchId: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  auto: boolean; // Taken on save; only the most recent are kept
+  thumbnail: string; // JPEG data URL of the flattened page
+  document: SketchDocument;
+}
+
+// A sketch saved to start new sketches from, flattened into an underlay image
+export interface CustomTemplate {
+  id: string;
+  name: string;
+  createdAt: string;
+  image: string; // Transparent PNG data URL of the whole page
+}
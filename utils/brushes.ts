@@ -0,0 +1,369 @@
+import { BrushId, DrawPoint, Stroke } from '../types';
+import { catmullRomSamples } from './smoothing';
+
+// --- BRUSH PRESETS ---
+// A brush is a tip stamped repeatedly along the stroke path. Presets describe the
+// tip, how densely it is stamped, how pressure and velocity shape each dab, and how
+// much randomness (jitter) is applied. Jitter is seeded per stroke, so a stroke
+// always re-renders identically.
+
+export type TipShape = 'hard' | 'soft' | 'grain' | 'wet';
+
+// Maps an input in [0, 1] to min..max; gamma > 1 keeps the output low for longer
+export interface DynamicsCurve {
+  min: number;
+  max: number;
+  gamma?: number;
+}
+
+export interface BrushPreset {
+  id: BrushId;
+  name: string;
+  tip: TipShape;
+  spacing: number; // Distance between dabs as a fraction of their diameter
+  roundness: number; // Tip height / width; 1 is circular
+  followDirection: boolean; // Rotate the tip along the stroke, like a chisel nib
+  flow: number; // Alpha of a single dab; dabs build up within the stroke
+  size: { pressure: DynamicsCurve; velocity: DynamicsCurve };
+  opacity: { pressure: DynamicsCurve; velocity: DynamicsCurve };
+  jitter: {
+    size: number; // ± fraction of the diameter
+    opacity: number; // ± fraction of the dab alpha
+    angle: number; // Fraction of a full turn
+    scatter: number; // Offset as a fraction of the diameter
+  };
+  composite: GlobalCompositeOperation; // How the finished stroke lands on its layer
+}
+
+const FLAT: DynamicsCurve = { min: 1, max: 1 };
+const NO_JITTER = { size: 0, opacity: 0, angle: 0, scatter: 0 };
+
+export const BRUSH_PRESETS: BrushPreset[] = [
+  {
+    id: 'round',
+    name: 'Round',
+    tip: 'hard',
+    spacing: 0.1,
+    roundness: 1,
+    followDirection: false,
+    flow: 1,
+    size: { pressure: { min: 1, max: 2 }, velocity: FLAT },
+    opacity: { pressure: FLAT, velocity: FLAT },
+    jitter: NO_JITTER,
+    composite: 'source-over',
+  },
+  {
+    id: 'pencil',
+    name: 'Graphite Pencil',
+    tip: 'grain',
+    spacing: 0.15,
+    roundness: 1,
+    followDirection: false,
+    flow: 0.5,
+    size: { pressure: { min: 0.6, max: 1.2 }, velocity: FLAT },
+    opacity: { pressure: { min: 0.2, max: 1, gamma: 1.4 }, velocity: FLAT },
+    jitter: { size: 0.1, opacity: 0.2, angle: 1, scatter: 0.05 },
+    composite: 'source-over',
+  },
+  {
+    id: 'ink',
+    name: 'Fineliner',
+    tip: 'hard',
+    spacing: 0.05,
+    roundness: 1,
+    followDirection: false,
+    flow: 1,
+    size: { pressure: { min: 0.9, max: 1.1 }, velocity: { min: 1, max: 0.75 } },
+    opacity: { pressure: FLAT, velocity: FLAT },
+    jitter: NO_JITTER,
+    composite: 'source-over',
+  },
+  {
+    id: 'marker',
+    name: 'Alcohol Marker',
+    tip: 'hard',
+    spacing: 0.05,
+    roundness: 0.35,
+    followDirection: true,
+    flow: 1,
+    size: { pressure: { min: 0.9, max: 1.1 }, velocity: FLAT },
+    opacity: { pressure: FLAT, velocity: FLAT },
+    jitter: NO_JITTER,
+    // Overlapping strokes darken like layered marker ink
+    composite: 'multiply',
+  },
+  {
+    id: 'airbrush',
+    name: 'Soft Airbrush',
+    tip: 'soft',
+    spacing: 0.05,
+    roundness: 1,
+    followDirection: false,
+    flow: 0.08,
+    size: { pressure: { min: 0.8, max: 1.3 }, velocity: FLAT },
+    opacity: { pressure: { min: 0.2, max: 1 }, velocity: FLAT },
+    jitter: NO_JITTER,
+    composite: 'source-over',
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolour',
+    tip: 'wet',
+    spacing: 0.12,
+    roundness: 1,
+    followDirection: false,
+    flow: 0.18,
+    size: { pressure: { min: 0.8, max: 1.4 }, velocity: FLAT },
+    opacity: { pressure: { min: 0.5, max: 1 }, velocity: { min: 1, max: 0.5 } },
+    jitter: { size: 0.2, opacity: 0.3, angle: 1, scatter: 0.08 },
+    composite: 'multiply',
+  },
+];
+
+export const getBrushPreset = (id: BrushId | undefined): BrushPreset =>
+  BRUSH_PRESETS.find(p => p.id === id) ?? BRUSH_PRESETS[0];
+
+export const evaluateCurve = (curve: DynamicsCurve, input: number) =>
+  curve.min + (curve.max - curve.min) * Math.pow(Math.max(0, Math.min(1, input)), curve.gamma ?? 1);
+
+// Document units per millisecond at which velocity dynamics reach half effect
+const VELOCITY_REFERENCE = 1.5;
+
+// --- SEEDED RANDOMNESS ---
+
+/** mulberry32: small, fast and good enough for brush jitter. */
+export const seededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// --- TIPS ---
+
+const TIP_RESOLUTION = 96;
+const tipMasks = new Map<TipShape, HTMLCanvasElement>();
+const coloredTips = new Map<string, HTMLCanvasElement>();
+
+const createTipMask = (shape: TipShape): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TIP_RESOLUTION;
+  canvas.height = TIP_RESOLUTION;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  const r = TIP_RESOLUTION / 2;
+  if (shape === 'hard') {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.beginPath();
+    ctx.arc(r, r, r - 1, 0, Math.PI * 2);
+    ctx.fill();
+    return canvas;
+  }
+
+  if (shape === 'soft') {
+    const gradient = ctx.createRadialGradient(r, r, 0, r, r, r);
+    gradient.addColorStop(0, 'rgba(255,255,255,1)');
+    gradient.addColorStop(0.5, 'rgba(255,255,255,0.5)');
+    gradient.addColorStop(1, 'rgba(255,255,255,0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, TIP_RESOLUTION, TIP_RESOLUTION);
+    return canvas;
+  }
+
+  // Textured tips are built per pixel from a fixed seed so they never change
+  const random = seededRandom(shape === 'grain' ? 7 : 11);
+  const image = ctx.createImageData(TIP_RESOLUTION, TIP_RESOLUTION);
+  for (let y = 0; y < TIP_RESOLUTION; y++) {
+    for (let x = 0; x < TIP_RESOLUTION; x++) {
+      const d = Math.hypot(x - r, y - r) / r;
+      if (d > 1) continue;
+      const noise = random();
+      const alpha = shape === 'grain'
+        // Graphite: speckled paper tooth with a slightly soft edge
+        ? (noise > 0.45 ? 1 : noise * 0.8) * Math.min(1, (1 - d) * 4)
+        // Watercolour: pale centre, pigment pooled at the rim, irregular edge
+        : (0.35 + 0.5 * Math.pow(d, 3)) * (0.8 + 0.2 * noise) * (d > 0.92 + noise * 0.08 ? 0 : 1);
+      const i = (y * TIP_RESOLUTION + x) * 4;
+      image.data[i] = 255;
+      image.data[i + 1] = 255;
+      image.data[i + 2] = 255;
+      image.data[i + 3] = Math.round(alpha * 255);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+const getTip = (shape: TipShape, color: string): HTMLCanvasElement => {
+  const key = `${shape}|${color}`;
+  let tip = coloredTips.get(key);
+  if (tip) return tip;
+
+  let mask = tipMasks.get(shape);
+  if (!mask) {
+    mask = createTipMask(shape);
+    tipMasks.set(shape, mask);
+  }
+
+  tip = document.createElement('canvas');
+  tip.width = TIP_RESOLUTION;
+  tip.height = TIP_RESOLUTION;
+  const ctx = tip.getContext('2d');
+  if (ctx) {
+    ctx.drawImage(mask, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, TIP_RESOLUTION, TIP_RESOLUTION);
+  }
+
+  // Colours come and go with the picker; keep the cache small
+  if (coloredTips.size > 64) coloredTips.delete(coloredTips.keys().next().value!);
+  coloredTips.set(key, tip);
+  return tip;
+};
+
+// --- DAB STAMPING ---
+
+export interface DabState {
+  random: () => number;
+  index: number; // Last point whose segment has been stamped
+  carry: number; // Distance along the next segment before the next dab
+  velocity: number; // Smoothed, document units per millisecond
+}
+
+/** Base diameter of a stroke before dynamics, in document units. */
+export const strokeDiameter = (stroke: Stroke) => (stroke.tool === 'eraser' ? stroke.size * 2 : stroke.size);
+
+const stampDab = (
+  ctx: CanvasRenderingContext2D,
+  stroke: Stroke,
+  preset: BrushPreset,
+  tip: HTMLCanvasElement,
+  state: DabState,
+  point: DrawPoint,
+  direction: number
+): number => {
+  const velocityInput = state.velocity / (state.velocity + VELOCITY_REFERENCE);
+  const { jitter } = preset;
+  const jitterOf = (amount: number) => (amount ? (state.random() * 2 - 1) * amount : 0);
+
+  const diameter = Math.max(0.1,
+    strokeDiameter(stroke)
+    * evaluateCurve(preset.size.pressure, point.pressure)
+    * evaluateCurve(preset.size.velocity, velocityInput)
+    * (1 + jitterOf(jitter.size)));
+  const alpha = Math.max(0, Math.min(1,
+    preset.flow
+    * evaluateCurve(preset.opacity.pressure, point.pressure)
+    * evaluateCurve(preset.opacity.velocity, velocityInput)
+    * (1 + jitterOf(jitter.opacity))));
+  const angle = (preset.followDirection ? direction : 0) + jitterOf(jitter.angle) * Math.PI;
+  const scatter = jitterOf(jitter.scatter) * diameter;
+  const scatterAngle = jitter.scatter ? state.random() * Math.PI * 2 : 0;
+
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.translate(point.x + Math.cos(scatterAngle) * scatter, point.y + Math.sin(scatterAngle) * scatter);
+  ctx.rotate(angle);
+  ctx.scale(1, preset.roundness);
+  ctx.drawImage(tip, -diameter / 2, -diameter / 2, diameter, diameter);
+  ctx.restore();
+
+  return diameter;
+};
+
+export const beginDabs = (stroke: Stroke): DabState => ({
+  random: seededRandom(stroke.seed ?? 1),
+  index: 0,
+  carry: 0,
+  velocity: 0,
+});
+
+const stampLine = (
+  ctx: CanvasRenderingContext2D,
+  stroke: Stroke,
+  preset: BrushPreset,
+  tip: HTMLCanvasElement,
+  state: DabState,
+  from: DrawPoint,
+  to: DrawPoint
+) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy);
+  const direction = Math.atan2(dy, dx);
+
+  let distance = state.carry;
+  while (distance <= length) {
+    const f = length === 0 ? 0 : distance / length;
+    const point: DrawPoint = {
+      x: from.x + dx * f,
+      y: from.y + dy * f,
+      pressure: from.pressure + (to.pressure - from.pressure) * f,
+    };
+    const diameter = stampDab(ctx, stroke, preset, tip, state, point, direction);
+    distance += Math.max(0.5, diameter * preset.spacing);
+  }
+  state.carry = distance - length;
+};
+
+/**
+ * Stamps dabs for every segment not yet stamped. Calling it repeatedly while points
+ * arrive gives the same dabs as one call at the end. A curved segment needs the
+ * point after it, so until `final` the newest curved segment waits for that point.
+ */
+export const stampDabs = (ctx: CanvasRenderingContext2D, stroke: Stroke, state: DabState, final = true) => {
+  const { points } = stroke;
+  if (points.length === 0) return;
+
+  const preset = getBrushPreset(stroke.brush);
+  const tip = getTip(preset.tip, stroke.tool === 'eraser' ? '#000000' : stroke.color);
+  ctx.globalCompositeOperation = 'source-over';
+
+  // The first point always gets a dab, so taps leave a mark
+  if (state.index === 0 && state.carry === 0) {
+    const diameter = stampDab(ctx, stroke, preset, tip, state, points[0], 0);
+    state.carry = Math.max(0.5, diameter * preset.spacing);
+  }
+
+  const curved = stroke.interpolation === 'catmull-rom';
+  const last = curved && !final ? points.length - 2 : points.length - 1;
+
+  for (let i = state.index + 1; i <= last; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+
+    if (from.t !== undefined && to.t !== undefined) {
+      const speed = Math.hypot(to.x - from.x, to.y - from.y) / Math.max(1, to.t - from.t);
+      state.velocity = state.velocity * 0.7 + speed * 0.3;
+    }
+
+    const samples = curved
+      ? catmullRomSamples(points[i - 2] ?? from, from, to, points[i + 1] ?? to)
+      : [from, to];
+    for (let k = 1; k < samples.length; k++) {
+      stampLine(ctx, stroke, preset, tip, state, samples[k - 1], samples[k]);
+    }
+  }
+  state.index = Math.max(state.index, last);
+};
+
+/** How a finished stroke buffer is composited onto its layer. */
+export const strokeComposite = (stroke: Stroke): { operation: GlobalCompositeOperation; alpha: number } =>
+  stroke.tool === 'eraser'
+    ? { operation: 'destination-out', alpha: 1 }
+    : { operation: getBrushPreset(stroke.brush).composite, alpha: stroke.opacity / 100 };
+
+/** Largest radius a dab of this stroke can reach, for bounding boxes. */
+export const maxDabRadius = (stroke: Stroke): number => {
+  const preset = getBrushPreset(stroke.brush);
+  const sizeMax = Math.max(preset.size.pressure.min, preset.size.pressure.max)
+    * Math.max(preset.size.velocity.min, preset.size.velocity.max)
+    * (1 + preset.jitter.size);
+  return (strokeDiameter(stroke) * sizeMax * (1 + preset.jitter.scatter * 2)) / 2 + 1;
+};
@@ -0,0 +1,74 @@
+/** Parses #RGB or #RRGGBB; falls back to black for anything else. */
+export const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
+  let value = hex.replace('#', '');
+  if (value.length === 3) value = value.split('').map(c => c + c).join('');
+  const n = parseInt(value, 16);
+  if (value.length !== 6 || Number.isNaN(n)) return { r: 0, g: 0, b: 0 };
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+};
+
+export const toRgba = (hex: string, alpha: number): string => {
+  const { r, g, b } = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  '#' + [r, g, b].map(v => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+/** Returns #RRGGBB for a valid #RGB / #RRGGBB entry (with or without '#'), else null. */
+export const normalizeHex = (input: string): string | null => {
+  const value = input.trim().replace(/^#/, '');
+  if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) return null;
+  const { r, g, b } = hexToRgb(value);
+  return rgbToHex(r, g, b);
+};
+
+// --- HSV ---
+// Hue in degrees [0, 360), saturation and value in [0, 1]
+
+export interface Hsv {
+  h: number;
+  s: number;
+  v: number;
+}
+
+export const hsvToRgb = ({ h, s, v }: Hsv): { r: number; g: number; b: number } => {
+  const c = v * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = v - c;
+  const [r, g, b] =
+    h < 60 ? [c, x, 0] :
+    h < 120 ? [x, c, 0] :
+    h < 180 ? [0, c, x] :
+    h < 240 ? [0, x, c] :
+    h < 300 ? [x, 0, c] :
+    [c, 0, x];
+  return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255 };
+};
+
+export const rgbToHsv = (r: number, g: number, b: number): Hsv => {
+  const rn = r / 255, gn = g / 255, bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const d = max - min;
+
+  let h = 0;
+  if (d !== 0) {
+    if (max === rn) h = 60 * (((gn - bn) / d) % 6);
+    else if (max === gn) h = 60 * ((bn - rn) / d + 2);
+    else h = 60 * ((rn - gn) / d + 4);
+  }
+  if (h < 0) h += 360;
+
+  return { h, s: max === 0 ? 0 : d / max, v: max };
+};
+
+export const hsvToHex = (hsv: Hsv): string => {
+  const { r, g, b } = hsvToRgb(hsv);
+  return rgbToHex(r, g, b);
+};
+
+export const hexToHsv = (hex: string): Hsv => {
+  const { r, g, b } = hexToRgb(hex);
+  return rgbToHsv(r, g, b);
+};
@@ -0,0 +1,195 @@
+import { RegionFill } from '../types';
+import { swatchRepeat, swatchTile } from './swatches';
+import { Point } from './viewport';
+
+// --- BUCKET FILL ---
+// A fill floods the page as it looks from the tapped point, stopping at colours
+// further from the tapped one than the tolerance. Gap closing thickens the outlines
+// first, so a region whose lines don't quite meet still holds the fill, then grows
+// the region back out to the lines. The region is kept as a mask image.
+
+// Mask pixels per document unit when finding a region
+export const FILL_RESOLUTION = 2;
+
+// The region grows this many pixels under its outlines, so no white shows along
+// their antialiased edges
+const EDGE_OVERLAP = 1;
+
+export interface FillOptions {
+  tolerance: number; // 0-100, how far a colour may be from the tapped one and still fill
+  gap: number; // Widest gap in the outlines to close, in document units
+}
+
+// Grows a mask by `radius` pixels each way along one axis with a sliding window
+const slide = (src: Uint8Array, out: Uint8Array, start: number, stride: number, length: number, radius: number) => {
+  let count = 0;
+  for (let i = 0; i < Math.min(radius, length); i++) count += src[start + i * stride];
+  for (let i = 0; i < length; i++) {
+    if (i + radius < length) count += src[start + (i + radius) * stride];
+    if (i - radius - 1 >= 0) count -= src[start + (i - radius - 1) * stride];
+    out[start + i * stride] = count > 0 ? 1 : 0;
+  }
+};
+
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  if (radius <= 0) return mask;
+  const rows = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) slide(mask, rows, y * width, 1, width, radius);
+  const out = new Uint8Array(mask.length);
+  for (let x = 0; x < width; x++) slide(rows, out, x, width, height, radius);
+  return out;
+};
+
+// Scanline flood fill of the unblocked pixels connected to `seed`
+const flood = (blocked: Uint8Array, width: number, height: number, seed: number): Uint8Array => {
+  const region = new Uint8Array(blocked.length);
+  const stack = [seed];
+  while (stack.length > 0) {
+    const start = stack.pop()!;
+    if (region[start] || blocked[start]) continue;
+    const row = start - (start % width);
+    let left = start;
+    while (left > row && !blocked[left - 1] && !region[left - 1]) left--;
+    let right = start;
+    while (right < row + width - 1 && !blocked[right + 1] && !region[right + 1]) right++;
+
+    // Queue one pixel per open run above and below
+    for (const offset of [-width, width]) {
+      if (row + offset < 0 || row + offset >= blocked.length) continue;
+      let open = false;
+      for (let i = left; i <= right; i++) {
+        const j = i + offset;
+        const free = !blocked[j] && !region[j];
+        if (free && !open) stack.push(j);
+        open = free;
+      }
+    }
+    region.fill(1, left, right + 1);
+  }
+  return region;
+};
+
+/**
+ * The region around `point` (document units) on a page rendered at FILL_RESOLUTION
+ * over white, as a mask image and its bounds in document units; null when the point
+ * is off the page.
+ */
+export const findRegion = (
+  page: HTMLCanvasElement,
+  point: Point,
+  options: FillOptions
+): { mask: string; bounds: RegionFill['bounds'] } | null => {
+  const { width, height } = page;
+  const x = Math.floor(point.x * FILL_RESOLUTION);
+  const y = Math.floor(point.y * FILL_RESOLUTION);
+  const ctx = page.getContext('2d', { willReadFrequently: true });
+  if (!ctx || x < 0 || y < 0 || x >= width || y >= height) return null;
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const seed = y * width + x;
+  const [r, g, b] = [data[seed * 4], data[seed * 4 + 1], data[seed * 4 + 2]];
+  const limit = (options.tolerance / 100) * 255;
+  const outline = new Uint8Array(width * height);
+  for (let i = 0; i < outline.length; i++) {
+    const distance = Math.max(Math.abs(data[i * 4] - r), Math.abs(data[i * 4 + 1] - g), Math.abs(data[i * 4 + 2] - b));
+    outline[i] = distance > limit ? 1 : 0;
+  }
+
+  // A tap right beside a line would land inside the thickened outline: fill without closing
+  const gap = Math.round((options.gap / 2) * FILL_RESOLUTION);
+  const closed = dilate(outline, width, height, gap);
+  let region = closed[seed] ? flood(outline, width, height, seed) : flood(closed, width, height, seed);
+  if (!closed[seed] && gap > 0) {
+    const grown = dilate(region, width, height, gap);
+    region = grown.map((inside, i) => (inside && !outline[i] ? 1 : 0));
+  }
+  region = dilate(region, width, height, EDGE_OVERLAP);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let i = 0; i < region.length; i++) {
+    if (!region[i]) continue;
+    const px = i % width;
+    const py = (i - px) / width;
+    minX = Math.min(minX, px);
+    maxX = Math.max(maxX, px);
+    minY = Math.min(minY, py);
+    maxY = Math.max(maxY, py);
+  }
+  if (maxX < 0) return null;
+
+  const mask = document.createElement('canvas');
+  mask.width = maxX - minX + 1;
+  mask.height = maxY - minY + 1;
+  const maskCtx = mask.getContext('2d');
+  if (!maskCtx) return null;
+  const pixels = maskCtx.createImageData(mask.width, mask.height);
+  for (let my = 0; my < mask.height; my++) {
+    for (let mx = 0; mx < mask.width; mx++) {
+      if (!region[(minY + my) * width + minX + mx]) continue;
+      pixels.data.fill(255, (my * mask.width + mx) * 4, (my * mask.width + mx) * 4 + 4);
+    }
+  }
+  maskCtx.putImageData(pixels, 0, 0);
+
+  return {
+    mask: mask.toDataURL('image/png'),
+    bounds: {
+      x: minX / FILL_RESOLUTION,
+      y: minY / FILL_RESOLUTION,
+      width: mask.width / FILL_RESOLUTION,
+      height: mask.height / FILL_RESOLUTION,
+    },
+  };
+};
+
+/** Decoded images a fill needs: its mask and, for photo swatches, the photo. */
+export const fillImageSources = (fill: RegionFill): string[] =>
+  fill.swatch?.image ? [fill.mask, fill.swatch.image] : [fill.mask];
+
+// Scratch buffer reused for painting fills
+let scratch: HTMLCanvasElement | null = null;
+
+/**
+ * Paints a fill through the context's current (document unit) transform. Skipped
+ * until its images have been decoded into `images`, keyed by source.
+ */
+export const renderFill = (ctx: CanvasRenderingContext2D, fill: RegionFill, images: Map<string, HTMLImageElement>) => {
+  const mask = images.get(fill.mask);
+  if (!mask) return;
+  const { bounds } = fill;
+
+  // Painted at the target's resolution so swatches stay sharp when zoomed in
+  const transform = ctx.getTransform();
+  const m = fill.transform;
+  const pixelScale = Math.hypot(transform.a, transform.b) * (m ? Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) : 1);
+  if (!scratch) scratch = document.createElement('canvas');
+  scratch.width = Math.max(1, Math.ceil(bounds.width * pixelScale));
+  scratch.height = Math.max(1, Math.ceil(bounds.height * pixelScale));
+  const buffer = scratch.getContext('2d');
+  if (!buffer) return;
+
+  buffer.fillStyle = fill.color;
+  const swatchImage = fill.swatch?.image ? images.get(fill.swatch.image) : undefined;
+  const tile = fill.swatch ? swatchTile(fill.swatch, swatchImage) : null;
+  const pattern = tile && buffer.createPattern(tile, 'repeat');
+  if (fill.swatch && pattern) {
+    // Tile pixels -> document units, anchored at the page origin -> buffer pixels
+    pattern.setTransform(new DOMMatrix()
+      .scale(scratch.width / bounds.width, scratch.height / bounds.height)
+      .translate(-bounds.x, -bounds.y)
+      .rotate((fill.rotation * 180) / Math.PI)
+      .scale((swatchRepeat(fill.swatch) * fill.scale) / tile.width));
+    buffer.fillStyle = pattern;
+  }
+  buffer.fillRect(0, 0, scratch.width, scratch.height);
+  buffer.globalCompositeOperation = 'destination-in';
+  buffer.drawImage(mask, 0, 0, scratch.width, scratch.height);
+  buffer.globalCompositeOperation = 'source-over';
+
+  ctx.save();
+  ctx.globalAlpha = fill.opacity / 100;
+  ctx.globalCompositeOperation = 'source-over';
+  if (m) ctx.transform(...m);
+  ctx.drawImage(scratch, bounds.x, bounds.y, bounds.width, bounds.height);
+  ctx.restore();
+};
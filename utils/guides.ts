@@ -0,0 +1,208 @@
+import { DrawPoint } from '../types';
+import { Point } from './viewport';
+
+// --- SHAPES ---
+// Lines, polylines, ellipses and rectangles become ordinary strokes. Their points are
+// spaced evenly along the outline, and the pressure and time of the pointer at each
+// vertex blend along it, so brushes treat them like a steady hand-drawn line.
+
+export type ShapeKind = 'line' | 'polyline' | 'ellipse' | 'rect';
+
+// Spacing of generated points, in document units
+const SHAPE_STEP = 4;
+
+const lerpPoint = (a: DrawPoint, b: DrawPoint, f: number): DrawPoint => ({
+  x: a.x + (b.x - a.x) * f,
+  y: a.y + (b.y - a.y) * f,
+  pressure: a.pressure + (b.pressure - a.pressure) * f,
+  t: (a.t ?? 0) + ((b.t ?? 0) - (a.t ?? 0)) * f,
+});
+
+const polylinePoints = (corners: DrawPoint[]): DrawPoint[] => {
+  const points: DrawPoint[] = [corners[0]];
+  for (let i = 1; i < corners.length; i++) {
+    const a = corners[i - 1];
+    const b = corners[i];
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / SHAPE_STEP));
+    for (let s = 1; s <= steps; s++) points.push(lerpPoint(a, b, s / steps));
+  }
+  return points;
+};
+
+/**
+ * Stroke points for a shape, from its vertices: the ends of a line, the corners of a
+ * polyline, or two opposite corners of the box an ellipse or rectangle fills.
+ */
+export const shapePoints = (kind: ShapeKind, vertices: DrawPoint[]): DrawPoint[] => {
+  const first = vertices[0];
+  const last = vertices[vertices.length - 1];
+  switch (kind) {
+    case 'line':
+      return polylinePoints([first, last]);
+    case 'polyline':
+      return polylinePoints(vertices);
+    case 'rect': {
+      // Clockwise from the first corner, blending from the first vertex to the last
+      const corner = (x: number, y: number, f: number): DrawPoint => ({ ...lerpPoint(first, last, f), x, y });
+      return polylinePoints([
+        corner(first.x, first.y, 0),
+        corner(last.x, first.y, 0.25),
+        corner(last.x, last.y, 0.5),
+        corner(first.x, last.y, 0.75),
+        corner(first.x, first.y, 1),
+      ]);
+    }
+    case 'ellipse': {
+      const cx = (first.x + last.x) / 2;
+      const cy = (first.y + last.y) / 2;
+      const rx = Math.abs(last.x - first.x) / 2;
+      const ry = Math.abs(last.y - first.y) / 2;
+      const steps = Math.max(16, Math.ceil((Math.PI * (rx + ry)) / SHAPE_STEP));
+      return Array.from({ length: steps + 1 }, (_, i) => {
+        const f = i / steps;
+        const a = -Math.PI / 2 + f * Math.PI * 2;
+        return { ...lerpPoint(first, last, f), x: cx + Math.cos(a) * rx, y: cy + Math.sin(a) * ry };
+      });
+    }
+  }
+};
+
+// --- GUIDES ---
+// A ruler or French curve laid over the page. A stroke begun close to its edge
+// follows the edge; only the position snaps, so pressure and timing stay the hand's.
+
+export type GuideKind = 'ruler' | 'french-curve';
+
+export interface Guide {
+  kind: GuideKind;
+  x: number; // Centre, in document units
+  y: number;
+  angle: number; // Radians, clockwise
+  scale: number;
+}
+
+// Ruler edge length and body width, in document units at scale 1
+const RULER_LENGTH = 480;
+const RULER_WIDTH = 36;
+// Distance between ruler ticks, with a long tick every fifth
+const RULER_TICK = 8;
+
+// Width of the French curve's body beside its edge
+const CURVE_WIDTH = 28;
+
+const MIN_GUIDE_SCALE = 0.3;
+const MAX_GUIDE_SCALE = 3;
+
+// Rulers this close to a multiple of 15 degrees snap to it
+const ANGLE_SNAP = (2 * Math.PI) / 180;
+
+// The French curve's edge: a stretch of logarithmic spiral, whose bend tightens
+// steadily like the drafting tool's, centred on its own middle
+const CURVE_EDGE: Point[] = (() => {
+  const points = Array.from({ length: 61 }, (_, i) => {
+    const a = (i / 60) * 1.4 * Math.PI;
+    const r = 150 * Math.exp(-0.3 * a);
+    return { x: r * Math.cos(a), y: r * Math.sin(a) };
+  });
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  return points.map(p => ({ x: p.x - cx, y: p.y - cy }));
+})();
+
+const localEdge = (kind: GuideKind): Point[] =>
+  kind === 'ruler' ? [{ x: -RULER_LENGTH / 2, y: 0 }, { x: RULER_LENGTH / 2, y: 0 }] : CURVE_EDGE;
+
+// The edge pushed out along each point's normal; for the French curve that is away
+// from the spiral's centre, so the body never folds over itself
+const offsetEdge = (edge: Point[], distance: number): Point[] =>
+  edge.map((p, i) => {
+    const a = edge[Math.max(0, i - 1)];
+    const b = edge[Math.min(edge.length - 1, i + 1)];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return { x: p.x + ((b.y - a.y) / length) * distance, y: p.y - ((b.x - a.x) / length) * distance };
+  });
+
+// Handles sit in the body, clear of the edge, so strokes can start anywhere along it
+const localHandles = (kind: GuideKind): { center: Point; turn: Point } =>
+  kind === 'ruler'
+    ? { center: { x: 0, y: -RULER_WIDTH / 2 }, turn: { x: RULER_LENGTH / 2 - RULER_WIDTH / 2, y: -RULER_WIDTH / 2 } }
+    : { center: { x: 0, y: 0 }, turn: offsetEdge(CURVE_EDGE, CURVE_WIDTH / 2)[0] };
+
+const toPage = (guide: Guide) => (p: Point): Point => {
+  const cos = Math.cos(guide.angle);
+  const sin = Math.sin(guide.angle);
+  return {
+    x: guide.x + (p.x * cos - p.y * sin) * guide.scale,
+    y: guide.y + (p.x * sin + p.y * cos) * guide.scale,
+  };
+};
+
+/** A new guide in the middle of the page, level. */
+export const createGuide = (kind: GuideKind, page: { width: number; height: number }): Guide => ({
+  kind,
+  x: page.width / 2,
+  y: page.height / 2,
+  angle: 0,
+  scale: 1,
+});
+
+/** The edge strokes follow, as a polyline in document units. */
+export const guideEdge = (guide: Guide): Point[] => localEdge(guide.kind).map(toPage(guide));
+
+/** Outline of the guide's body, which lies to one side of its edge. */
+export const guideOutline = (guide: Guide): Point[] => {
+  const edge = localEdge(guide.kind);
+  const width = guide.kind === 'ruler' ? RULER_WIDTH : CURVE_WIDTH;
+  return [...edge, ...offsetEdge(edge, width).reverse()].map(toPage(guide));
+};
+
+/** Ruler ticks as line segments in document units, long every fifth. */
+export const rulerTicks = (guide: Guide): [Point, Point][] => {
+  const count = Math.floor(RULER_LENGTH / RULER_TICK);
+  const page = toPage(guide);
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const x = -RULER_LENGTH / 2 + i * RULER_TICK;
+    return [page({ x, y: 0 }), page({ x, y: i % 5 === 0 ? -12 : -6 })];
+  });
+};
+
+/** Where the move and turn handles sit, in document units. */
+export const guideHandles = (guide: Guide): { center: Point; turn: Point } => {
+  const { center, turn } = localHandles(guide.kind);
+  const page = toPage(guide);
+  return { center: page(center), turn: page(turn) };
+};
+
+/** Turns and scales the guide about its origin so its turn handle follows `to`. */
+export const turnGuide = (guide: Guide, to: Point): Guide => {
+  const { turn } = localHandles(guide.kind);
+  let angle = Math.atan2(to.y - guide.y, to.x - guide.x) - Math.atan2(turn.y, turn.x);
+  if (guide.kind === 'ruler') {
+    const step = Math.PI / 12;
+    const snapped = Math.round(angle / step) * step;
+    if (Math.abs(angle - snapped) < ANGLE_SNAP) angle = snapped;
+  }
+  const scale = Math.hypot(to.x - guide.x, to.y - guide.y) / Math.hypot(turn.x, turn.y);
+  return { ...guide, angle, scale: Math.max(MIN_GUIDE_SCALE, Math.min(MAX_GUIDE_SCALE, scale)) };
+};
+
+/** The closest point on a polyline, and how far away it is. */
+export const nearestOnPath = (path: Point[], p: Point): { point: Point; distance: number } => {
+  let best = { point: path[0], distance: Math.hypot(p.x - path[0].x, p.y - path[0].y) };
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const f = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy || 1)));
+    const point = { x: a.x + dx * f, y: a.y + dy * f };
+    const distance = Math.hypot(p.x - point.x, p.y - point.y);
+    if (distance < best.distance) best = { point, distance };
+  }
+  return best;
+};
+
+// --- OVERLAYS ---
+
+// Grid spacing in document units; 24 x 32 squares on the default page
+export const GRID_SPACING = 32;
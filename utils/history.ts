@@ -0,0 +1,228 @@
+import { Layer, RegionFill, SketchDocument, Stroke } from '../types';
+import {
+  PackedLayer, appendFill, appendStroke, insertLayer, moveLayer, packLayer, removeFill, removeLayer, removeStroke, unpackLayer,
+  updateLayer,
+} from './layers';
+import { Matrix, appendStrokes, insertStrokes, invert, removeStrokes, transformStrokes } from './selection';
+import { PackedStroke, packStroke, unpackStroke } from './strokes';
+
+// --- COMMANDS ---
+// Every undoable edit is recorded as a small, serializable command that can be
+// applied and reverted against a document, instead of a pixel snapshot.
+
+export type HistoryCommand =
+  | { type: 'add-stroke'; layerId: string; stroke: Stroke }
+  | { type: 'add-layer'; layer: Layer; index: number }
+  | { type: 'remove-layer'; layer: Layer; index: number }
+  | { type: 'update-layer'; layerId: string; before: Partial<Layer>; after: Partial<Layer> }
+  | { type: 'move-layer'; layerId: string; direction: 1 | -1 }
+  // Selections: strokes and, when the selection caught any, fills
+  | { type: 'transform-strokes'; layerId: string; strokeIds: string[]; fillIds?: string[]; matrix: Matrix }
+  | { type: 'add-strokes'; layerId: string; strokes: Stroke[]; fills?: RegionFill[] }
+  // Removed strokes and fills with their stack positions, in index order
+  | { type: 'remove-strokes'; layerId: string; strokes: { index: number; stroke: Stroke }[]; fills?: { index: number; fill: RegionFill }[] }
+  | { type: 'add-fill'; layerId: string; fill: RegionFill };
+
+export const applyCommand = (doc: SketchDocument, command: HistoryCommand): SketchDocument => {
+  switch (command.type) {
+    case 'add-stroke':
+      return appendStroke(doc, command.layerId, command.stroke);
+    case 'add-layer':
+      return insertLayer(doc, command.layer, command.index);
+    case 'remove-layer':
+      return removeLayer(doc, command.layer.id);
+    case 'update-layer':
+      return updateLayer(doc, command.layerId, command.after);
+    case 'move-layer':
+      return moveLayer(doc, command.layerId, command.direction);
+    case 'transform-strokes':
+      return transformStrokes(doc, command.layerId, command.strokeIds, command.matrix, command.fillIds);
+    case 'add-strokes':
+      return appendStrokes(doc, command.layerId, command.strokes, command.fills);
+    case 'remove-strokes':
+      return removeStrokes(doc, command.layerId, command.strokes.map(e => e.stroke.id), command.fills?.map(e => e.fill.id));
+    case 'add-fill':
+      return appendFill(doc, command.layerId, command.fill);
+  }
+};
+
+export const revertCommand = (doc: SketchDocument, command: HistoryCommand): SketchDocument => {
+  switch (command.type) {
+    case 'add-stroke':
+      return removeStroke(doc, command.layerId, command.stroke.id);
+    case 'add-layer':
+      return removeLayer(doc, command.layer.id);
+    case 'remove-layer':
+      return insertLayer(doc, command.layer, command.index);
+    case 'update-layer':
+      return updateLayer(doc, command.layerId, command.before);
+    case 'move-layer':
+      return moveLayer(doc, command.layerId, command.direction === 1 ? -1 : 1);
+    case 'transform-strokes':
+      return transformStrokes(doc, command.layerId, command.strokeIds, invert(command.matrix), command.fillIds);
+    case 'add-strokes':
+      return removeStrokes(doc, command.layerId, command.strokes.map(s => s.id), command.fills?.map(f => f.id));
+    case 'remove-strokes':
+      return insertStrokes(doc, command.layerId, command.strokes, command.fills);
+    case 'add-fill':
+      return removeFill(doc, command.layerId, command.fill.id);
+  }
+};
+
+// --- MEMORY ACCOUNTING ---
+
+// Default cap on memory held by undo and redo stacks together
+export const DEFAULT_HISTORY_BUDGET = 8 * 1024 * 1024;
+
+// Rough in-memory cost: a point is four numbers, strings are UTF-16
+const strokeBytes = (stroke: Stroke) => 128 + stroke.points.length * 4 * 8;
+const fillBytes = (fill: RegionFill) => 256 + (fill.mask.length + (fill.swatch?.image?.length ?? 0)) * 2;
+const layerBytes = (layer: Layer) =>
+  256 + (layer.bitmap?.length ?? 0) * 2
+  + (layer.fills ?? []).reduce((sum, f) => sum + fillBytes(f), 0)
+  + layer.strokes.reduce((sum, s) => sum + strokeBytes(s), 0);
+
+export const estimateCommandBytes = (command: HistoryCommand): number => {
+  switch (command.type) {
+    case 'add-stroke':
+      return strokeBytes(command.stroke);
+    case 'add-layer':
+    case 'remove-layer':
+      return layerBytes(command.layer);
+    case 'transform-strokes':
+      return 256 + (command.strokeIds.length + (command.fillIds?.length ?? 0)) * 64;
+    case 'add-strokes':
+      return command.strokes.reduce((sum, s) => sum + strokeBytes(s), 0)
+        + (command.fills ?? []).reduce((sum, f) => sum + fillBytes(f), 0);
+    case 'remove-strokes':
+      return command.strokes.reduce((sum, e) => sum + strokeBytes(e.stroke), 0)
+        + (command.fills ?? []).reduce((sum, e) => sum + fillBytes(e.fill), 0);
+    case 'add-fill':
+      return fillBytes(command.fill);
+    default:
+      return 256;
+  }
+};
+
+// --- HISTORY STACKS ---
+
+export interface History {
+  undo: HistoryCommand[]; // Oldest first
+  redo: HistoryCommand[]; // Next to redo last
+  bytes: number;
+}
+
+export const emptyHistory = (): History => ({ undo: [], redo: [], bytes: 0 });
+
+// Dragging a slider emits many updates; fold consecutive ones on the same layer
+// and properties into one step.
+const mergeUpdates = (previous: HistoryCommand | undefined, next: HistoryCommand): HistoryCommand | null => {
+  if (previous?.type !== 'update-layer' || next.type !== 'update-layer') return null;
+  if (previous.layerId !== next.layerId) return null;
+  const sameKeys = Object.keys(previous.after).sort().join() === Object.keys(next.after).sort().join();
+  return sameKeys ? { ...previous, after: next.after } : null;
+};
+
+/** Records a command that has just been applied, dropping the oldest steps over budget. */
+export const recordCommand = (history: History, command: HistoryCommand, budget: number): History => {
+  const redoBytes = history.redo.reduce((sum, c) => sum + estimateCommandBytes(c), 0);
+  const merged = mergeUpdates(history.undo[history.undo.length - 1], command);
+  const undo = merged
+    ? [...history.undo.slice(0, -1), merged]
+    : [...history.undo, command];
+  let bytes = history.bytes - redoBytes + (merged ? 0 : estimateCommandBytes(command));
+
+  // Always keep the latest step, even if it alone exceeds the budget
+  while (bytes > budget && undo.length > 1) {
+    bytes -= estimateCommandBytes(undo.shift()!);
+  }
+  return { undo, redo: [], bytes };
+};
+
+// --- EDITOR STATE ---
+// The document and its history change together in one state update, so an undo can
+// never observe a half-applied edit.
+
+export interface EditorState {
+  doc: SketchDocument;
+  history: History;
+}
+
+export const execute = (state: EditorState, command: HistoryCommand, budget = DEFAULT_HISTORY_BUDGET): EditorState => ({
+  doc: applyCommand(state.doc, command),
+  history: recordCommand(state.history, command, budget),
+});
+
+export const undo = (state: EditorState): EditorState => {
+  const command = state.history.undo[state.history.undo.length - 1];
+  if (!command) return state;
+  return {
+    doc: revertCommand(state.doc, command),
+    history: {
+      ...state.history,
+      undo: state.history.undo.slice(0, -1),
+      redo: [...state.history.redo, command],
+    },
+  };
+};
+
+export const redo = (state: EditorState): EditorState => {
+  const command = state.history.redo[state.history.redo.length - 1];
+  if (!command) return state;
+  return {
+    doc: applyCommand(state.doc, command),
+    history: {
+      ...state.history,
+      undo: [...state.history.undo, command],
+      redo: state.history.redo.slice(0, -1),
+    },
+  };
+};
+
+// --- SERIALIZATION ---
+
+export type PackedCommand =
+  | { type: 'add-stroke'; layerId: string; stroke: PackedStroke }
+  | { type: 'add-layer' | 'remove-layer'; layer: PackedLayer; index: number }
+  | { type: 'add-strokes'; layerId: string; strokes: PackedStroke[]; fills?: RegionFill[] }
+  | { type: 'remove-strokes'; layerId: string; strokes: { index: number; stroke: PackedStroke }[]; fills?: { index: number; fill: RegionFill }[] }
+  | Extract<HistoryCommand, { type: 'update-layer' | 'move-layer' | 'transform-strokes' | 'add-fill' }>;
+
+export const packCommand = (command: HistoryCommand): PackedCommand => {
+  switch (command.type) {
+    case 'add-stroke':
+      return { ...command, stroke: packStroke(command.stroke) };
+    case 'add-layer':
+    case 'remove-layer':
+      return { ...command, layer: packLayer(command.layer) };
+    case 'add-strokes':
+      return { ...command, strokes: command.strokes.map(packStroke) };
+    case 'remove-strokes':
+      return { ...command, strokes: command.strokes.map(e => ({ ...e, stroke: packStroke(e.stroke) })) };
+    default:
+      return command;
+  }
+};
+
+export const unpackCommand = (packed: PackedCommand): HistoryCommand => {
+  switch (packed.type) {
+    case 'add-stroke':
+      return { ...packed, stroke: unpackStroke(packed.stroke) };
+    case 'add-layer':
+    case 'remove-layer':
+      return { ...packed, layer: unpackLayer(packed.layer) };
+    case 'add-strokes':
+      return { ...packed, strokes: packed.strokes.map(unpackStroke) };
+    case 'remove-strokes':
+      return { ...packed, strokes: packed.strokes.map(e => ({ ...e, stroke: unpackStroke(e.stroke) })) };
+    default:
+      return packed;
+  }
+};
+
+/** Rebuilds history loaded from storage, recomputing its memory cost. */
+export const restoreHistory = (undoStack: HistoryCommand[], redoStack: HistoryCommand[]): History => ({
+  undo: undoStack,
+  redo: redoStack,
+  bytes: [...undoStack, ...redoStack].reduce((sum, c) => sum + estimateCommandBytes(c), 0),
+});
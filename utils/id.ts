@@ -0,0 +1,3 @@
+/** Short unique id for locally created records; the timestamp keeps ids roughly sortable. */
+export const createId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
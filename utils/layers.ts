@@ -0,0 +1,126 @@
+import { BlendMode, Layer, RegionFill, Sketch, SketchDocument, Stroke } from '../types';
+import { createId } from './id';
+import { PackedStroke, packStroke, unpackStroke } from './strokes';
+
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'soft-light', label: 'Soft Light' },
+];
+
+export const blendModeLabel = (mode: BlendMode) =>
+  BLEND_MODES.find(m => m.value === mode)?.label ?? 'Normal';
+
+// Canvas composite operations share CSS mix-blend-mode names, except for 'normal'
+export const compositeOperation = (mode: BlendMode): GlobalCompositeOperation =>
+  mode === 'normal' ? 'source-over' : mode;
+
+// Portrait 3:4 page, matching the gallery cards. Stroke coordinates are in these units.
+export const PAGE_WIDTH = 768;
+export const PAGE_HEIGHT = 1024;
+
+export const createLayer = (name: string, overrides: Partial<Layer> = {}): Layer => ({
+  id: createId('layer'),
+  name,
+  visible: true,
+  locked: false,
+  opacity: 100,
+  blendMode: 'normal',
+  strokes: [],
+  ...overrides,
+});
+
+/**
+ * A fresh document for a sketch, carrying over a previously saved flat image if there is one.
+ * A template underlay (see utils/templates) goes beneath the layer drawn on.
+ */
+export const createDocument = (sketch: Sketch, underlay?: Layer): SketchDocument => {
+  const layer = createLayer('Sketch', { bitmap: sketch.thumbnail });
+  return {
+    sketchId: sketch.id,
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    layers: underlay ? [underlay, layer] : [layer],
+    activeLayerId: layer.id,
+  };
+};
+
+/** The document as exported, without the layers marked to be left out. */
+export const exportedDocument = (doc: SketchDocument): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.filter(l => !l.excludeFromExport),
+});
+
+export const getActiveLayer = (doc: SketchDocument): Layer | undefined =>
+  doc.layers.find(l => l.id === doc.activeLayerId);
+
+/** Inserts a layer at a stack position and selects it. */
+export const insertLayer = (doc: SketchDocument, layer: Layer, index: number): SketchDocument => {
+  const layers = [...doc.layers];
+  layers.splice(index, 0, layer);
+  return { ...doc, layers, activeLayerId: layer.id };
+};
+
+/** Stack position directly above the active layer, where new layers go. */
+export const indexAboveActive = (doc: SketchDocument): number =>
+  doc.layers.findIndex(l => l.id === doc.activeLayerId) + 1;
+
+/** Removes a layer, keeping at least one; selection moves to the layer below. */
+export const removeLayer = (doc: SketchDocument, layerId: string): SketchDocument => {
+  if (doc.layers.length <= 1) return doc;
+  const index = doc.layers.findIndex(l => l.id === layerId);
+  if (index === -1) return doc;
+
+  const layers = doc.layers.filter(l => l.id !== layerId);
+  const activeLayerId = doc.activeLayerId === layerId
+    ? layers[Math.max(0, index - 1)].id
+    : doc.activeLayerId;
+  return { ...doc, layers, activeLayerId };
+};
+
+/** Moves a layer up (+1) or down (-1) the stack. */
+export const moveLayer = (doc: SketchDocument, layerId: string, direction: 1 | -1): SketchDocument => {
+  const index = doc.layers.findIndex(l => l.id === layerId);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= doc.layers.length) return doc;
+
+  const layers = [...doc.layers];
+  [layers[index], layers[target]] = [layers[target], layers[index]];
+  return { ...doc, layers };
+};
+
+export const updateLayer = (doc: SketchDocument, layerId: string, patch: Partial<Layer>): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => (l.id === layerId ? { ...l, ...patch } : l)),
+});
+
+export const appendStroke = (doc: SketchDocument, layerId: string, stroke: Stroke): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => (l.id === layerId ? { ...l, strokes: [...l.strokes, stroke] } : l)),
+});
+
+export const removeStroke = (doc: SketchDocument, layerId: string, strokeId: string): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => (l.id === layerId ? { ...l, strokes: l.strokes.filter(s => s.id !== strokeId) } : l)),
+});
+
+export const appendFill = (doc: SketchDocument, layerId: string, fill: RegionFill): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => (l.id === layerId ? { ...l, fills: [...(l.fills ?? []), fill] } : l)),
+});
+
+export const removeFill = (doc: SketchDocument, layerId: string, fillId: string): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => (l.id === layerId ? { ...l, fills: (l.fills ?? []).filter(f => f.id !== fillId) } : l)),
+});
+
+// Layers as persisted, with packed stroke points; see utils/strokes
+export type PackedLayer = Omit<Layer, 'strokes'> & { strokes: PackedStroke[] };
+
+export const packLayer = (layer: Layer): PackedLayer => ({ ...layer, strokes: layer.strokes.map(packStroke) });
+
+export const unpackLayer = (layer: PackedLayer): Layer => ({ ...layer, strokes: layer.strokes.map(unpackStroke) });
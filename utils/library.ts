@@ -0,0 +1,53 @@
+import { Project, Sketch } from '../types';
+
+// --- LIBRARY EDITS ---
+// Pure helpers for rearranging the gallery. Each returns new project objects and
+// leaves the ones passed in untouched, so they can go straight into React state.
+
+/** Moves a project in front of another, or to the end when `beforeId` is null. */
+export const moveProject = (projects: Project[], projectId: string, beforeId: string | null): Project[] => {
+  const project = projects.find(p => p.id === projectId);
+  if (!project || projectId === beforeId) return projects;
+
+  const rest = projects.filter(p => p.id !== projectId);
+  const index = beforeId === null ? -1 : rest.findIndex(p => p.id === beforeId);
+  rest.splice(index === -1 ? rest.length : index, 0, project);
+  return rest;
+};
+
+/**
+ * Moves sketches, in their current display order, into a project in front of one of
+ * its sketches, or to the end when `beforeId` is null. Also reorders within a project.
+ */
+export const moveSketches = (projects: Project[], sketchIds: string[], projectId: string, beforeId: string | null): Project[] => {
+  const ids = new Set(sketchIds);
+  const moving = projects.flatMap(p => p.sketches.filter(s => ids.has(s.id)));
+  if (moving.length === 0 || (beforeId !== null && ids.has(beforeId))) return projects;
+
+  return projects.map(p => {
+    const sketches = p.sketches.filter(s => !ids.has(s.id));
+    if (p.id === projectId) {
+      const index = beforeId === null ? -1 : sketches.findIndex(s => s.id === beforeId);
+      sketches.splice(index === -1 ? sketches.length : index, 0, ...moving);
+    }
+    return sketches.length === p.sketches.length && p.id !== projectId ? p : { ...p, sketches };
+  });
+};
+
+/** Takes sketches out of their projects, noting where each one was. */
+export const removeSketches = (projects: Project[], sketchIds: string[]) => {
+  const ids = new Set(sketchIds);
+  const removed: { projectId: string; position: number; sketch: Sketch }[] = [];
+  projects.forEach(p => p.sketches.forEach((sketch, position) => {
+    if (ids.has(sketch.id)) removed.push({ projectId: p.id, position, sketch });
+  }));
+
+  const remaining = projects.map(p =>
+    p.sketches.some(s => ids.has(s.id)) ? { ...p, sketches: p.sketches.filter(s => !ids.has(s.id)) } : p
+  );
+  return { projects: remaining, removed };
+};
+
+/** The project holding a sketch, if any. */
+export const findSketchProject = (projects: Project[], sketchId: string): Project | undefined =>
+  projects.find(p => p.sketches.some(s => s.id === sketchId));
@@ -0,0 +1,55 @@
+import { Sketch } from '../types';
+
+// --- SKETCH METADATA ---
+// Tags, notes and garment details travel with a sketch for the pattern makers.
+// Details are stored by key so fields can be added here without a migration; keys
+// that aren't listed below are custom fields added on the sketch, shown by name.
+
+export interface DetailField {
+  key: string;
+  label: string;
+  placeholder: string;
+}
+
+export const DETAIL_FIELDS: DetailField[] = [
+  { key: 'fabric', label: 'Fabric', placeholder: 'e.g. Wool crepe, 280 gsm' },
+  { key: 'colourway', label: 'Colourway', placeholder: 'e.g. Burgundy / Camel' },
+  { key: 'sizeRange', label: 'Size Range', placeholder: 'e.g. XS–XL' },
+  { key: 'season', label: 'Season', placeholder: 'e.g. AW24' },
+];
+
+export const detailLabel = (key: string): string =>
+  DETAIL_FIELDS.find(f => f.key === key)?.label ?? key;
+
+/** The standard fields first, then custom ones in the order they were added. */
+export const detailKeys = (details: Record<string, string>): string[] => [
+  ...DETAIL_FIELDS.map(f => f.key),
+  ...Object.keys(details).filter(key => !DETAIL_FIELDS.some(f => f.key === key)),
+];
+
+/** Tags are single words or short phrases, without a leading '#'. */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ');
+
+/** Adds tags, ignoring blanks and ones already there in another case. */
+export const addTags = (tags: string[], incoming: string[]): string[] => {
+  const next = [...tags];
+  incoming.map(normalizeTag).forEach(tag => {
+    if (tag && !next.some(t => t.toLowerCase() === tag.toLowerCase())) next.push(tag);
+  });
+  return next;
+};
+
+/** Filled-in details as label/value pairs, e.g. for exports. */
+export const describeDetails = (sketch: Pick<Sketch, 'details'>): { label: string; value: string }[] =>
+  detailKeys(sketch.details)
+    .filter(key => sketch.details[key]?.trim())
+    .map(key => ({ label: detailLabel(key), value: sketch.details[key].trim() }));
+
+/** Defaults for sketches from before metadata, or from older servers and archives. */
+export const withMetadataDefaults = <T extends Partial<Pick<Sketch, 'tags' | 'notes' | 'details'>>>(sketch: T) => ({
+  ...sketch,
+  tags: sketch.tags ?? [],
+  notes: sketch.notes ?? '',
+  details: sketch.details ?? {},
+});
@@ -0,0 +1,150 @@
+// --- PDF WRITER ---
+// Minimal PDF 1.4 writer for simple layouts: JPEG images, filled rectangles and
+// single-line text in the standard fonts (no embedding, Latin-1 text only).
+// Coordinates are in points from the top-left of the page.
+
+export type PdfFont = 'sans' | 'sans-bold' | 'serif';
+
+export interface PdfImage {
+  jpeg: Uint8Array;
+  width: number; // Pixels
+  height: number;
+}
+
+export type PdfItem =
+  | { type: 'text'; text: string; x: number; y: number; size: number; font?: PdfFont; color?: string }
+  | { type: 'image'; image: PdfImage; x: number; y: number; width: number; height: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; color: string };
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  items: PdfItem[];
+}
+
+// A4 portrait, in points
+export const A4 = { width: 595.28, height: 841.89 };
+
+const FONTS: Record<PdfFont, { key: string; base: string }> = {
+  'sans': { key: 'F1', base: 'Helvetica' },
+  'sans-bold': { key: 'F2', base: 'Helvetica-Bold' },
+  'serif': { key: 'F3', base: 'Times-Roman' },
+};
+
+// Characters outside Latin-1 can't be shown by the standard fonts
+const latin1 = (text: string): Uint8Array =>
+  Uint8Array.from(text, c => (c.charCodeAt(0) < 256 ? c.charCodeAt(0) : 63));
+
+const escapeText = (text: string) => text.replace(/[\\()]/g, m => `\\${m}`).replace(/[\r\n]+/g, ' ');
+
+const rgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => (c / 255).toFixed(3)).join(' ');
+};
+
+const num = (n: number) => Number(n.toFixed(2)).toString();
+
+// Helvetica's average advance is about half the font size; close enough for wrapping
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+/** Breaks text into lines that fit a width at a font size, at spaces and newlines. */
+export const wrapText = (text: string, width: number, size: number): string[] => {
+  const perLine = Math.max(1, Math.floor(width / (size * AVERAGE_CHAR_WIDTH)));
+  return text.split(/\r?\n/).flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      // Words longer than a line are split wherever they run out of room
+      for (const part of word.match(new RegExp(`.{1,${perLine}}`, 'g')) ?? []) {
+        if (line && line.length + 1 + part.length > perLine) {
+          lines.push(line);
+          line = part;
+        } else {
+          line = line ? `${line} ${part}` : part;
+        }
+      }
+    });
+    if (line) lines.push(line);
+    return lines;
+  });
+};
+
+export const createPdf = (pages: PdfPage[], title?: string): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? latin1(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers are fixed up front: catalog, page tree, info, fonts, then per page
+  const fontIds = Object.keys(FONTS).map((_, i) => 4 + i);
+  let nextId = 4 + fontIds.length;
+  const layout = pages.map(page => {
+    const images = page.items.filter((i): i is Extract<PdfItem, { type: 'image' }> => i.type === 'image');
+    const imageIds = images.map(() => nextId++);
+    const contentId = nextId++;
+    const pageId = nextId++;
+    return { page, images, imageIds, contentId, pageId };
+  });
+
+  const object = (id: number, body: string | Uint8Array[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    if (typeof body === 'string') write(body);
+    else body.forEach(write);
+    write('\nendobj\n');
+  };
+
+  const stream = (id: number, dict: string, data: Uint8Array) =>
+    object(id, [latin1(`<< ${dict} /Length ${data.length} >>\nstream\n`), data, latin1('\nendstream')]);
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${layout.map(l => `${l.pageId} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, `<< /Producer (Atelier)${title ? ` /Title (${escapeText(title)})` : ''} >>`);
+  Object.values(FONTS).forEach(({ base }, i) => {
+    object(fontIds[i], `<< /Type /Font /Subtype /Type1 /BaseFont /${base} /Encoding /WinAnsiEncoding >>`);
+  });
+
+  layout.forEach(({ page, images, imageIds, contentId, pageId }) => {
+    images.forEach((item, i) => {
+      stream(
+        imageIds[i],
+        `/Type /XObject /Subtype /Image /Width ${item.image.width} /Height ${item.image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+        item.image.jpeg
+      );
+    });
+
+    // PDF's origin is bottom-left; flip y as items are written
+    const ops: string[] = [];
+    let imageIndex = 0;
+    page.items.forEach(item => {
+      if (item.type === 'rect') {
+        ops.push(`${rgb(item.color)} rg ${num(item.x)} ${num(page.height - item.y - item.height)} ${num(item.width)} ${num(item.height)} re f`);
+      } else if (item.type === 'image') {
+        const y = page.height - item.y - item.height;
+        ops.push(`q ${num(item.width)} 0 0 ${num(item.height)} ${num(item.x)} ${num(y)} cm /Im${imageIndex++} Do Q`);
+      } else {
+        const font = FONTS[item.font ?? 'sans'].key;
+        ops.push(`BT ${rgb(item.color ?? '#000000')} rg /${font} ${num(item.size)} Tf ${num(item.x)} ${num(page.height - item.y)} Td (${escapeText(item.text)}) Tj ET`);
+      }
+    });
+    stream(contentId, '', latin1(ops.join('\n')));
+
+    const fonts = Object.values(FONTS).map(({ key }, i) => `/${key} ${fontIds[i]} 0 R`).join(' ');
+    const xObjects = imageIds.map((id, i) => `/Im${i} ${id} 0 R`).join(' ');
+    object(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Contents ${contentId} 0 R /Resources << /Font << ${fonts} >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> >>`);
+  });
+
+  const xrefOffset = length;
+  const count = nextId;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
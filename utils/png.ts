@@ -0,0 +1,49 @@
+import { crc32 } from './zip';
+
+// --- PNG TEXT ---
+// Writes text into PNG files as iTXt chunks (UTF-8), which image viewers and
+// asset managers show as the file's properties.
+
+// Signature (8 bytes) plus the IHDR chunk (4 length + 4 type + 13 data + 4 CRC)
+const AFTER_HEADER = 33;
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const encoder = new TextEncoder();
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(encoder.encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+/**
+ * Adds uncompressed iTXt chunks after the header. Keywords must be 1-79 Latin-1
+ * characters, e.g. the registered 'Title', 'Description' or 'Comment'. Empty texts are skipped.
+ */
+export const addPngText = (png: Uint8Array, entries: { keyword: string; text: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks = entries
+    .filter(({ text }) => text.trim())
+    .map(({ keyword, text }) => {
+      // keyword, NUL, no compression (flag and method), empty language and translated keyword, text
+      const header = Uint8Array.from(keyword.slice(0, 79), c => c.charCodeAt(0) & 0xff);
+      const body = encoder.encode(text);
+      const data = new Uint8Array(header.length + 5 + body.length);
+      data.set(header);
+      data.set(body, header.length + 5);
+      return chunk('iTXt', data);
+    });
+
+  const size = chunks.reduce((n, c) => n + c.length, png.length);
+  const out = new Uint8Array(size);
+  out.set(png.subarray(0, AFTER_HEADER));
+  let offset = AFTER_HEADER;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  out.set(png.subarray(AFTER_HEADER), offset);
+  return out;
+};
@@ -0,0 +1,127 @@
+import { ReferencePlacement, SketchDocument } from '../types';
+import { Point } from './viewport';
+
+// --- REFERENCE PHOTOS ---
+// Photos to trace over (fabric swatches, mood-board shots) are the bitmap of their own
+// layer, placed with a position, scale and rotation rather than stretched to the page.
+// Moving one only changes the placement, so undo steps stay small.
+
+// Photos are stored no larger than this on their long side
+export const MAX_REFERENCE_SIZE = 2048;
+
+export const MIN_REFERENCE_SCALE = 0.1;
+export const MAX_REFERENCE_SCALE = 8;
+
+// Rotations this close to upright snap back to it, as the view does
+const ROTATION_SNAP = (3 * Math.PI) / 180;
+
+/** A photo centred on the page at 80% of the largest size that fits, as imports always were. */
+export const placeReference = (
+  image: { width: number; height: number },
+  doc: Pick<SketchDocument, 'width' | 'height'>
+): ReferencePlacement => {
+  const fit = Math.min(doc.width / image.width, doc.height / image.height) * 0.8;
+  return {
+    width: image.width * fit,
+    height: image.height * fit,
+    x: doc.width / 2,
+    y: doc.height / 2,
+    scale: 1,
+    rotation: 0,
+  };
+};
+
+const clampScale = (scale: number) => Math.max(MIN_REFERENCE_SCALE, Math.min(MAX_REFERENCE_SCALE, scale));
+
+const normalizeRotation = (rotation: number) => {
+  const wrapped = Math.atan2(Math.sin(rotation), Math.cos(rotation));
+  return Math.abs(wrapped) < ROTATION_SNAP ? 0 : wrapped;
+};
+
+/** Sets scale and rotation, within limits, keeping the centre where it is. */
+export const adjustReference = (reference: ReferencePlacement, patch: Partial<Pick<ReferencePlacement, 'scale' | 'rotation'>>): ReferencePlacement => ({
+  ...reference,
+  scale: clampScale(patch.scale ?? reference.scale),
+  rotation: normalizeRotation(patch.rotation ?? reference.rotation),
+});
+
+/** One pointer dragged from `from` to `to`, in document units. */
+export const dragReference = (start: ReferencePlacement, from: Point, to: Point): ReferencePlacement => ({
+  ...start,
+  x: start.x + to.x - from.x,
+  y: start.y + to.y - from.y,
+});
+
+/**
+ * Two pointers, in document units: the photo follows their midpoint, scales with
+ * their spread and turns with their angle, as the view does under a pinch.
+ */
+export const pinchReference = (start: ReferencePlacement, from: [Point, Point], to: [Point, Point]): ReferencePlacement => {
+  const midpoint = (pair: [Point, Point]): Point => ({ x: (pair[0].x + pair[1].x) / 2, y: (pair[0].y + pair[1].y) / 2 });
+  const spread = (pair: [Point, Point]) => Math.max(1e-3, Math.hypot(pair[1].x - pair[0].x, pair[1].y - pair[0].y));
+  const angle = (pair: [Point, Point]) => Math.atan2(pair[1].y - pair[0].y, pair[1].x - pair[0].x);
+
+  const next = adjustReference(start, {
+    scale: start.scale * spread(to) / spread(from),
+    rotation: start.rotation + angle(to) - angle(from),
+  });
+
+  // The photo point under the fingers' midpoint stays under it
+  const factor = next.scale / start.scale;
+  const turn = next.rotation - start.rotation;
+  const fromMid = midpoint(from);
+  const toMid = midpoint(to);
+  const dx = (start.x - fromMid.x) * factor;
+  const dy = (start.y - fromMid.y) * factor;
+  return {
+    ...next,
+    x: toMid.x + dx * Math.cos(turn) - dy * Math.sin(turn),
+    y: toMid.y + dx * Math.sin(turn) + dy * Math.cos(turn),
+  };
+};
+
+/** Draws the photo through the context's current (document unit) transform. */
+export const drawReference = (ctx: CanvasRenderingContext2D, reference: ReferencePlacement, image: HTMLImageElement) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.translate(reference.x, reference.y);
+  ctx.rotate(reference.rotation);
+  ctx.scale(reference.scale, reference.scale);
+  ctx.drawImage(image, -reference.width / 2, -reference.height / 2, reference.width, reference.height);
+  ctx.restore();
+};
+
+/** SVG transform placing the photo, drawn at its width x height, where it sits on the page. */
+export const referenceSvgTransform = (reference: ReferencePlacement): string =>
+  `translate(${reference.x} ${reference.y}) rotate(${(reference.rotation * 180) / Math.PI}) ` +
+  `scale(${reference.scale}) translate(${-reference.width / 2} ${-reference.height / 2})`;
+
+/**
+ * Decodes an image file or camera frame, shrinking it to MAX_REFERENCE_SIZE. PNGs stay
+ * PNG to keep transparency; everything else is stored as JPEG.
+ */
+export const loadReferencePhoto = (src: string, type: string): Promise<{ src: string; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const fit = Math.min(1, MAX_REFERENCE_SIZE / Math.max(img.width, img.height));
+      if (fit === 1 && (type === 'image/png' || type === 'image/jpeg')) {
+        resolve({ src, width: img.width, height: img.height });
+        return;
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * fit);
+      canvas.height = Math.round(img.height * fit);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      const encoded = type === 'image/png' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.9);
+      resolve({ src: encoded, width: canvas.width, height: canvas.height });
+    };
+    img.onerror = () => reject(new Error('Failed to decode photo'));
+    img.src = src;
+  });
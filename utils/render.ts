@@ -0,0 +1,111 @@
+import { Layer, SketchDocument } from '../types';
+import { fillImageSources, renderFill } from './fill';
+import { compositeOperation } from './layers';
+import { drawReference } from './reference';
+import { renderStroke } from './strokes';
+
+// Decoded layer bitmaps, shared by the live canvas and offscreen renders
+const bitmapCache = new Map<string, Promise<HTMLImageElement>>();
+
+export const loadBitmap = (src: string): Promise<HTMLImageElement> => {
+  let cached = bitmapCache.get(src);
+  if (!cached) {
+    cached = new Promise((resolve, reject) => {
+      const img = new Image();
+      img.crossOrigin = "anonymous";
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to decode layer bitmap'));
+      img.src = src;
+    });
+    cached.catch(() => bitmapCache.delete(src));
+    bitmapCache.set(src, cached);
+  }
+  return cached;
+};
+
+/** Every image a layer draws: its bitmap and what its fills need. */
+export const layerImageSources = (layer: Layer): string[] => [
+  ...(layer.bitmap ? [layer.bitmap] : []),
+  ...(layer.fills ?? []).flatMap(fillImageSources),
+];
+
+/** Decodes a layer's images, leaving out any that fail. */
+export const loadLayerImages = async (layer: Layer): Promise<Map<string, HTMLImageElement>> => {
+  const images = new Map<string, HTMLImageElement>();
+  await Promise.all(layerImageSources(layer).map(src => loadBitmap(src)
+    .then(img => { images.set(src, img); })
+    .catch(() => undefined)));
+  return images;
+};
+
+/**
+ * Paints a layer's bitmap (placed, on reference layers), fills and strokes into a context whose transform already
+ * maps document units to pixels, with its images decoded into `images` by source. Opacity and blend mode are left
+ * to the caller.
+ */
+export const renderLayer = (
+  ctx: CanvasRenderingContext2D,
+  layer: Layer,
+  doc: Pick<SketchDocument, 'width' | 'height'>,
+  images: Map<string, HTMLImageElement>
+) => {
+  const bitmap = layer.bitmap ? images.get(layer.bitmap) : undefined;
+  if (bitmap && layer.reference) {
+    drawReference(ctx, layer.reference, bitmap);
+  } else if (bitmap) {
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.drawImage(bitmap, 0, 0, doc.width, doc.height);
+  }
+  layer.fills?.forEach(fill => renderFill(ctx, fill, images));
+  layer.strokes.forEach(stroke => renderStroke(ctx, stroke));
+};
+
+/**
+ * Renders the whole document into a new canvas at `scale` pixels per document unit,
+ * compositing visible layers with their opacity and blend mode.
+ */
+export const renderDocument = async (
+  doc: SketchDocument,
+  scale: number,
+  options: { background?: string } = {}
+): Promise<HTMLCanvasElement> => {
+  const width = Math.round(doc.width * scale);
+  const height = Math.round(doc.height * scale);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const outCtx = output.getContext('2d');
+  if (!outCtx) return output;
+
+  if (options.background) {
+    outCtx.fillStyle = options.background;
+    outCtx.fillRect(0, 0, width, height);
+  }
+
+  // Each layer is rendered on its own so erasers only cut through that layer
+  const layerCanvas = document.createElement('canvas');
+  layerCanvas.width = width;
+  layerCanvas.height = height;
+  const layerCtx = layerCanvas.getContext('2d');
+  if (!layerCtx) return output;
+
+  for (const layer of doc.layers) {
+    if (!layer.visible) continue;
+    const images = await loadLayerImages(layer);
+
+    layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+    layerCtx.clearRect(0, 0, width, height);
+    layerCtx.setTransform(scale, 0, 0, scale, 0, 0);
+    renderLayer(layerCtx, layer, doc, images);
+
+    outCtx.globalAlpha = layer.opacity / 100;
+    outCtx.globalCompositeOperation = compositeOperation(layer.blendMode);
+    outCtx.drawImage(layerCanvas, 0, 0);
+  }
+
+  outCtx.globalAlpha = 1;
+  outCtx.globalCompositeOperation = 'source-over';
+  return output;
+};
@@ -0,0 +1,90 @@
+import { LibraryFilter, Sketch, SketchStatus } from '../types';
+
+// --- LIBRARY SEARCH ---
+
+export const DEFAULT_FILTER: LibraryFilter = {
+  text: '',
+  statuses: [],
+  dateField: 'updatedAt',
+  sort: 'updatedAt',
+  descending: true,
+};
+
+export const STATUS_LABELS: Record<SketchStatus, string> = {
+  'Local Sketch': 'Local',
+  'Ready for Atelier Sync': 'Queued',
+  'Syncing': 'Syncing',
+  'Synced': 'Synced',
+  'Sync Failed': 'Failed',
+  'Sync Conflict': 'Conflict',
+};
+
+/** Whether the filter narrows or reorders anything; the gallery shows projects otherwise. */
+export const isFilterActive = (filter: LibraryFilter): boolean =>
+  filter.text.trim() !== '' ||
+  filter.statuses.length > 0 ||
+  !!filter.from ||
+  !!filter.to ||
+  filter.sort !== DEFAULT_FILTER.sort ||
+  filter.descending !== DEFAULT_FILTER.descending;
+
+// The UTC instant a local calendar day begins, `offset` days after the given one
+const localDayStart = (day: string, offset = 0): Date => {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + offset);
+  return date;
+};
+
+/**
+ * The filter's date range as inclusive bounds on its date field. createdAt is a day and
+ * compares as YYYY-MM-DD; updatedAt is a UTC timestamp, so its bounds are the instants
+ * the picked local days begin and end.
+ */
+export const dateBounds = ({ dateField, from, to }: LibraryFilter): { lower?: string; upper?: string } => {
+  if (dateField === 'createdAt') {
+    return { lower: from || undefined, upper: to ? `${to}\uffff` : undefined };
+  }
+  return {
+    lower: from ? localDayStart(from).toISOString() : undefined,
+    upper: to ? new Date(localDayStart(to, 1).getTime() - 1).toISOString() : undefined,
+  };
+};
+
+type Searchable = Pick<Sketch, 'title' | 'tags' | 'notes' | 'details' | 'status' | 'createdAt' | 'updatedAt'>;
+
+export const matchesFilter = (sketch: Searchable, filter: LibraryFilter): boolean => {
+  // Title, notes and garment details match anywhere; tags match from their start
+  const text = [sketch.title, sketch.notes, ...Object.values(sketch.details)].join('\n').toLowerCase();
+  const tags = sketch.tags.map(t => t.toLowerCase());
+  const words = filter.text.toLowerCase().split(/\s+/).filter(Boolean);
+  // "#wool" only looks at tags
+  const wordMatches = (word: string) => word.startsWith('#')
+    ? tags.some(t => t.startsWith(word.slice(1)))
+    : text.includes(word) || tags.some(t => t.startsWith(word));
+  if (!words.every(wordMatches)) return false;
+
+  if (filter.statuses.length > 0 && !filter.statuses.includes(sketch.status)) return false;
+
+  const { lower, upper } = dateBounds(filter);
+  const date = sketch[filter.dateField];
+  if (lower && date < lower) return false;
+  if (upper && date > upper) return false;
+  return true;
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export const compareSketches = ({ sort, descending }: LibraryFilter) => (a: Searchable, b: Searchable): number => {
+  const order = sort === 'title' ? collator.compare(a.title, b.title) : a[sort].localeCompare(b[sort]);
+  return descending ? -order : order;
+};
+
+export const sameFilter = (a: LibraryFilter, b: LibraryFilter): boolean =>
+  a.text.trim() === b.text.trim() &&
+  a.statuses.length === b.statuses.length &&
+  a.statuses.every(s => b.statuses.includes(s)) &&
+  a.dateField === b.dateField &&
+  (a.from ?? '') === (b.from ?? '') &&
+  (a.to ?? '') === (b.to ?? '') &&
+  a.sort === b.sort &&
+  a.descending === b.descending;
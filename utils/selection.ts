@@ -0,0 +1,172 @@
+import { RegionFill, SketchDocument, Stroke } from '../types';
+import { createId } from './id';
+import { Point } from './viewport';
+
+// --- SELECTION ---
+// Rectangle and lasso selections pick whole strokes and fills on one layer, which can
+// then be moved, scaled, rotated and flipped. Transforms are affine matrices applied
+// to the stroke points, and kept on fills to paint their masks by, so a selection
+// stays vector and undo only records the matrix.
+
+// [a, b, c, d, e, f] as in DOMMatrix: x' = a x + c y + e, y' = b x + d y + f
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** `m` applied after `n`. */
+export const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+export const invert = ([a, b, c, d, e, f]: Matrix): Matrix => {
+  const det = a * d - b * c;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+};
+
+export const translation = (dx: number, dy: number): Matrix => [1, 0, 0, 1, dx, dy];
+
+// Scale, rotation and flips all happen around a centre point
+const about = (m: Matrix, center: Point): Matrix =>
+  multiply(translation(center.x, center.y), multiply(m, translation(-center.x, -center.y)));
+
+export const scalingAbout = (sx: number, sy: number, center: Point): Matrix => about([sx, 0, 0, sy, 0, 0], center);
+
+export const rotationAbout = (angle: number, center: Point): Matrix =>
+  about([Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0], center);
+
+export const applyMatrix = (m: Matrix, p: Point): Point => ({
+  x: m[0] * p.x + m[2] * p.y + m[4],
+  y: m[1] * p.x + m[3] * p.y + m[5],
+});
+
+/** Moves a stroke's points; its width follows the transform's average scale. */
+export const transformStroke = (stroke: Stroke, m: Matrix): Stroke => ({
+  ...stroke,
+  size: stroke.size * Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])),
+  points: stroke.points.map(p => ({ ...p, ...applyMatrix(m, p) })),
+});
+
+export const transformFill = (fill: RegionFill, m: Matrix): RegionFill => ({
+  ...fill,
+  transform: multiply(m, fill.transform ?? IDENTITY_MATRIX),
+});
+
+/** Transforms the given strokes and fills of a layer. */
+export const transformStrokes = (
+  doc: SketchDocument, layerId: string, strokeIds: string[], m: Matrix, fillIds: string[] = []
+): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => (l.id === layerId
+    ? {
+        ...l,
+        strokes: l.strokes.map(s => (strokeIds.includes(s.id) ? transformStroke(s, m) : s)),
+        fills: l.fills?.map(f => (fillIds.includes(f.id) ? transformFill(f, m) : f)),
+      }
+    : l)),
+});
+
+export const appendStrokes = (doc: SketchDocument, layerId: string, strokes: Stroke[], fills: RegionFill[] = []): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => (l.id === layerId
+    ? { ...l, strokes: [...l.strokes, ...strokes], fills: fills.length > 0 ? [...(l.fills ?? []), ...fills] : l.fills }
+    : l)),
+});
+
+export const removeStrokes = (doc: SketchDocument, layerId: string, strokeIds: string[], fillIds: string[] = []): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => (l.id === layerId
+    ? { ...l, strokes: l.strokes.filter(s => !strokeIds.includes(s.id)), fills: l.fills?.filter(f => !fillIds.includes(f.id)) }
+    : l)),
+});
+
+/** Puts removed strokes and fills back at their stack positions; entries must be in index order. */
+export const insertStrokes = (
+  doc: SketchDocument,
+  layerId: string,
+  entries: { index: number; stroke: Stroke }[],
+  fillEntries: { index: number; fill: RegionFill }[] = []
+): SketchDocument => ({
+  ...doc,
+  layers: doc.layers.map(l => {
+    if (l.id !== layerId) return l;
+    const strokes = [...l.strokes];
+    entries.forEach(({ index, stroke }) => strokes.splice(index, 0, stroke));
+    if (fillEntries.length === 0) return { ...l, strokes };
+    const fills = [...(l.fills ?? [])];
+    fillEntries.forEach(({ index, fill }) => fills.splice(index, 0, fill));
+    return { ...l, strokes, fills };
+  }),
+});
+
+/** Copies with fresh ids, e.g. for pasting. */
+export const cloneStrokes = (strokes: Stroke[], m: Matrix = IDENTITY_MATRIX): Stroke[] =>
+  strokes.map(s => ({ ...transformStroke(s, m), id: createId('stroke') }));
+
+export const cloneFills = (fills: RegionFill[], m: Matrix = IDENTITY_MATRIX): RegionFill[] =>
+  fills.map(f => ({ ...transformFill(f, m), id: createId('fill') }));
+
+// --- HIT TESTING ---
+
+export const rectPolygon = (a: Point, b: Point): Point[] => [
+  { x: a.x, y: a.y }, { x: b.x, y: a.y }, { x: b.x, y: b.y }, { x: a.x, y: b.y },
+];
+
+// Even-odd ray casting, so a lasso that crosses itself still works
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+/** Strokes with at least half their points inside the polygon, so a loose lasso still catches a line. */
+export const selectStrokes = (strokes: Stroke[], polygon: Point[]): string[] => {
+  if (polygon.length < 3) return [];
+  return strokes
+    .filter(s => s.points.length > 0 && s.points.filter(p => pointInPolygon(p, polygon)).length * 2 >= s.points.length)
+    .map(s => s.id);
+};
+
+/** Corners of a fill's bounds where it is painted, clockwise from top left. */
+export const fillCorners = (fill: RegionFill): Point[] => {
+  const { x, y, width, height } = fill.bounds;
+  const corners = rectPolygon({ x, y }, { x: x + width, y: y + height });
+  const { transform } = fill;
+  return transform ? corners.map(p => applyMatrix(transform, p)) : corners;
+};
+
+/** Fills whose middle is inside the polygon. */
+export const selectFills = (fills: RegionFill[], polygon: Point[]): string[] => {
+  if (polygon.length < 3) return [];
+  return fills.filter(f => pointInPolygon(polygonCenter(fillCorners(f)), polygon)).map(f => f.id);
+};
+
+/**
+ * Corners of the bounding box of strokes, padded by their width, and fills, clockwise
+ * from top left.
+ */
+export const strokesFrame = (strokes: Stroke[], fills: RegionFill[] = []): Point[] => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const include = (p: Point, pad: number) => {
+    minX = Math.min(minX, p.x - pad);
+    minY = Math.min(minY, p.y - pad);
+    maxX = Math.max(maxX, p.x + pad);
+    maxY = Math.max(maxY, p.y + pad);
+  };
+  strokes.forEach(stroke => stroke.points.forEach(p => include(p, stroke.size)));
+  fills.forEach(fill => fillCorners(fill).forEach(p => include(p, 0)));
+  return rectPolygon({ x: minX, y: minY }, { x: maxX, y: maxY });
+};
+
+export const polygonCenter = (polygon: Point[]): Point => ({
+  x: polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length,
+  y: polygon.reduce((sum, p) => sum + p.y, 0) / polygon.length,
+});
@@ -0,0 +1,106 @@
+import { DrawPoint, StabilizerMode } from '../types';
+
+// --- INTERPOLATION ---
+
+// Document units between samples along a curved segment
+const CURVE_SAMPLE_SPACING = 2;
+
+/**
+ * Points along the uniform Catmull-Rom curve from p1 to p2, including both ends.
+ * p0 and p3 are the neighbours before and after; repeat an endpoint where one is missing.
+ */
+export const catmullRomSamples = (p0: DrawPoint, p1: DrawPoint, p2: DrawPoint, p3: DrawPoint): DrawPoint[] => {
+  const length = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+  const count = Math.max(1, Math.ceil(length / CURVE_SAMPLE_SPACING));
+  const samples: DrawPoint[] = [];
+
+  for (let i = 0; i <= count; i++) {
+    const t = i / count;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const curve = (a: number, b: number, c: number, d: number) =>
+      0.5 * ((2 * b) + (-a + c) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (-a + 3 * b - 3 * c + d) * t3);
+    samples.push({
+      x: curve(p0.x, p1.x, p2.x, p3.x),
+      y: curve(p0.y, p1.y, p2.y, p3.y),
+      pressure: p1.pressure + (p2.pressure - p1.pressure) * t,
+    });
+  }
+  return samples;
+};
+
+// --- STABILIZERS ---
+// Filter raw pointer samples before they become stroke points. Strength runs 0-100;
+// `scale` is screen pixels per document unit so strength feels the same at any zoom.
+
+export interface Stabilizer {
+  /** Feeds one raw sample and returns the points to add to the stroke (possibly none). */
+  push: (point: DrawPoint) => DrawPoint[];
+  /** Points to add when the pointer lifts. */
+  finish: () => DrawPoint[];
+}
+
+// Longest string (in screen pixels) and widest averaging window at full strength
+const MAX_STRING_LENGTH = 40;
+const MAX_AVERAGE_WINDOW = 16;
+
+// Lazy brush: the brush trails the pointer on a string and only moves once it is taut
+const pulledString = (strength: number, scale: number): Stabilizer => {
+  const length = (strength / 100) * MAX_STRING_LENGTH / scale;
+  let brush: DrawPoint | null = null;
+
+  return {
+    push: (point) => {
+      if (!brush) {
+        brush = point;
+        return [point];
+      }
+      const dx = point.x - brush.x;
+      const dy = point.y - brush.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance <= length) return [];
+
+      const pull = (distance - length) / distance;
+      brush = { ...point, x: brush.x + dx * pull, y: brush.y + dy * pull };
+      return [brush];
+    },
+    // The brush stays where the string left it, so line ends don't hook
+    finish: () => [],
+  };
+};
+
+// Averages the most recent samples; the stroke catches up to the pointer on release
+const movingAverage = (strength: number): Stabilizer => {
+  const window = 1 + Math.round((strength / 100) * (MAX_AVERAGE_WINDOW - 1));
+  const recent: DrawPoint[] = [];
+  let last: DrawPoint | null = null;
+
+  const average = (): DrawPoint => {
+    const sum = recent.reduce(
+      (acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y, pressure: acc.pressure + p.pressure }),
+      { x: 0, y: 0, pressure: 0 }
+    );
+    return {
+      x: sum.x / recent.length,
+      y: sum.y / recent.length,
+      pressure: sum.pressure / recent.length,
+      t: recent[recent.length - 1].t,
+    };
+  };
+
+  return {
+    push: (point) => {
+      recent.push(point);
+      if (recent.length > window) recent.shift();
+      last = point;
+      return [average()];
+    },
+    finish: () => (last && recent.length > 1 ? [last] : []),
+  };
+};
+
+export const createStabilizer = (mode: StabilizerMode, strength: number, scale: number): Stabilizer => {
+  if (mode === 'pulled-string' && strength > 0) return pulledString(strength, scale);
+  if (mode === 'moving-average' && strength > 0) return movingAverage(strength);
+  return { push: (point) => [point], finish: () => [] };
+};
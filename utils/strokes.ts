@@ -0,0 +1,170 @@
+import { DrawPoint, Stroke } from '../types';
+import { DabState, beginDabs, maxDabRadius, stampDabs, strokeComposite } from './brushes';
+
+// --- RENDERING ---
+// A stroke is stamped into its own buffer first and then composited onto the layer
+// with the stroke's opacity, so overlapping dabs within one stroke never show
+// seams. Live drawing and re-rendering share the same dab sequence, so a re-render
+// at any resolution matches what the user saw while drawing.
+
+// Scratch buffer reused for offscreen stroke rendering
+let scratch: HTMLCanvasElement | null = null;
+
+const pixelBounds = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
+  const r = maxDabRadius(stroke);
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  stroke.points.forEach(p => {
+    minX = Math.min(minX, p.x - r);
+    minY = Math.min(minY, p.y - r);
+    maxX = Math.max(maxX, p.x + r);
+    maxY = Math.max(maxY, p.y + r);
+  });
+
+  const transform = ctx.getTransform();
+  const corners = [
+    transform.transformPoint(new DOMPoint(minX, minY)),
+    transform.transformPoint(new DOMPoint(maxX, minY)),
+    transform.transformPoint(new DOMPoint(minX, maxY)),
+    transform.transformPoint(new DOMPoint(maxX, maxY)),
+  ];
+  const x = Math.max(0, Math.floor(Math.min(...corners.map(c => c.x))));
+  const y = Math.max(0, Math.floor(Math.min(...corners.map(c => c.y))));
+  const right = Math.min(ctx.canvas.width, Math.ceil(Math.max(...corners.map(c => c.x))));
+  const bottom = Math.min(ctx.canvas.height, Math.ceil(Math.max(...corners.map(c => c.y))));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+const compositeBuffer = (
+  target: CanvasRenderingContext2D,
+  buffer: HTMLCanvasElement,
+  stroke: Stroke,
+  rect: { x: number; y: number; width: number; height: number }
+) => {
+  const { operation, alpha } = strokeComposite(stroke);
+  target.save();
+  target.setTransform(1, 0, 0, 1, 0, 0);
+  target.globalAlpha = alpha;
+  target.globalCompositeOperation = operation;
+  target.drawImage(buffer, rect.x, rect.y, rect.width, rect.height, rect.x, rect.y, rect.width, rect.height);
+  target.restore();
+};
+
+/** Renders a complete stroke through the context's current transform. */
+export const renderStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
+  if (stroke.points.length === 0) return;
+  const rect = pixelBounds(ctx, stroke);
+  if (rect.width <= 0 || rect.height <= 0) return;
+
+  if (!scratch) scratch = document.createElement('canvas');
+  if (scratch.width !== ctx.canvas.width || scratch.height !== ctx.canvas.height) {
+    scratch.width = ctx.canvas.width;
+    scratch.height = ctx.canvas.height;
+  }
+  const scratchCtx = scratch.getContext('2d');
+  if (!scratchCtx) return;
+
+  scratchCtx.setTransform(1, 0, 0, 1, 0, 0);
+  scratchCtx.clearRect(rect.x, rect.y, rect.width, rect.height);
+  scratchCtx.setTransform(ctx.getTransform());
+  stampDabs(scratchCtx, stroke, beginDabs(stroke));
+  compositeBuffer(ctx, scratch, stroke, rect);
+};
+
+// --- LIVE STROKES ---
+
+interface LiveBuffer {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  dabs: DabState;
+}
+
+export interface LiveStroke {
+  strokes: Stroke[]; // The stroke being drawn, then any mirrored copies of it
+  target: CanvasRenderingContext2D;
+  base: HTMLCanvasElement; // Layer pixels from before the stroke
+  buffers: LiveBuffer[]; // One per stroke, each composited on its own as when re-rendered
+}
+
+/**
+ * Starts drawing strokes onto a layer canvas together, e.g. a stroke and its mirror
+ * images; call updateLiveStroke as points arrive.
+ */
+export const beginLiveStroke = (target: CanvasRenderingContext2D, strokes: Stroke[]): LiveStroke | null => {
+  const { width, height } = target.canvas;
+
+  const base = document.createElement('canvas');
+  base.width = width;
+  base.height = height;
+  base.getContext('2d')?.drawImage(target.canvas, 0, 0);
+
+  const buffers: LiveBuffer[] = [];
+  for (const stroke of strokes) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.setTransform(target.getTransform());
+    buffers.push({ canvas, ctx, dabs: beginDabs(stroke) });
+  }
+
+  const live: LiveStroke = { strokes, target, base, buffers };
+  updateLiveStroke(live);
+  return live;
+};
+
+/** Redraws the layer with the strokes so far; `final` stamps the last curved segments too. */
+export const updateLiveStroke = (live: LiveStroke, final = false) => {
+  const { target, base, buffers, strokes } = live;
+  target.save();
+  target.setTransform(1, 0, 0, 1, 0, 0);
+  target.globalAlpha = 1;
+  target.globalCompositeOperation = 'copy';
+  target.drawImage(base, 0, 0);
+  target.restore();
+
+  buffers.forEach(({ canvas, ctx, dabs }, i) => {
+    stampDabs(ctx, strokes[i], dabs, final);
+    compositeBuffer(target, canvas, strokes[i], { x: 0, y: 0, width: canvas.width, height: canvas.height });
+  });
+};
+
+/** Abandons a live stroke, putting the layer back as it was before it started. */
+export const cancelLiveStroke = (live: LiveStroke) => {
+  const { target, base } = live;
+  target.save();
+  target.setTransform(1, 0, 0, 1, 0, 0);
+  target.globalAlpha = 1;
+  target.globalCompositeOperation = 'copy';
+  target.drawImage(base, 0, 0);
+  target.restore();
+};
+
+// --- SERIALIZATION ---
+// Points are stored as a flat [x, y, pressure, t, ...] array rounded to a tenth of a
+// document unit, which is several times smaller than an array of objects. Strokes
+// saved before timestamps were recorded have three values per point and no stride.
+
+export type PackedStroke = Omit<Stroke, 'points'> & { points: number[]; stride?: 4 };
+
+const round = (value: number, precision: number) => Math.round(value * precision) / precision;
+
+export const packPoints = (points: DrawPoint[]): number[] =>
+  points.flatMap(p => [round(p.x, 10), round(p.y, 10), round(p.pressure, 100), Math.round(p.t ?? 0)]);
+
+export const unpackPoints = (packed: number[], stride: 3 | 4 = 4): DrawPoint[] => {
+  const points: DrawPoint[] = [];
+  for (let i = 0; i + stride - 1 < packed.length; i += stride) {
+    const point: DrawPoint = { x: packed[i], y: packed[i + 1], pressure: packed[i + 2] };
+    if (stride === 4) point.t = packed[i + 3];
+    points.push(point);
+  }
+  return points;
+};
+
+export const packStroke = (stroke: Stroke): PackedStroke => ({ ...stroke, points: packPoints(stroke.points), stride: 4 });
+
+export const unpackStroke = ({ stride, ...packed }: PackedStroke): Stroke => ({
+  ...packed,
+  points: unpackPoints(packed.points, stride ?? 3),
+});
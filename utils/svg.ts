@@ -0,0 +1,140 @@
+import { DrawPoint, Layer, RegionFill, SketchDocument, Stroke } from '../types';
+import { evaluateCurve, getBrushPreset, strokeDiameter } from './brushes';
+import { referenceSvgTransform } from './reference';
+import { catmullRomSamples } from './smoothing';
+import { swatchRepeat, swatchTile } from './swatches';
+
+// --- SVG EXPORT ---
+// Strokes become round-capped paths. Dab textures (grain, wet edges) and
+// velocity dynamics don't translate to SVG, so brushes come out as clean lines;
+// pressure is kept by splitting each stroke into runs of similar width. Eraser
+// strokes mask everything drawn before them on their layer, as they do on canvas.
+// Fills are their colour or a swatch pattern, masked by the fill's region image.
+
+// A new run starts when the width drifts this far from the run's first point
+const WIDTH_TOLERANCE = 0.15;
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const num = (n: number) => Number(n.toFixed(2)).toString();
+
+const strokePath = (stroke: Stroke): DrawPoint[] => {
+  const { points } = stroke;
+  if (stroke.interpolation !== 'catmull-rom' || points.length < 3) return points;
+  const path: DrawPoint[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    path.push(...catmullRomSamples(points[i - 2] ?? points[i - 1], points[i - 1], points[i], points[i + 1] ?? points[i]).slice(1));
+  }
+  return path;
+};
+
+// Runs of consecutive points drawn with one width; neighbouring runs share a point
+const widthRuns = (stroke: Stroke): { width: number; points: DrawPoint[] }[] => {
+  const curve = getBrushPreset(stroke.brush).size.pressure;
+  const widthAt = (p: DrawPoint) => strokeDiameter(stroke) * evaluateCurve(curve, p.pressure);
+
+  const runs: { width: number; points: DrawPoint[] }[] = [];
+  strokePath(stroke).forEach((point, i, path) => {
+    const width = widthAt(point);
+    const run = runs[runs.length - 1];
+    if (run && Math.abs(width - run.width) <= run.width * WIDTH_TOLERANCE) {
+      run.points.push(point);
+    } else {
+      runs.push({ width, points: run ? [path[i - 1], point] : [point] });
+    }
+  });
+  return runs;
+};
+
+const strokeElement = (stroke: Stroke, color: string) => {
+  const paths = widthRuns(stroke).map(({ width, points }) => {
+    // A single point still needs a segment for its round cap to show
+    const d = points.length === 1
+      ? `M${num(points[0].x)} ${num(points[0].y)}h0`
+      : `M${points.map(p => `${num(p.x)} ${num(p.y)}`).join('L')}`;
+    return `<path d="${d}" stroke-width="${num(width)}"/>`;
+  }).join('');
+  return `<g fill="none" stroke="${color}" stroke-linecap="round" stroke-linejoin="round">${paths}</g>`;
+};
+
+const fillElement = (fill: RegionFill, id: string, defs: string[]) => {
+  const { x, y, width, height } = fill.bounds;
+  const area = `x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}"`;
+  defs.push(
+    `<mask id="${id}-mask" maskUnits="userSpaceOnUse" ${area}>` +
+    `<image href="${escapeXml(fill.mask)}" ${area} preserveAspectRatio="none"/></mask>`
+  );
+
+  let paint = fill.color;
+  const tile = fill.swatch && (fill.swatch.image ?? swatchTile(fill.swatch)?.toDataURL('image/png'));
+  if (fill.swatch && tile) {
+    const repeat = swatchRepeat(fill.swatch);
+    defs.push(
+      `<pattern id="${id}-pattern" patternUnits="userSpaceOnUse" width="${repeat}" height="${repeat}" ` +
+      `patternTransform="rotate(${num((fill.rotation * 180) / Math.PI)}) scale(${num(fill.scale)})">` +
+      `<image href="${escapeXml(tile)}" width="${repeat}" height="${repeat}"/></pattern>`
+    );
+    paint = `url(#${id}-pattern)`;
+  }
+  const rect = `<rect ${area} fill="${paint}" opacity="${fill.opacity / 100}" mask="url(#${id}-mask)"/>`;
+  // A moved fill carries its mask and fabric along
+  return fill.transform ? `<g transform="matrix(${fill.transform.map(v => Number(v.toFixed(6))).join(' ')})">${rect}</g>` : rect;
+};
+
+const layerElement = (layer: Layer, doc: SketchDocument, index: number) => {
+  const defs: string[] = [];
+  let content = '';
+  if (layer.bitmap && layer.reference) {
+    const { width, height } = layer.reference;
+    content = `<image href="${escapeXml(layer.bitmap)}" width="${num(width)}" height="${num(height)}" transform="${referenceSvgTransform(layer.reference)}"/>`;
+  } else if (layer.bitmap) {
+    content = `<image href="${escapeXml(layer.bitmap)}" width="${doc.width}" height="${doc.height}"/>`;
+  }
+  layer.fills?.forEach((fill, i) => {
+    content += fillElement(fill, `fill-${index}-${i}`, defs);
+  });
+
+  let erasers: Stroke[] = [];
+  const flushErasers = () => {
+    if (erasers.length === 0) return;
+    const id = `mask-${index}-${defs.length}`;
+    defs.push(
+      `<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${doc.width}" height="${doc.height}">` +
+      `<rect width="${doc.width}" height="${doc.height}" fill="#FFFFFF"/>${erasers.map(s => strokeElement(s, '#000000')).join('')}</mask>`
+    );
+    content = `<g mask="url(#${id})">${content}</g>`;
+    erasers = [];
+  };
+
+  layer.strokes.forEach(stroke => {
+    if (stroke.tool === 'eraser') {
+      erasers.push(stroke);
+      return;
+    }
+    flushErasers();
+    const composite = getBrushPreset(stroke.brush).composite;
+    const blend = composite === 'source-over' ? '' : ` style="mix-blend-mode:${composite}"`;
+    content += `<g opacity="${stroke.opacity / 100}"${blend}>${strokeElement(stroke, stroke.color)}</g>`;
+  });
+  flushErasers();
+
+  const blend = layer.blendMode === 'normal' ? '' : `mix-blend-mode:${layer.blendMode};`;
+  return (
+    `<g id="layer-${index + 1}" data-name="${escapeXml(layer.name)}" opacity="${layer.opacity / 100}" ` +
+    `style="${blend}isolation:isolate"${layer.visible ? '' : ' display="none"'}>` +
+    `${defs.length ? `<defs>${defs.join('')}</defs>` : ''}${content}</g>`
+  );
+};
+
+/**
+ * The document as a standalone SVG, in document units, with a transparent background.
+ * A description (e.g. the sketch's notes and details) goes into its <desc>.
+ */
+export const documentToSvg = (doc: SketchDocument, title?: string, description?: string): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n` +
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${doc.width}" height="${doc.height}" viewBox="0 0 ${doc.width} ${doc.height}" style="isolation:isolate">` +
+  `${title ? `<title>${escapeXml(title)}</title>` : ''}` +
+  `${description ? `<desc>${escapeXml(description)}</desc>` : ''}` +
+  doc.layers.map((layer, index) => layerElement(layer, doc, index)).join('') +
+  `</svg>\n`;
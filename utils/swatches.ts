@@ -0,0 +1,158 @@
+import { Swatch, SwatchPattern } from '../types';
+
+// --- TEXTILE SWATCHES ---
+// Fabrics for pattern fills. Woven and printed patterns are drawn from their colours,
+// so they recolour freely; photo swatches tile the photo itself. Tiles repeat from the
+// page origin, so neighbouring fills in one fabric line up like cut cloth.
+
+// Width of one repeat in document units at scale 1
+const REPEAT_SIZE: Record<SwatchPattern, number> = {
+  stripes: 24,
+  pinstripe: 16,
+  gingham: 24,
+  houndstooth: 16,
+  polka: 20,
+  floral: 48,
+  photo: 96,
+};
+
+// Tile pixels per document unit, enough to stay sharp when zoomed in
+const TILE_RESOLUTION = 4;
+
+// Photo swatches are cropped square and stored at this size
+const SWATCH_PHOTO_SIZE = 512;
+
+export const BUILTIN_SWATCHES: Swatch[] = [
+  { id: 'builtin-breton', name: 'Breton Stripe', pattern: 'stripes', colors: ['#F5F0E6', '#1F2A44'] },
+  { id: 'builtin-pinstripe', name: 'Pinstripe', pattern: 'pinstripe', colors: ['#2B2B2E', '#D9D9D9'] },
+  { id: 'builtin-gingham', name: 'Gingham', pattern: 'gingham', colors: ['#FFFFFF', '#B22234'] },
+  { id: 'builtin-houndstooth', name: 'Houndstooth', pattern: 'houndstooth', colors: ['#F2EFE8', '#1A1A1A'] },
+  { id: 'builtin-polka', name: 'Polka Dot', pattern: 'polka', colors: ['#0F1B3D', '#FFFFFF'] },
+  { id: 'builtin-ditsy', name: 'Ditsy Floral', pattern: 'floral', colors: ['#F7F1E3', '#C2185B', '#F9A825', '#558B2F'] },
+  { id: 'builtin-rose', name: 'Rose Floral', pattern: 'floral', colors: ['#1B2631', '#E8A0A8', '#F5E6C8', '#6B8E5A'] },
+];
+
+/** Width and height of one square repeat in document units at scale 1. */
+export const isSwatchPattern = (value: unknown): value is SwatchPattern =>
+  typeof value === 'string' && value in REPEAT_SIZE;
+
+export const swatchRepeat = (swatch: Swatch): number => REPEAT_SIZE[swatch.pattern];
+
+// Draws one repeat of a woven or printed pattern into an s x s pixel square
+const drawPattern = (ctx: CanvasRenderingContext2D, swatch: Swatch, s: number) => {
+  const [ground, motif = ground, accent = motif, leaf = accent] = swatch.colors;
+  ctx.fillStyle = ground;
+  ctx.fillRect(0, 0, s, s);
+  ctx.fillStyle = motif;
+
+  switch (swatch.pattern) {
+    case 'stripes':
+      ctx.fillRect(0, 0, s, s * 0.4);
+      break;
+    case 'pinstripe':
+      ctx.fillRect(0, 0, s * 0.06, s);
+      break;
+    case 'gingham':
+      // Crossing bands of a half-tone motif make the darker squares where they meet
+      ctx.globalAlpha = 0.5;
+      ctx.fillRect(0, 0, s, s / 2);
+      ctx.fillRect(0, 0, s / 2, s);
+      ctx.globalAlpha = 1;
+      break;
+    case 'houndstooth': {
+      // A 2/2 twill of four dark and four light threads each way
+      const cell = s / 8;
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          const warpOnTop = (x + y) % 4 < 2;
+          if (warpOnTop ? x < 4 : y < 4) ctx.fillRect(x * cell, y * cell, cell, cell);
+        }
+      }
+      break;
+    }
+    case 'polka': {
+      // Half-drop: one dot in the middle and one shared by the four corners
+      const r = s * 0.18;
+      [[0.5, 0.5], [0, 0], [1, 0], [0, 1], [1, 1]].forEach(([x, y]) => {
+        ctx.beginPath();
+        ctx.arc(x * s, y * s, r, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      break;
+    }
+    case 'floral': {
+      const flower = (cx: number, cy: number, r: number, turn: number) => {
+        ctx.fillStyle = leaf;
+        [turn + 0.6, turn + Math.PI + 0.2].forEach(a => {
+          ctx.beginPath();
+          ctx.ellipse(cx + Math.cos(a) * r * 1.5, cy + Math.sin(a) * r * 1.5, r * 0.7, r * 0.3, a, 0, Math.PI * 2);
+          ctx.fill();
+        });
+        ctx.fillStyle = motif;
+        for (let i = 0; i < 5; i++) {
+          const a = turn + (i * 2 * Math.PI) / 5;
+          ctx.beginPath();
+          ctx.ellipse(cx + Math.cos(a) * r * 0.6, cy + Math.sin(a) * r * 0.6, r * 0.55, r * 0.35, a, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        ctx.fillStyle = accent;
+        ctx.beginPath();
+        ctx.arc(cx, cy, r * 0.3, 0, Math.PI * 2);
+        ctx.fill();
+      };
+      // Kept clear of the edges so motifs never cut across the repeat
+      flower(s * 0.3, s * 0.3, s * 0.12, 0);
+      flower(s * 0.72, s * 0.7, s * 0.1, 1.1);
+      flower(s * 0.75, s * 0.22, s * 0.05, 0.4);
+      flower(s * 0.22, s * 0.78, s * 0.05, 2);
+      break;
+    }
+    case 'photo':
+      break;
+  }
+};
+
+const tileCache = new Map<string, HTMLCanvasElement>();
+
+/** One repeat of the swatch as a canvas, or null while a photo swatch is still decoding. */
+export const swatchTile = (swatch: Swatch, image?: HTMLImageElement): HTMLCanvasElement | null => {
+  if (swatch.pattern === 'photo' && !image) return null;
+  const key = swatch.pattern === 'photo' ? `photo:${swatch.image}` : `${swatch.pattern}:${swatch.colors.join(',')}`;
+  const cached = tileCache.get(key);
+  if (cached) return cached;
+
+  const tile = document.createElement('canvas');
+  tile.width = Math.round(swatchRepeat(swatch) * TILE_RESOLUTION);
+  tile.height = tile.width;
+  const ctx = tile.getContext('2d');
+  if (!ctx) return null;
+
+  if (image) {
+    ctx.drawImage(image, 0, 0, tile.width, tile.height);
+  } else {
+    drawPattern(ctx, swatch, tile.width);
+  }
+  tileCache.set(key, tile);
+  return tile;
+};
+
+/** Decodes a fabric photo and crops its centre to a square JPEG, ready to tile. */
+export const loadSwatchPhoto = (src: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const side = Math.min(img.width, img.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.min(side, SWATCH_PHOTO_SIZE);
+      canvas.height = canvas.width;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    img.onerror = () => reject(new Error('Failed to decode swatch photo'));
+    img.src = src;
+  });
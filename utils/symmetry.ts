@@ -0,0 +1,77 @@
+import { DrawPoint, Stroke, SymmetryMode } from '../types';
+import { createId } from './id';
+import { Matrix, applyMatrix, multiply, rotationAbout, scalingAbout } from './selection';
+import { Point } from './viewport';
+
+// --- SYMMETRY ---
+// In symmetry mode every stroke is drawn together with its mirror images about an
+// axis the designer can move. The copies are ordinary strokes, added in one history
+// step with the original.
+
+export const MIN_RADIAL_SEGMENTS = 2;
+export const MAX_RADIAL_SEGMENTS = 12;
+
+export const SYMMETRY_MODES: SymmetryMode[] = ['off', 'vertical', 'horizontal', 'quadrant', 'radial'];
+
+export const SYMMETRY_LABELS: Record<SymmetryMode, string> = {
+  'off': 'Off',
+  'vertical': 'Left / Right',
+  'horizontal': 'Top / Bottom',
+  'quadrant': 'Four Way',
+  'radial': 'Radial',
+};
+
+/** Transforms giving each mirrored copy of a stroke drawn with the axes at `center`. */
+export const symmetryMatrices = (mode: SymmetryMode, center: Point, segments: number): Matrix[] => {
+  const mirrorX = scalingAbout(-1, 1, center);
+  const mirrorY = scalingAbout(1, -1, center);
+  switch (mode) {
+    case 'off': return [];
+    case 'vertical': return [mirrorX];
+    case 'horizontal': return [mirrorY];
+    case 'quadrant': return [mirrorX, mirrorY, multiply(mirrorX, mirrorY)];
+    case 'radial': {
+      const count = Math.max(MIN_RADIAL_SEGMENTS, Math.min(MAX_RADIAL_SEGMENTS, Math.round(segments)));
+      return Array.from({ length: count - 1 }, (_, i) => rotationAbout(((i + 1) * 2 * Math.PI) / count, center));
+    }
+  }
+};
+
+/** Empty copies of a stroke about to be drawn, one per matrix; fill them with mirrorPoints. */
+export const mirrorStrokes = (stroke: Stroke, matrices: Matrix[]): Stroke[] =>
+  matrices.map(() => ({ ...stroke, id: createId('stroke'), points: [] }));
+
+/** Brings each copy up to date with the points drawn on the original so far. */
+export const mirrorPoints = (source: DrawPoint[], copies: Stroke[], matrices: Matrix[]) => {
+  copies.forEach((copy, i) => {
+    for (let j = copy.points.length; j < source.length; j++) {
+      copy.points.push({ ...source[j], ...applyMatrix(matrices[i], source[j]) });
+    }
+  });
+};
+
+/** End points of the axis lines drawn over the page, in document units. */
+export const symmetryGuides = (
+  mode: SymmetryMode,
+  center: Point,
+  segments: number,
+  size: { width: number; height: number }
+): [Point, Point][] => {
+  const vertical: [Point, Point] = [{ x: center.x, y: 0 }, { x: center.x, y: size.height }];
+  const horizontal: [Point, Point] = [{ x: 0, y: center.y }, { x: size.width, y: center.y }];
+  switch (mode) {
+    case 'off': return [];
+    case 'vertical': return [vertical];
+    case 'horizontal': return [horizontal];
+    case 'quadrant': return [vertical, horizontal];
+    case 'radial': {
+      // Spokes long enough to reach the page corners from anywhere on it
+      const reach = Math.hypot(size.width, size.height);
+      const count = Math.max(MIN_RADIAL_SEGMENTS, Math.min(MAX_RADIAL_SEGMENTS, Math.round(segments)));
+      return Array.from({ length: count }, (_, i) => {
+        const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+        return [center, { x: center.x + Math.cos(angle) * reach, y: center.y + Math.sin(angle) * reach }];
+      });
+    }
+  }
+};
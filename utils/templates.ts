@@ -0,0 +1,263 @@
+import { CustomTemplate, Layer, Stroke } from '../types';
+import { createId } from './id';
+import { PAGE_HEIGHT, PAGE_WIDTH, createLayer } from './layers';
+
+// --- SKETCH TEMPLATES ---
+// Croquis figures and garment flats to draw over. They are drawn as strokes, so they
+// stay sharp at any zoom, on a locked underlay layer at the bottom of the stack.
+// Saved custom templates are flattened images instead; see CustomTemplate.
+
+type Pt = [number, number];
+type Path = Pt[];
+
+interface Drawing {
+  contours: Path[]; // Outlines, drawn darker
+  guides: Path[]; // Construction lines: centre front, bust, waist, hip
+}
+
+export type PoseId = 'front' | 'back' | 'three-quarter' | 'walking';
+export type FlatId = 'shirt' | 'trouser' | 'dress';
+
+export const POSES: { id: PoseId; label: string }[] = [
+  { id: 'front', label: 'Front' },
+  { id: 'back', label: 'Back' },
+  { id: 'three-quarter', label: '3/4 Turn' },
+  { id: 'walking', label: 'Walking' },
+];
+
+// Figure height in head lengths; the extra length goes to the legs, as in fashion drawing
+export const PROPORTIONS: { heads: number; label: string }[] = [
+  { heads: 8, label: 'Realistic' },
+  { heads: 9, label: 'Fashion' },
+  { heads: 10, label: 'Editorial' },
+];
+
+export const FLATS: { id: FlatId; label: string }[] = [
+  { id: 'shirt', label: 'Shirt' },
+  { id: 'trouser', label: 'Trouser' },
+  { id: 'dress', label: 'Dress' },
+];
+
+export type TemplateChoice =
+  | { kind: 'croquis'; pose: PoseId; heads: number }
+  | { kind: 'flat'; flat: FlatId }
+  | { kind: 'custom'; template: CustomTemplate };
+
+// Underlays start faint so the drawing over them reads clearly
+const UNDERLAY_OPACITY = 35;
+const CONTOUR = { color: '#1A1A1A', size: 2 };
+const GUIDE = { color: '#9CA3AF', size: 1 };
+
+const mirror = (path: Path): Path => path.map(([x, y]) => [-x, y]);
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number, steps = 32): Path =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const a = (i / steps) * Math.PI * 2;
+    return [cx + Math.cos(a) * rx, cy + Math.sin(a) * ry];
+  });
+
+// --- CROQUIS ---
+// Figures are laid out in head lengths on an 8-head figure: x from the centre line,
+// y down from the top of the head, with the crotch at 4 and the soles at 8.
+
+const CROTCH = 4.1;
+
+// The right half of the figure as seen on the page, drawn once and mirrored
+const ARM: Path = [
+  [0.2, 1.0], [0.2, 1.3], [0.55, 1.4], [0.85, 1.55], [0.92, 1.8], [0.92, 2.4], [0.9, 2.9], [0.93, 3.4], [0.97, 3.9],
+  [1.0, 4.1], [0.98, 4.4], [0.9, 4.5], [0.84, 4.3], [0.85, 4.0],
+  [0.8, 3.9], [0.76, 3.4], [0.72, 2.9], [0.68, 2.4], [0.64, 2.0],
+];
+
+const SIDE_AND_LEG: Path = [
+  [0.64, 1.95], [0.66, 2.25], [0.58, 2.6], [0.48, 2.9], [0.55, 3.2], [0.68, 3.6], [0.66, 4.1], [0.58, 4.8], [0.48, 5.5],
+  [0.42, 6.0], [0.46, 6.5], [0.36, 7.1], [0.24, 7.65], [0.28, 7.85], [0.26, 8.0], [0.14, 8.02], [0.1, 7.85],
+  [0.09, 7.65], [0.14, 7.1], [0.18, 6.5], [0.13, 6.0], [0.15, 5.5], [0.12, 4.8], [0.05, 4.2], [0, CROTCH],
+];
+
+const LINES = { bust: 2.25, waist: 2.9, hip: 3.6 };
+const across = (y: number, halfWidth: number): Path => [[-halfWidth, y], [halfWidth, y]];
+
+const figure = (): Drawing => ({
+  contours: [ellipse(0, 0.5, 0.36, 0.5), ARM, mirror(ARM), SIDE_AND_LEG, mirror(SIDE_AND_LEG)],
+  guides: [across(LINES.bust, 0.66), across(LINES.waist, 0.48), across(LINES.hip, 0.68)],
+});
+
+const frontPose = (): Drawing => {
+  const base = figure();
+  return { ...base, guides: [...base.guides, [[0, 1.3], [0, CROTCH]]] };
+};
+
+const backPose = (): Drawing => {
+  const base = figure();
+  const blade: Path = [[0.45, 1.75], [0.3, 2.0], [0.15, 2.1]];
+  const seat: Path = [[0.05, 3.9], [0.3, 4.05], [0.55, 3.95]];
+  return {
+    ...base,
+    guides: [...base.guides, [[0, 1.0], [0, CROTCH]], blade, mirror(blade), seat, mirror(seat)],
+  };
+};
+
+// Turned towards the page's left: that side is foreshortened and the centre line follows it
+const threeQuarterPose = (): Drawing => {
+  const turn = ([x, y]: Pt): Pt => [x < 0 ? x * 0.7 : x, y];
+  const base = figure();
+  return {
+    contours: base.contours.map(path => path.map(turn)),
+    guides: [
+      ...base.guides.map(path => path.map(turn)),
+      [[-0.12, 1.3], [-0.2, 1.8], [-0.24, LINES.bust], [-0.16, LINES.waist], [-0.2, LINES.hip], [-0.1, CROTCH]],
+      [[-0.14, 0.1], [-0.2, 0.5], [-0.16, 0.9]],
+    ],
+  };
+};
+
+// Weight on the page's right leg: that hip rises and the shoulders tilt against it,
+// while the other leg swings in with its heel lifted
+const walkingPose = (): Drawing => {
+  // Shoulders lean one way, hips the other, blending through the torso
+  const tilt = (y: number) => 0.05 - 0.13 * Math.min(1, Math.max(0, (y - 2) / 1.6));
+  const body = ([x, y]: Pt): Pt => {
+    if (y > CROTCH) {
+      if (x < 0) {
+        x += (y - CROTCH) * 0.07;
+        y -= Math.max(0, y - 7) * 0.25;
+      } else {
+        x -= (y - CROTCH) * 0.05;
+      }
+    }
+    return [x, y + x * tilt(y)];
+  };
+  const arm = ([x, y]: Pt): Pt => [x, y + x * tilt(0)];
+  const base = frontPose();
+  return {
+    contours: [base.contours[0], ...[ARM, mirror(ARM)].map(path => path.map(arm)), ...[SIDE_AND_LEG, mirror(SIDE_AND_LEG)].map(path => path.map(body))],
+    guides: base.guides.map(path => path.map(body)),
+  };
+};
+
+const POSE_DRAWINGS: Record<PoseId, () => Drawing> = {
+  'front': frontPose,
+  'back': backPose,
+  'three-quarter': threeQuarterPose,
+  'walking': walkingPose,
+};
+
+// Head to toe, leaving a margin at the top and bottom of the page
+const FIGURE_HEIGHT = PAGE_HEIGHT * 0.86;
+
+const croquisToPage = (heads: number) => {
+  const head = FIGURE_HEIGHT / heads;
+  const top = (PAGE_HEIGHT - FIGURE_HEIGHT) / 2;
+  return ([x, y]: Pt): Pt => {
+    // Lengthen the legs only; the head and torso keep their proportions
+    const stretched = y <= CROTCH ? y : CROTCH + (y - CROTCH) * (heads - CROTCH) / (8 - CROTCH);
+    return [PAGE_WIDTH / 2 + x * head, top + stretched * head];
+  };
+};
+
+// --- FLATS ---
+// Technical flats on a 100 x 100 grid with the centre front at x = 50, the right half
+// drawn once and mirrored
+
+const mirrorFlat = (path: Path): Path => path.map(([x, y]) => [100 - x, y]);
+const symmetric = (paths: Path[]): Path[] => paths.flatMap(path => [path, mirrorFlat(path)]);
+
+const shirt = (): Drawing => ({
+  contours: [
+    ...symmetric([
+      [[60, 8], [75, 12], [86, 45], [89, 70], [80, 71], [77, 45], [73, 28], [72, 60], [73, 92], [62, 95], [50, 96]],
+      [[60, 8], [58, 19], [50, 16]],
+      [[75, 12], [73, 28]],
+      [[88, 64], [80, 65]],
+    ]),
+    [[40, 8], [50, 10], [60, 8]],
+    [[48, 16], [48, 95]],
+    [[52, 16], [52, 95]],
+    [[30, 30], [40, 30], [40, 40], [35, 42], [30, 40], [30, 30]],
+    ...[22, 34, 46, 58, 70, 82].map(y => ellipse(50, y, 0.8, 0.8, 12)),
+  ],
+  guides: [],
+});
+
+const trouser = (): Drawing => ({
+  contours: [
+    ...symmetric([
+      [[50, 5], [72, 5], [72, 10], [76, 40], [78, 97], [56, 97], [53, 40], [50, 30]],
+      [[64, 10], [71, 22]],
+      [[62, 4], [62, 11]],
+    ]),
+    [[28, 10], [72, 10]],
+    [[50, 10], [50, 30]],
+    [[50, 30], [46, 27], [45, 10]],
+  ],
+  // Pressed creases
+  guides: [[[67, 30], [67, 97]], [[33, 30], [33, 97]]],
+});
+
+const dress = (): Drawing => ({
+  contours: [
+    ...symmetric([
+      [[60, 4], [66, 6], [63, 16], [66, 24], [63, 38], [70, 60], [80, 96], [65, 98], [50, 99]],
+      [[60, 4], [56, 14], [50, 16]],
+      [[57, 38], [56, 28]],
+    ]),
+    [[37, 38], [63, 38]],
+  ],
+  guides: [[[50, 16], [50, 99]]],
+});
+
+const FLAT_DRAWINGS: Record<FlatId, () => Drawing> = { shirt, trouser, dress };
+
+// The grid fills most of the page, leaving room around the garment
+const flatToPage = ([x, y]: Pt): Pt => [PAGE_WIDTH * (0.11 + x * 0.0078), PAGE_HEIGHT * (0.11 + y * 0.0078)];
+
+// --- LAYERS ---
+
+const pathStroke = (path: Path, style: { color: string; size: number }): Stroke => ({
+  id: createId('stroke'),
+  tool: 'brush',
+  color: style.color,
+  size: style.size,
+  opacity: 100,
+  brush: 'round',
+  seed: 0,
+  interpolation: 'catmull-rom',
+  points: path.map(([x, y]) => ({ x, y, pressure: 0.5 })),
+});
+
+const drawingStrokes = (drawing: Drawing, toPage: (p: Pt) => Pt): Stroke[] => [
+  ...drawing.guides.map(path => pathStroke(path.map(toPage), GUIDE)),
+  ...drawing.contours.map(path => pathStroke(path.map(toPage), CONTOUR)),
+];
+
+export const templateName = (choice: TemplateChoice): string => {
+  switch (choice.kind) {
+    case 'croquis': {
+      const pose = POSES.find(p => p.id === choice.pose)?.label ?? 'Croquis';
+      return `Croquis: ${pose}, ${choice.heads} heads`;
+    }
+    case 'flat': return `Flat: ${FLATS.find(f => f.id === choice.flat)?.label ?? 'Garment'}`;
+    case 'custom': return choice.template.name;
+  }
+};
+
+/** Template strokes in page units, e.g. for previews. Custom templates have none. */
+export const templateStrokes = (choice: TemplateChoice): Stroke[] => {
+  switch (choice.kind) {
+    case 'croquis': return drawingStrokes(POSE_DRAWINGS[choice.pose](), croquisToPage(choice.heads));
+    case 'flat': return drawingStrokes(FLAT_DRAWINGS[choice.flat](), flatToPage);
+    case 'custom': return [];
+  }
+};
+
+/** The locked, faded layer a new sketch starts with beneath its drawing layer. */
+export const createUnderlay = (choice: TemplateChoice): Layer =>
+  createLayer(templateName(choice), {
+    locked: true,
+    opacity: UNDERLAY_OPACITY,
+    underlay: true,
+    excludeFromExport: true,
+    strokes: templateStrokes(choice),
+    bitmap: choice.kind === 'custom' ? choice.template.image : undefined,
+  });
@@ -0,0 +1,171 @@
+import { Layer, RegionFill, SketchDocument, Stroke } from '../types';
+import { renderFill } from './fill';
+import { compositeOperation } from './layers';
+import { renderLayer } from './render';
+import { renderStroke } from './strokes';
+
+// --- TIMELAPSE ---
+// Replays a sketch stroke by stroke in the order it was drawn, each stroke at the pace
+// of the hand that drew it. Pauses between strokes are cut short, so an afternoon's
+// work plays back in minutes. Strokes and fills from before timestamps were recorded
+// keep their document order and play one after another.
+
+// Longest pause between strokes on the timelapse clock, in ms
+const MAX_PAUSE = 400;
+// Pace of strokes whose points carry no timing
+const UNTIMED_POINT_INTERVAL = 8;
+
+export const TIMELAPSE_SPEEDS = [1, 2, 4, 8, 16, 32];
+
+export interface TimelapseEntry {
+  layerId: string;
+  start: number; // On the timelapse clock, ms
+  duration: number;
+  stroke?: Stroke;
+  fill?: RegionFill;
+}
+
+export interface Timelapse {
+  entries: TimelapseEntry[]; // By start
+  duration: number;
+}
+
+const strokeDuration = (stroke: Stroke): number => {
+  const timed = stroke.points.some(p => p.t);
+  return timed
+    ? stroke.points.reduce((end, p) => Math.max(end, p.t ?? 0), 0)
+    : stroke.points.length * UNTIMED_POINT_INTERVAL;
+};
+
+/** The stroke as drawn `elapsed` ms after it began. */
+const strokeAt = (stroke: Stroke, elapsed: number, duration: number): Stroke => {
+  if (elapsed >= duration) return stroke;
+  const timed = stroke.points.some(p => p.t);
+  const points = timed
+    ? stroke.points.filter(p => (p.t ?? 0) <= elapsed)
+    : stroke.points.slice(0, Math.ceil(stroke.points.length * (elapsed / duration)));
+  return { ...stroke, points };
+};
+
+/** Orders a document's strokes and fills by when they were made, on a compressed clock. */
+export const buildTimelapse = (doc: SketchDocument): Timelapse => {
+  // Document order first, so the sort below keeps it wherever times are missing or tied
+  const made = doc.layers.flatMap(layer => [
+    ...(layer.fills ?? []).map(fill => ({ layerId: layer.id, at: fill.createdAt, duration: 0, fill })),
+    ...layer.strokes.map(stroke => ({ layerId: layer.id, at: stroke.startedAt, duration: strokeDuration(stroke), stroke })),
+  ]);
+  made.sort((a, b) => (a.at ?? 0) - (b.at ?? 0));
+
+  let clock = 0;
+  const entries = made.map(({ at, ...entry }, i) => {
+    if (i > 0) {
+      const previous = made[i - 1];
+      // Strokes mirrored together start together; otherwise the real pause, cut short
+      clock += at !== undefined && previous.at !== undefined
+        ? Math.min(at - previous.at, previous.duration + MAX_PAUSE)
+        : previous.duration;
+    }
+    return { ...entry, start: clock };
+  });
+  return {
+    entries,
+    duration: entries.reduce((end, e) => Math.max(end, e.start + e.duration), 0),
+  };
+};
+
+/**
+ * Paints timelapse frames of a document at `scale` pixels per document unit, with the
+ * layers' images decoded into `images` by source. Strokes finished by the time shown
+ * are kept on a canvas per layer, so playing forward only paints what is new.
+ */
+export const createTimelapseRenderer = (
+  doc: SketchDocument,
+  timelapse: Timelapse,
+  images: Map<string, HTMLImageElement>,
+  scale: number
+) => {
+  const width = Math.round(doc.width * scale);
+  const height = Math.round(doc.height * scale);
+  const newCanvas = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  };
+
+  const layers = doc.layers.filter(l => l.visible).map(layer => ({
+    layer,
+    entries: timelapse.entries.filter(e => e.layerId === layer.id),
+    finished: newCanvas(), // The layer with its first `done` entries
+    done: -1, // Nothing painted yet
+  }));
+  const frame = newCanvas();
+
+  // Repaints a layer's finished canvas with just the given entries
+  const repaint = (layer: Layer, finished: HTMLCanvasElement, entries: TimelapseEntry[]) => {
+    const ctx = finished.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    renderLayer(ctx, {
+      ...layer,
+      fills: entries.flatMap(e => (e.fill ? [e.fill] : [])),
+      strokes: entries.flatMap(e => (e.stroke ? [e.stroke] : [])),
+    }, doc, images);
+  };
+
+  /** Paints the page as it stood `time` ms into the timelapse, over white paper. */
+  const render = (out: CanvasRenderingContext2D, time: number) => {
+    out.setTransform(1, 0, 0, 1, 0, 0);
+    out.globalAlpha = 1;
+    out.globalCompositeOperation = 'source-over';
+    out.fillStyle = '#FFFFFF';
+    out.fillRect(0, 0, out.canvas.width, out.canvas.height);
+
+    layers.forEach(state => {
+      const { layer, entries, finished } = state;
+      let done = 0;
+      while (done < entries.length && entries[done].start + entries[done].duration <= time) done++;
+
+      // Fills go under strokes and scrubbing back takes strokes away: both need a
+      // fresh paint. New strokes alone are painted over what is there.
+      const added = entries.slice(Math.max(0, state.done), done);
+      if (done < state.done || state.done < 0 || added.some(e => e.fill)) {
+        repaint(layer, finished, entries.slice(0, done));
+      } else if (added.length > 0) {
+        const ctx = finished.getContext('2d');
+        ctx?.setTransform(scale, 0, 0, scale, 0, 0);
+        added.forEach(e => ctx && e.stroke && renderStroke(ctx, e.stroke));
+      }
+      state.done = done;
+
+      // Strokes under way are painted on a copy, so erasers cut only this layer
+      const drawing = entries.slice(done).filter(e => e.start <= time);
+      let source = finished;
+      const ctx = frame.getContext('2d');
+      if (drawing.length > 0 && ctx) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(finished, 0, 0);
+        ctx.setTransform(scale, 0, 0, scale, 0, 0);
+        drawing.forEach(e => {
+          if (e.stroke) renderStroke(ctx, strokeAt(e.stroke, time - e.start, e.duration));
+          if (e.fill) renderFill(ctx, e.fill, images);
+        });
+        source = frame;
+      }
+
+      out.globalAlpha = layer.opacity / 100;
+      out.globalCompositeOperation = compositeOperation(layer.blendMode);
+      out.drawImage(source, 0, 0, out.canvas.width, out.canvas.height);
+    });
+
+    out.globalAlpha = 1;
+    out.globalCompositeOperation = 'source-over';
+  };
+
+  return { width, height, render };
+};
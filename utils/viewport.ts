@@ -0,0 +1,89 @@
+// --- VIEW TRANSFORM ---
+// How the paper sits on screen: offset of its centre from the canvas area's centre
+// (screen pixels), zoom relative to the fitted size, and rotation (radians). Paper
+// coordinates are CSS pixels of the fitted paper, measured from its centre.
+
+export interface ViewTransform {
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const IDENTITY_VIEW: ViewTransform = { x: 0, y: 0, scale: 1, rotation: 0 };
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 12;
+
+// Rotations this close to upright snap back to it
+const ROTATION_SNAP = (5 * Math.PI) / 180;
+
+export const isIdentityView = (view: ViewTransform) =>
+  view.x === 0 && view.y === 0 && view.scale === 1 && view.rotation === 0;
+
+export const viewToCss = (view: ViewTransform) =>
+  `translate(${view.x}px, ${view.y}px) rotate(${view.rotation}rad) scale(${view.scale})`;
+
+const rotate = (p: Point, angle: number): Point => ({
+  x: p.x * Math.cos(angle) - p.y * Math.sin(angle),
+  y: p.x * Math.sin(angle) + p.y * Math.cos(angle),
+});
+
+/** Maps a screen point to paper coordinates. `center` is the canvas area's centre on screen. */
+export const screenToPaper = (view: ViewTransform, screen: Point, center: Point): Point => {
+  const local = rotate({ x: screen.x - center.x - view.x, y: screen.y - center.y - view.y }, -view.rotation);
+  return { x: local.x / view.scale, y: local.y / view.scale };
+};
+
+export const paperToScreen = (view: ViewTransform, paper: Point, center: Point): Point => {
+  const turned = rotate({ x: paper.x * view.scale, y: paper.y * view.scale }, view.rotation);
+  return { x: center.x + view.x + turned.x, y: center.y + view.y + turned.y };
+};
+
+const clampZoom = (scale: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale));
+
+/** Zooms by `factor`, keeping the paper point under `anchor` (screen) fixed. */
+export const zoomAt = (view: ViewTransform, anchor: Point, factor: number, center: Point): ViewTransform => {
+  const held = screenToPaper(view, anchor, center);
+  const next = { ...view, scale: clampZoom(view.scale * factor) };
+  const moved = paperToScreen(next, held, center);
+  return { ...next, x: next.x + anchor.x - moved.x, y: next.y + anchor.y - moved.y };
+};
+
+/**
+ * Two-finger pinch: the view at gesture start plus where both fingers started and are
+ * now. The paper point under the fingers' midpoint follows the midpoint, the zoom
+ * follows their spread and the rotation follows their angle.
+ */
+export const pinchView = (
+  start: ViewTransform,
+  from: [Point, Point],
+  to: [Point, Point],
+  center: Point
+): ViewTransform => {
+  const midpoint = (pair: [Point, Point]): Point => ({ x: (pair[0].x + pair[1].x) / 2, y: (pair[0].y + pair[1].y) / 2 });
+  const spread = (pair: [Point, Point]) => Math.max(1, Math.hypot(pair[1].x - pair[0].x, pair[1].y - pair[0].y));
+  const angle = (pair: [Point, Point]) => Math.atan2(pair[1].y - pair[0].y, pair[1].x - pair[0].x);
+
+  const fromMid = midpoint(from);
+  const toMid = midpoint(to);
+  const held = screenToPaper(start, fromMid, center);
+
+  let rotation = start.rotation + angle(to) - angle(from);
+  rotation = Math.atan2(Math.sin(rotation), Math.cos(rotation));
+  if (Math.abs(rotation) < ROTATION_SNAP) rotation = 0;
+
+  const next = {
+    x: 0,
+    y: 0,
+    scale: clampZoom(start.scale * spread(to) / spread(from)),
+    rotation,
+  };
+  const placed = paperToScreen(next, held, center);
+  return { ...next, x: toMid.x - placed.x, y: toMid.y - placed.y };
+};
@@ -1,18 +1,22 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorker } from './scripts/vite-plugin-service-worker';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker({ worker: 'sw.js' })],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SYNC_URL': JSON.stringify(env.ATELIER_SYNC_URL || ''),
+        // Only production builds register the service worker
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build' ? '/sw.js' : '')
       },
       resolve: {
         alias: {